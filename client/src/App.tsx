@@ -6,20 +6,31 @@ import { Toaster } from "@/components/ui/toaster";
 import { getCurrentUser } from "@/lib/auth";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
+import AcceptInvitation from "@/pages/accept-invitation";
+import ResetPassword from "@/pages/reset-password";
+import Security from "@/pages/security";
+import NotificationSettings from "@/pages/notification-settings";
 import Dashboard from "@/pages/dashboard";
 import BidHistory from "@/pages/bid-history";
+import Tenders from "@/pages/tenders";
+import AuditLog from "@/pages/audit-log";
 import NotFound from "@/pages/not-found";
 
+// Pages reachable without signing in
+const PUBLIC_PATHS = ["/login", "/register", "/accept-invitation", "/reset-password"];
+
 function Router() {
   const [location, setLocation] = useLocation();
   
   // Check if user is logged in
   useEffect(() => {
     const checkAuth = async () => {
-      if (location !== "/login" && location !== "/register") {
+      if (!PUBLIC_PATHS.includes(location)) {
         const user = await getCurrentUser();
         if (!user && location !== "/") {
           setLocation("/login");
+        } else if (user?.twoFactorEnrollmentRequired && location !== "/security") {
+          setLocation("/security");
         } else if (location === "/") {
           setLocation("/dashboard");
         }
@@ -34,8 +45,14 @@ function Router() {
       <Route path="/" component={Dashboard} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/accept-invitation" component={AcceptInvitation} />
+      <Route path="/reset-password" component={ResetPassword} />
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/bid-history" component={BidHistory} />
+      <Route path="/tenders" component={Tenders} />
+      <Route path="/security" component={Security} />
+      <Route path="/notifications" component={NotificationSettings} />
+      <Route path="/audit-log" component={AuditLog} />
       <Route component={NotFound} />
     </Switch>
   );
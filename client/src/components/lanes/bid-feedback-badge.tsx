@@ -0,0 +1,38 @@
+import { Badge } from "@/components/ui/badge";
+import { BidFeedback } from "@/lib/types";
+
+interface BidFeedbackBadgeProps {
+  feedback: BidFeedback;
+  trafficLightPercent: number;
+}
+
+const TRAFFIC_LIGHT_CLASSES = {
+  leading: "bg-green-600 hover:bg-green-700",
+  close: "bg-amber-500 hover:bg-amber-600",
+  far: "bg-red-600 hover:bg-red-700",
+};
+
+// Shows a forwarder where their best bid stands without revealing prices
+export default function BidFeedbackBadge({ feedback, trafficLightPercent }: BidFeedbackBadgeProps) {
+  if (feedback.trafficLight) {
+    return (
+      <Badge className={TRAFFIC_LIGHT_CLASSES[feedback.trafficLight]}>
+        {feedback.trafficLight === "leading"
+          ? "Leading"
+          : feedback.trafficLight === "close"
+            ? `Within ${trafficLightPercent}% of the lowest bid`
+            : "Far off the lowest bid"}
+      </Badge>
+    );
+  }
+
+  if (feedback.rank === undefined) {
+    return null;
+  }
+
+  return (
+    <Badge variant={feedback.rank === 1 ? "default" : "secondary"}>
+      You are #{feedback.rank} of {feedback.bidderCount}
+    </Badge>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { BidSheetReport } from "@/lib/types";
+
+interface BidSheetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Sends the file as the raw request body; a dry run only validates it
+async function uploadBidSheet(file: File, dryRun: boolean): Promise<BidSheetReport> {
+  const response = await fetch(`/api/user/bid-sheet${dryRun ? "?dryRun=true" : ""}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || response.statusText);
+  }
+
+  return data;
+}
+
+export default function BidSheetModal({ isOpen, onClose }: BidSheetModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<BidSheetReport | null>(null);
+  const { toast } = useToast();
+
+  const handleClose = () => {
+    setFile(null);
+    setReport(null);
+    onClose();
+  };
+
+  const validateMutation = useMutation({
+    mutationFn: async (file: File) => uploadBidSheet(file, true),
+    onSuccess: (data) => setReport(data),
+    onError: (error) => {
+      setReport(null);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to validate bid sheet",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async (file: File) => uploadBidSheet(file, false),
+    onSuccess: (data) => {
+      toast({
+        title: "Bids submitted",
+        description: `${data.acceptedCount} bids were placed${data.rejectedCount ? `, ${data.rejectedCount} rows rejected` : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/bids"] });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit bids",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setReport(null);
+
+    if (selected) {
+      validateMutation.mutate(selected);
+    }
+  };
+
+  const rejectedRows = report?.rows.filter(row => row.errors.length > 0) || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bid Sheet</DialogTitle>
+          <DialogDescription>
+            Download every lane you can bid on, fill in the amount and comment columns offline and upload the sheet back. Rows left without an amount are ignored.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="flex gap-3">
+            <Button variant="outline" asChild>
+              <a href="/api/user/bid-sheet?format=xlsx">Download XLSX</a>
+            </Button>
+            <Button variant="outline" asChild>
+              <a href="/api/user/bid-sheet?format=csv">Download CSV</a>
+            </Button>
+          </div>
+
+          <Input
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+          />
+
+          {validateMutation.isPending && (
+            <p className="text-sm text-gray-500">Validating...</p>
+          )}
+
+          {report && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                <span className="text-green-700 font-medium">{report.acceptedCount} accepted</span>
+                {" · "}
+                <span className={report.rejectedCount ? "text-red-700 font-medium" : "text-gray-500"}>
+                  {report.rejectedCount} rejected
+                </span>
+                {" · "}
+                <span className="text-gray-500">{report.skippedCount} without an amount</span>
+              </p>
+
+              {rejectedRows.length > 0 && (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Row
+                      </th>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Lane
+                      </th>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Reason
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rejectedRows.map(row => (
+                      <tr key={row.row}>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 align-top">{row.row}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 align-top">
+                          {row.laneId ? `#${row.laneId}` : "-"}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-red-700">{row.errors.join("; ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            disabled={submitMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => file && submitMutation.mutate(file)}
+            disabled={!file || !report?.acceptedCount || submitMutation.isPending}
+          >
+            {submitMutation.isPending
+              ? "Submitting..."
+              : `Submit ${report?.acceptedCount || ""} Bids`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,8 +10,11 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { LaneFormValues } from "@/lib/types";
+import { LaneFormValues, LaneInvitees } from "@/lib/types";
+import { toDateTimeLocal } from "@/lib/utils";
+import LaneInviteesField from "./lane-invitees-field";
 
 interface CreateLaneModalProps {
   isOpen: boolean;
@@ -20,16 +23,29 @@ interface CreateLaneModalProps {
 
 const formSchema = z.object({
   bidName: z.string().min(3, "Bid name must be at least 3 characters"),
+  auctionType: z.enum(["open", "sealed"]),
   status: z.enum(["active", "archived", "ending_soon"]),
   vehicleType: z.enum(["40t", "12t", "van"]),
   loadingLocation: z.string().min(2, "Loading location is required"),
   unloadingLocation: z.string().min(2, "Unloading location is required"),
+  expectedVolume: z.coerce.number().int().min(0, "Must be 0 or more"),
+  volumePeriod: z.enum(["week", "month"]),
   validFrom: z.string().refine(val => !isNaN(Date.parse(val)), {
     message: "Valid from date is required",
   }),
   validUntil: z.string().refine(val => !isNaN(Date.parse(val)), {
     message: "Valid until date is required",
   }),
+  extensionWindowMinutes: z.coerce.number().int().min(0, "Must be 0 or more"),
+  extensionMinutes: z.coerce.number().int().min(0, "Must be 0 or more"),
+  maxExtensions: z.coerce.number().int().min(0, "Must be 0 or more"),
+  ceilingPrice: z.coerce.number().min(0, "Must be 0 or more"),
+  minDecrement: z.coerce.number().min(0, "Must be 0 or more"),
+  decrementType: z.enum(["absolute", "percent"]),
+  mustImproveOwnBid: z.boolean(),
+  oneBidPerCompany: z.boolean(),
+  bidVisibility: z.enum(["full_price", "rank", "traffic_light"]),
+  trafficLightPercent: z.coerce.number().int().min(1, "Must be at least 1"),
 }).refine(data => {
   const from = new Date(data.validFrom);
   const until = new Date(data.validUntil);
@@ -40,6 +56,7 @@ const formSchema = z.object({
 });
 
 export default function CreateLaneModal({ isOpen, onClose }: CreateLaneModalProps) {
+  const [invitees, setInvitees] = useState<LaneInvitees>({ userIds: [], companyIds: [], groupIds: [] });
   const { toast } = useToast();
   
   const form = useForm<LaneFormValues>({
@@ -47,17 +64,30 @@ export default function CreateLaneModal({ isOpen, onClose }: CreateLaneModalProp
     defaultValues: {
       bidName: "",
       status: "active",
+      auctionType: "open",
       vehicleType: "40t",
       loadingLocation: "",
       unloadingLocation: "",
-      validFrom: new Date().toISOString().split('T')[0],
-      validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      expectedVolume: 0,
+      volumePeriod: "week",
+      validFrom: toDateTimeLocal(new Date()),
+      validUntil: toDateTimeLocal(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)),
+      extensionWindowMinutes: 0,
+      extensionMinutes: 0,
+      maxExtensions: 0,
+      ceilingPrice: 0,
+      minDecrement: 0,
+      decrementType: "absolute",
+      mustImproveOwnBid: false,
+      oneBidPerCompany: false,
+      bidVisibility: "full_price",
+      trafficLightPercent: 5,
     },
   });
   
   const createLaneMutation = useMutation({
     mutationFn: async (values: LaneFormValues) => {
-      return apiRequest("POST", "/api/lanes", values);
+      return apiRequest("POST", "/api/lanes", { ...values, invitees });
     },
     onSuccess: () => {
       toast({
@@ -67,6 +97,7 @@ export default function CreateLaneModal({ isOpen, onClose }: CreateLaneModalProp
       queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
       onClose();
       form.reset();
+      setInvitees({ userIds: [], companyIds: [], groupIds: [] });
     },
     onError: (error) => {
       toast({
@@ -120,6 +151,32 @@ export default function CreateLaneModal({ isOpen, onClose }: CreateLaneModalProp
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="auctionType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Auction Type</FormLabel>
+                  <Select 
+                    onValueChange={field.onChange} 
+                    defaultValue={field.value}
+                    value={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select auction type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="open">Open reverse auction</SelectItem>
+                      <SelectItem value="sealed">Sealed bid (RFQ)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <FormField
                 control={form.control}
@@ -202,6 +259,48 @@ export default function CreateLaneModal({ isOpen, onClose }: CreateLaneModalProp
               )}
             />
             
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="expectedVolume"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expected Volume (loads)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="volumePeriod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Per</FormLabel>
+                    <Select 
+                      onValueChange={field.onChange} 
+                      defaultValue={field.value}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select period" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="week">Week</SelectItem>
+                        <SelectItem value="month">Month</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <FormField
                 control={form.control}
@@ -210,7 +309,7 @@ export default function CreateLaneModal({ isOpen, onClose }: CreateLaneModalProp
                   <FormItem>
                     <FormLabel>Valid From</FormLabel>
                     <FormControl>
-                      <Input type="date" {...field} />
+                      <Input type="datetime-local" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -224,7 +323,7 @@ export default function CreateLaneModal({ isOpen, onClose }: CreateLaneModalProp
                   <FormItem>
                     <FormLabel>Valid Until</FormLabel>
                     <FormControl>
-                      <Input type="date" {...field} />
+                      <Input type="datetime-local" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -232,6 +331,198 @@ export default function CreateLaneModal({ isOpen, onClose }: CreateLaneModalProp
               />
             </div>
             
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">Anti-sniping</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Bids placed in the final window extend the lane. Leave at 0 to disable.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="extensionWindowMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Window (min)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="extensionMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Extend by (min)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="maxExtensions"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max extensions</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+            
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">Bidding rules</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Leave at 0 to disable. The minimum decrement only applies to open auctions.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="ceilingPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ceiling price (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="0.01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              
+                <FormField
+                  control={form.control}
+                  name="minDecrement"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Min. decrement</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="0.01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              
+                <FormField
+                  control={form.control}
+                  name="decrementType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Decrement in</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="absolute">EUR</SelectItem>
+                          <SelectItem value="percent">Percent</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
+              <FormField
+                control={form.control}
+                name="mustImproveOwnBid"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0 mt-4">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">
+                      Forwarders must beat their own previous bid
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="oneBidPerCompany"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0 mt-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">
+                      Only one user per company may bid
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+            
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">Competition visibility</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                What forwarders see of the competing bids. Admins always see every price.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="bidVisibility"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Forwarders see</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="full_price">Lowest price</SelectItem>
+                          <SelectItem value="rank">Their rank only</SelectItem>
+                          <SelectItem value="traffic_light">Traffic light</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              
+                {form.watch("bidVisibility") === "traffic_light" && (
+                  <FormField
+                    control={form.control}
+                    name="trafficLightPercent"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Amber within (%)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            </div>
+            
+            <LaneInviteesField value={invitees} onChange={setInvitees} />
+            
             <div className="flex justify-end space-x-4">
               <Button 
                 type="button" 
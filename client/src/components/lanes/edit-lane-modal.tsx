@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -10,9 +10,12 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Lane, LaneFormValues } from "@/lib/types";
+import { Lane, LaneFormValues, LaneInvitees } from "@/lib/types";
+import { toDateTimeLocal } from "@/lib/utils";
+import LaneInviteesField from "./lane-invitees-field";
 
 interface EditLaneModalProps {
   isOpen: boolean;
@@ -22,16 +25,29 @@ interface EditLaneModalProps {
 
 const formSchema = z.object({
   bidName: z.string().min(3, "Bid name must be at least 3 characters"),
-  status: z.enum(["active", "archived", "ending_soon"]),
+  auctionType: z.enum(["open", "sealed"]),
+  status: z.enum(["active", "archived", "ending_soon", "closed", "awarded"]),
   vehicleType: z.enum(["40t", "12t", "van"]),
   loadingLocation: z.string().min(2, "Loading location is required"),
   unloadingLocation: z.string().min(2, "Unloading location is required"),
+  expectedVolume: z.coerce.number().int().min(0, "Must be 0 or more"),
+  volumePeriod: z.enum(["week", "month"]),
   validFrom: z.string().refine(val => !isNaN(Date.parse(val)), {
     message: "Valid from date is required",
   }),
   validUntil: z.string().refine(val => !isNaN(Date.parse(val)), {
     message: "Valid until date is required",
   }),
+  extensionWindowMinutes: z.coerce.number().int().min(0, "Must be 0 or more"),
+  extensionMinutes: z.coerce.number().int().min(0, "Must be 0 or more"),
+  maxExtensions: z.coerce.number().int().min(0, "Must be 0 or more"),
+  ceilingPrice: z.coerce.number().min(0, "Must be 0 or more"),
+  minDecrement: z.coerce.number().min(0, "Must be 0 or more"),
+  decrementType: z.enum(["absolute", "percent"]),
+  mustImproveOwnBid: z.boolean(),
+  oneBidPerCompany: z.boolean(),
+  bidVisibility: z.enum(["full_price", "rank", "traffic_light"]),
+  trafficLightPercent: z.coerce.number().int().min(1, "Must be at least 1"),
 }).refine(data => {
   const from = new Date(data.validFrom);
   const until = new Date(data.validUntil);
@@ -42,6 +58,7 @@ const formSchema = z.object({
 });
 
 export default function EditLaneModal({ isOpen, onClose, laneId }: EditLaneModalProps) {
+  const [invitees, setInvitees] = useState<LaneInvitees>({ userIds: [], companyIds: [], groupIds: [] });
   const { toast } = useToast();
   
   const form = useForm<LaneFormValues>({
@@ -49,11 +66,24 @@ export default function EditLaneModal({ isOpen, onClose, laneId }: EditLaneModal
     defaultValues: {
       bidName: "",
       status: "active",
+      auctionType: "open",
       vehicleType: "40t",
       loadingLocation: "",
       unloadingLocation: "",
+      expectedVolume: 0,
+      volumePeriod: "week",
       validFrom: "",
       validUntil: "",
+      extensionWindowMinutes: 0,
+      extensionMinutes: 0,
+      maxExtensions: 0,
+      ceilingPrice: 0,
+      minDecrement: 0,
+      decrementType: "absolute",
+      mustImproveOwnBid: false,
+      oneBidPerCompany: false,
+      bidVisibility: "full_price",
+      trafficLightPercent: 5,
     },
   });
   
@@ -72,24 +102,57 @@ export default function EditLaneModal({ isOpen, onClose, laneId }: EditLaneModal
     enabled: isOpen && laneId > 0,
   });
   
+  // Tender lanes are published to the tender's forwarders instead
+  const isStandalone = !!lane && !lane.tenderId;
+  
+  const { data: savedInvitees } = useQuery<LaneInvitees>({
+    queryKey: [`/api/lanes/${laneId}/invitees`],
+    enabled: isOpen && isStandalone,
+  });
+  
+  useEffect(() => {
+    if (savedInvitees) {
+      setInvitees(savedInvitees);
+    }
+  }, [savedInvitees]);
+  
   // Set form values when lane data is loaded
   useEffect(() => {
     if (lane) {
       form.reset({
         bidName: lane.bidName,
         status: lane.status,
+        auctionType: lane.auctionType,
         vehicleType: lane.vehicleType,
         loadingLocation: lane.loadingLocation,
         unloadingLocation: lane.unloadingLocation,
-        validFrom: new Date(lane.validFrom).toISOString().split('T')[0],
-        validUntil: new Date(lane.validUntil).toISOString().split('T')[0],
+        expectedVolume: lane.expectedVolume ?? 0,
+        volumePeriod: lane.volumePeriod ?? "week",
+        validFrom: toDateTimeLocal(lane.validFrom),
+        validUntil: toDateTimeLocal(lane.validUntil),
+        extensionWindowMinutes: lane.extensionWindowMinutes ?? 0,
+        extensionMinutes: lane.extensionMinutes ?? 0,
+        maxExtensions: lane.maxExtensions ?? 0,
+        ceilingPrice: lane.ceilingPrice ? parseFloat(lane.ceilingPrice) : 0,
+        minDecrement: lane.minDecrement ? parseFloat(lane.minDecrement) : 0,
+        decrementType: lane.decrementType,
+        mustImproveOwnBid: lane.mustImproveOwnBid,
+        oneBidPerCompany: lane.oneBidPerCompany,
+        bidVisibility: lane.bidVisibility,
+        trafficLightPercent: lane.trafficLightPercent,
       });
     }
   }, [lane, form]);
   
   const updateLaneMutation = useMutation({
     mutationFn: async (values: LaneFormValues) => {
-      return apiRequest("PUT", `/api/lanes/${laneId}`, values);
+      const response = await apiRequest("PUT", `/api/lanes/${laneId}`, values);
+      
+      if (isStandalone) {
+        await apiRequest("PUT", `/api/lanes/${laneId}/invitees`, invitees);
+      }
+      
+      return response;
     },
     onSuccess: () => {
       toast({
@@ -98,6 +161,8 @@ export default function EditLaneModal({ isOpen, onClose, laneId }: EditLaneModal
       });
       queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
       queryClient.invalidateQueries({ queryKey: [`/api/lanes/${laneId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/lanes/${laneId}/status-history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/lanes/${laneId}/invitees`] });
       onClose();
     },
     onError: (error) => {
@@ -179,6 +244,32 @@ export default function EditLaneModal({ isOpen, onClose, laneId }: EditLaneModal
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="auctionType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Auction Type</FormLabel>
+                    <Select 
+                      onValueChange={field.onChange} 
+                      defaultValue={field.value}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select auction type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="open">Open reverse auction</SelectItem>
+                        <SelectItem value="sealed">Sealed bid (RFQ)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <FormField
                   control={form.control}
@@ -199,6 +290,9 @@ export default function EditLaneModal({ isOpen, onClose, laneId }: EditLaneModal
                         <SelectContent>
                           <SelectItem value="active">Active</SelectItem>
                           <SelectItem value="ending_soon">Ending Soon</SelectItem>
+                          <SelectItem value="closed">Closed</SelectItem>
+                          {/* Lanes are awarded from the bids view, not by editing */}
+                          <SelectItem value="awarded" disabled={lane?.status !== "awarded"}>Awarded</SelectItem>
                           <SelectItem value="archived">Archived</SelectItem>
                         </SelectContent>
                       </Select>
@@ -263,6 +357,48 @@ export default function EditLaneModal({ isOpen, onClose, laneId }: EditLaneModal
                 )}
               />
               
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="expectedVolume"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expected Volume (loads)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="volumePeriod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Per</FormLabel>
+                      <Select 
+                        onValueChange={field.onChange} 
+                        defaultValue={field.value}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select period" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="week">Week</SelectItem>
+                          <SelectItem value="month">Month</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <FormField
                   control={form.control}
@@ -271,7 +407,7 @@ export default function EditLaneModal({ isOpen, onClose, laneId }: EditLaneModal
                     <FormItem>
                       <FormLabel>Valid From</FormLabel>
                       <FormControl>
-                        <Input type="date" {...field} />
+                        <Input type="datetime-local" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -285,13 +421,207 @@ export default function EditLaneModal({ isOpen, onClose, laneId }: EditLaneModal
                     <FormItem>
                       <FormLabel>Valid Until</FormLabel>
                       <FormControl>
-                        <Input type="date" {...field} />
+                        <Input type="datetime-local" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
+            
+              <div>
+                <h3 className="text-sm font-medium text-gray-900">Anti-sniping</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Bids placed in the final window extend the lane. Leave at 0 to disable.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="extensionWindowMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Window (min)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                
+                  <FormField
+                    control={form.control}
+                    name="extensionMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Extend by (min)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                
+                  <FormField
+                    control={form.control}
+                    name="maxExtensions"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max extensions</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+              
+              <div>
+                <h3 className="text-sm font-medium text-gray-900">Bidding rules</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Leave at 0 to disable. The minimum decrement only applies to open auctions.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="ceilingPrice"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ceiling price (€)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                
+                  <FormField
+                    control={form.control}
+                    name="minDecrement"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Min. decrement</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                
+                  <FormField
+                    control={form.control}
+                    name="decrementType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Decrement in</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="absolute">EUR</SelectItem>
+                            <SelectItem value="percent">Percent</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                
+                <FormField
+                  control={form.control}
+                  name="mustImproveOwnBid"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0 mt-4">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">
+                        Forwarders must beat their own previous bid
+                      </FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="oneBidPerCompany"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0 mt-2">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">
+                        Only one user per company may bid
+                      </FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
+              <div>
+                <h3 className="text-sm font-medium text-gray-900">Competition visibility</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  What forwarders see of the competing bids. Admins always see every price.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="bidVisibility"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Forwarders see</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="full_price">Lowest price</SelectItem>
+                            <SelectItem value="rank">Their rank only</SelectItem>
+                            <SelectItem value="traffic_light">Traffic light</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                
+                  {form.watch("bidVisibility") === "traffic_light" && (
+                    <FormField
+                      control={form.control}
+                      name="trafficLightPercent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Amber within (%)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              </div>
+              
+              {isStandalone && (
+                <LaneInviteesField value={invitees} onChange={setInvitees} />
+              )}
               
               <div className="flex justify-end space-x-4">
                 <Button 
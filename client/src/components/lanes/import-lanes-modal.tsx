@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { LaneImportReport, LaneInvitees } from "@/lib/types";
+import LaneInviteesField from "./lane-invitees-field";
+
+interface ImportLanesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const REQUIRED_COLUMNS = "bidName, vehicleType, loadingLocation, unloadingLocation, validFrom, validUntil";
+const OPTIONAL_COLUMNS = "status, auctionType, expectedVolume, volumePeriod, extensionWindowMinutes, extensionMinutes, maxExtensions, minDecrement, decrementType, ceilingPrice, mustImproveOwnBid, oneBidPerCompany, bidVisibility, trafficLightPercent";
+
+// Sends the file as the raw request body and the invitation list for every
+// imported lane in the query string; a dry run only validates the file
+async function uploadLanes(file: File, invitees: LaneInvitees, dryRun: boolean): Promise<LaneImportReport> {
+  const params = new URLSearchParams({ invitees: JSON.stringify(invitees) });
+
+  if (dryRun) {
+    params.set("dryRun", "true");
+  }
+
+  const response = await fetch(`/api/lanes/import?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || response.statusText);
+  }
+
+  return data;
+}
+
+export default function ImportLanesModal({ isOpen, onClose }: ImportLanesModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<LaneImportReport | null>(null);
+  const [invitees, setInvitees] = useState<LaneInvitees>({ userIds: [], companyIds: [], groupIds: [] });
+  const { toast } = useToast();
+
+  const handleClose = () => {
+    setFile(null);
+    setReport(null);
+    setInvitees({ userIds: [], companyIds: [], groupIds: [] });
+    onClose();
+  };
+
+  const validateMutation = useMutation({
+    mutationFn: async (file: File) => uploadLanes(file, invitees, true),
+    onSuccess: (data) => setReport(data),
+    onError: (error) => {
+      setReport(null);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to validate file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => uploadLanes(file, invitees, false),
+    onSuccess: (data) => {
+      toast({
+        title: "Lanes imported",
+        description: `${data.created?.length || 0} lanes were created${data.errorCount ? `, ${data.errorCount} rows skipped` : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import lanes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setReport(null);
+
+    if (selected) {
+      validateMutation.mutate(selected);
+    }
+  };
+
+  const failedRows = report?.rows.filter(row => row.errors.length > 0) || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Lanes</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with one lane per row. The file is validated before any lane is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="text-xs text-gray-500 space-y-1">
+            <p><span className="font-medium text-gray-700">Required columns:</span> {REQUIRED_COLUMNS}</p>
+            <p><span className="font-medium text-gray-700">Optional columns:</span> {OPTIONAL_COLUMNS}</p>
+          </div>
+
+          <LaneInviteesField value={invitees} onChange={setInvitees} />
+
+          <Input
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+          />
+
+          {validateMutation.isPending && (
+            <p className="text-sm text-gray-500">Validating...</p>
+          )}
+
+          {report && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                <span className="text-green-700 font-medium">{report.validCount} valid</span>
+                {" · "}
+                <span className={report.errorCount ? "text-red-700 font-medium" : "text-gray-500"}>
+                  {report.errorCount} with errors
+                </span>
+              </p>
+
+              {failedRows.length > 0 && (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Row
+                      </th>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Errors
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {failedRows.map(row => (
+                      <tr key={row.row}>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 align-top">{row.row}</td>
+                        <td className="px-4 py-2 text-sm text-red-700">
+                          <ul className="list-disc pl-4">
+                            {row.errors.map((error, index) => (
+                              <li key={index}>{error}</li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            disabled={importMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => file && importMutation.mutate(file)}
+            disabled={!file || !report?.validCount || importMutation.isPending}
+          >
+            {importMutation.isPending
+              ? "Importing..."
+              : `Import ${report?.validCount || ""} Valid Lanes`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -25,6 +25,9 @@ import {
   TableHeader, 
   TableRow 
 } from "@/components/ui/table";
+import LaneCountdown from "./lane-countdown";
+import ProxyBidForm from "./proxy-bid-form";
+import BidFeedbackBadge from "./bid-feedback-badge";
 import {
   ArrowUpDown,
   MapPin,
@@ -39,10 +42,65 @@ interface LaneCardsProps {
   userId: number;
 }
 
+// Highest bid the lane's minimum decrement accepts against the visible lowest
+// bid; mirrors the server-side check
+function getMaxAllowedBid(lane: Lane): number | undefined {
+  const minDecrement = lane.minDecrement ? parseFloat(lane.minDecrement) : 0;
+
+  if (lane.auctionType !== "open" || lane.minBid === undefined || minDecrement <= 0) {
+    return undefined;
+  }
+
+  const decrement = lane.decrementType === "percent" ? lane.minBid * minDecrement / 100 : minDecrement;
+  return Math.floor((lane.minBid - decrement) * 100) / 100;
+}
+
+// Human-readable summary of the lane's bidding rules
+function describeBiddingRules(lane: Lane): string[] {
+  const rules: string[] = [];
+  const ceilingPrice = lane.ceilingPrice ? parseFloat(lane.ceilingPrice) : 0;
+  const minDecrement = lane.minDecrement ? parseFloat(lane.minDecrement) : 0;
+
+  if (ceilingPrice > 0) {
+    rules.push(`Bids may not exceed the ceiling price of €${ceilingPrice.toFixed(2)}`);
+  }
+
+  if (lane.auctionType === "open" && minDecrement > 0) {
+    const decrement = lane.decrementType === "percent" ? `${minDecrement}%` : `€${minDecrement.toFixed(2)}`;
+    rules.push(`Bids must be at least ${decrement} below the current lowest bid`);
+  }
+
+  if (lane.mustImproveOwnBid) {
+    rules.push("Each new bid must be lower than your previous one");
+  }
+
+  if (lane.oneBidPerCompany) {
+    rules.push("Only one user of your company may bid on this lane");
+  }
+
+  return rules;
+}
+
+// apiRequest errors read "<status>: <body>"; pull out the server's message
+function getBidErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return "Failed to place bid";
+  }
+
+  const body = error.message.replace(/^\d+: /, "");
+
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
 export default function LaneCards({ filters, userId }: LaneCardsProps) {
   const [successfulBidLaneId, setSuccessfulBidLaneId] = useState<number | null>(null);
   const [bidAmounts, setBidAmounts] = useState<Record<number, number>>({});
   const [bidComments, setBidComments] = useState<Record<number, string>>({});
+  const [bidErrors, setBidErrors] = useState<Record<number, string>>({});
   const [selectedLane, setSelectedLane] = useState<Lane | null>(null);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   const [sortBy, setSortBy] = useState<string>("id");
@@ -82,12 +140,17 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
     },
   });
   
+  // Keep the open lane details in step with live updates to the list
+  useEffect(() => {
+    setSelectedLane(current => current && (lanes?.find(lane => lane.id === current.id) ?? current));
+  }, [lanes]);
+  
   // Initialize bid amounts using useEffect to avoid render loop
   useEffect(() => {
     if (lanes && Object.keys(bidAmounts).length === 0) {
       const initialBidAmounts: Record<number, number> = {};
       lanes.forEach(lane => {
-        initialBidAmounts[lane.id] = lane.minBid ? lane.minBid - 5 : 1000;
+        initialBidAmounts[lane.id] = getMaxAllowedBid(lane) ?? (lane.minBid ? lane.minBid - 5 : 1000);
       });
       setBidAmounts(initialBidAmounts);
     }
@@ -100,11 +163,15 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
       return apiRequest("POST", `/api/lanes/${laneId}/bids`, { amount, comment });
     },
     onSuccess: (_, variables) => {
+      const isSealed = lanes?.find(lane => lane.id === variables.laneId)?.auctionType === "sealed";
       toast({
         title: "Bid placed",
-        description: "Your bid has been placed successfully",
+        description: isSealed
+          ? "Your sealed bid has been saved. You can revise it until the lane closes."
+          : "Your bid has been placed successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      setBidErrors(prev => ({ ...prev, [variables.laneId]: "" }));
       setSuccessfulBidLaneId(variables.laneId);
       
       // Reset the success message after 3 seconds
@@ -115,10 +182,12 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
       // Close modal if open
       setIsDetailsModalOpen(false);
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      const message = getBidErrorMessage(error);
+      setBidErrors(prev => ({ ...prev, [variables.laneId]: message }));
       toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to place bid",
+        title: "Bid rejected",
+        description: message,
         variant: "destructive",
       });
     },
@@ -130,6 +199,7 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
       ...prev,
       [laneId]: amount
     }));
+    setBidErrors(prev => ({ ...prev, [laneId]: "" }));
   };
   
   const handleBidCommentChange = (laneId: number, value: string) => {
@@ -229,6 +299,10 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
       return <Badge className="bg-green-100 text-green-800 hover:bg-green-200">Active</Badge>;
     } else if (status === "ending_soon") {
       return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-200">Ending Soon</Badge>;
+    } else if (status === "awarded") {
+      return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Awarded</Badge>;
+    } else if (status === "closed") {
+      return <Badge className="bg-red-100 text-red-800 hover:bg-red-200">Closed</Badge>;
     } else {
       return <Badge variant="outline">Archived</Badge>;
     }
@@ -335,9 +409,18 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
                       <span className="font-medium">{lane.unloadingLocation}</span>
                     </div>
                   </TableCell>
-                  <TableCell>{formatDate(lane.validUntil)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span>{formatDate(lane.validUntil)}</span>
+                      <LaneCountdown validUntil={lane.validUntil} extensionCount={lane.extensionCount} />
+                    </div>
+                  </TableCell>
                   <TableCell className="font-semibold text-primary">
-                    {lane.minBid ? `€${lane.minBid.toFixed(2)}` : "-"}
+                    {lane.minBid
+                      ? `€${lane.minBid.toFixed(2)}`
+                      : lane.feedback
+                        ? <BidFeedbackBadge feedback={lane.feedback} trafficLightPercent={lane.trafficLightPercent} />
+                        : lane.auctionType === "sealed" ? "Sealed" : lane.bidVisibility !== "full_price" ? "Hidden" : "-"}
                   </TableCell>
                   <TableCell>
                     <Button 
@@ -368,7 +451,10 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
           <DialogContent className="max-w-3xl">
             <DialogHeader>
               <DialogTitle>{selectedLane.bidName}</DialogTitle>
-              <DialogDescription>Freight Lane ID: {selectedLane.id}</DialogDescription>
+              <DialogDescription>
+                Freight Lane ID: {selectedLane.id}
+                {selectedLane.currentRound > 1 && ` · Round ${selectedLane.currentRound}`}
+              </DialogDescription>
             </DialogHeader>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-4">
@@ -401,6 +487,13 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
                     <span>{selectedLane.unloadingLocation}</span>
                   </div>
                 </div>
+                
+                {selectedLane.expectedVolume ? (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Expected Volume</h3>
+                    <p>{selectedLane.expectedVolume} loads per {selectedLane.volumePeriod}</p>
+                  </div>
+                ) : null}
               </div>
               
               <div className="space-y-6">
@@ -412,6 +505,17 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
                   </div>
                 </div>
                 
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 mb-1">Time Remaining</h3>
+                  <LaneCountdown validUntil={selectedLane.validUntil} extensionCount={selectedLane.extensionCount} />
+                  {selectedLane.extensionWindowMinutes && selectedLane.extensionMinutes ? (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Bids in the final {selectedLane.extensionWindowMinutes} min extend the lane by {selectedLane.extensionMinutes} min
+                      {selectedLane.maxExtensions ? ` (up to ${selectedLane.maxExtensions} times)` : ""}
+                    </p>
+                  ) : null}
+                </div>
+                
                 <div>
                   <h3 className="text-sm font-medium text-gray-500 mb-1">Created On</h3>
                   <div className="flex items-center">
@@ -420,23 +524,55 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
                   </div>
                 </div>
                 
-                <div>
-                  <h3 className="text-sm font-medium text-gray-500 mb-1">Current Minimum Bid</h3>
-                  <p className="text-lg font-bold text-primary">
-                    {selectedLane.minBid !== undefined ? `€${selectedLane.minBid.toFixed(2)}` : "No bids yet"}
-                  </p>
-                </div>
+                {selectedLane.bidVisibility === "full_price" || selectedLane.auctionType === "sealed" ? (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Current Minimum Bid</h3>
+                    <p className="text-lg font-bold text-primary">
+                      {selectedLane.minBid !== undefined
+                        ? `€${selectedLane.minBid.toFixed(2)}`
+                        : selectedLane.auctionType === "sealed" ? "Sealed until close" : "No bids yet"}
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Your Position</h3>
+                    {selectedLane.feedback ? (
+                      <BidFeedbackBadge feedback={selectedLane.feedback} trafficLightPercent={selectedLane.trafficLightPercent} />
+                    ) : (
+                      <p className="text-sm text-gray-500">Competing prices are hidden. Place a bid to see where you stand.</p>
+                    )}
+                  </div>
+                )}
                 
                 <div>
                   <h3 className="text-sm font-medium text-gray-500 mb-1">Total Bids</h3>
-                  <p>{selectedLane.bidCount || 0}</p>
+                  <p>{selectedLane.bidCount ?? (selectedLane.auctionType === "sealed" ? "Sealed until close" : 0)}</p>
                 </div>
               </div>
             </div>
             
             {/* Place Bid Form */}
             <div className="border-t border-gray-200 pt-4">
-              <h3 className="font-medium text-lg mb-4">Place Your Bid</h3>
+              <h3 className="font-medium text-lg mb-4">
+                {selectedLane.auctionType === "sealed" ? "Submit Your Sealed Bid" : "Place Your Bid"}
+              </h3>
+              {selectedLane.auctionType === "sealed" && (
+                <p className="text-sm text-gray-500 -mt-2 mb-4">
+                  Competitors cannot see your bid. Submitting again revises your previous bid until the lane closes.
+                </p>
+              )}
+              {selectedLane.currentRound > 1 && (
+                <p className="text-sm text-gray-500 -mt-2 mb-4">
+                  Round {selectedLane.currentRound} is open to invited forwarders only. Your best price from the previous round has been carried over.
+                </p>
+              )}
+              {describeBiddingRules(selectedLane).length > 0 && (
+                <ul className="text-sm text-gray-500 -mt-2 mb-4 list-disc pl-5">
+                  {describeBiddingRules(selectedLane).map(rule => (
+                    <li key={rule}>{rule}</li>
+                  ))}
+                </ul>
+              )}
               <form onSubmit={(e) => handleSubmitBid(selectedLane.id, e)} className="space-y-4">
                 <div>
                   <label htmlFor={`amount-${selectedLane.id}`} className="block text-sm font-medium text-gray-700">
@@ -457,6 +593,13 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
                       step={10}
                     />
                   </div>
+                  {bidErrors[selectedLane.id] ? (
+                    <p className="text-sm text-red-600 mt-1">{bidErrors[selectedLane.id]}</p>
+                  ) : getMaxAllowedBid(selectedLane) !== undefined ? (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Bid €{getMaxAllowedBid(selectedLane)!.toFixed(2)} or less to beat the current lowest bid
+                    </p>
+                  ) : null}
                 </div>
                 
                 <div>
@@ -509,6 +652,8 @@ export default function LaneCards({ filters, userId }: LaneCardsProps) {
                   </div>
                 </div>
               )}
+              
+              {selectedLane.auctionType === "open" && <ProxyBidForm lane={selectedLane} />}
             </div>
           </DialogContent>
         </Dialog>
@@ -0,0 +1,51 @@
+import { useState, useEffect } from "react";
+import { Timer } from "lucide-react";
+
+interface LaneCountdownProps {
+  validUntil: string;
+  extensionCount?: number;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  }
+
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+export default function LaneCountdown({ validUntil, extensionCount = 0 }: LaneCountdownProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick every second so the countdown stays live
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = new Date(validUntil).getTime() - now;
+
+  if (remaining <= 0) {
+    return <span className="text-xs text-gray-500">Closed</span>;
+  }
+
+  // Highlight the final hour, when anti-sniping extensions usually kick in
+  const isUrgent = remaining < 60 * 60 * 1000;
+
+  return (
+    <span className={`inline-flex items-center text-xs font-medium ${isUrgent ? "text-red-600" : "text-gray-600"}`}>
+      <Timer className="h-3 w-3 mr-1" />
+      {formatRemaining(remaining)}
+      {extensionCount > 0 && (
+        <span className="ml-1 text-yellow-700">(extended ×{extensionCount})</span>
+      )}
+    </span>
+  );
+}
@@ -88,6 +88,8 @@ export default function LaneFiltersComponent({ onFilterChange, filters }: LaneFi
                 <SelectItem value="all">All Statuses</SelectItem>
                 <SelectItem value="active">Active</SelectItem>
                 <SelectItem value="ending_soon">Ending Soon</SelectItem>
+                <SelectItem value="closed">Closed</SelectItem>
+                <SelectItem value="awarded">Awarded</SelectItem>
                 <SelectItem value="archived">Archived</SelectItem>
               </SelectContent>
             </Select>
@@ -0,0 +1,103 @@
+import { useQuery } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CarrierGroup, LaneInvitees, User } from "@/lib/types";
+
+interface LaneInviteesFieldProps {
+  value: LaneInvitees;
+  onChange: (invitees: LaneInvitees) => void;
+}
+
+// Picks the carrier groups, companies and individual forwarders a lane is
+// published to
+export default function LaneInviteesField({ value, onChange }: LaneInviteesFieldProps) {
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/forwarders"],
+  });
+
+  const { data: groups } = useQuery<CarrierGroup[]>({
+    queryKey: ["/api/carrier-groups"],
+  });
+
+  const forwarders = users || [];
+  const carrierGroups = groups || [];
+
+  // Forwarders already invited through a selected carrier group
+  const groupMemberIds = carrierGroups
+    .filter(group => value.groupIds.includes(group.id))
+    .flatMap(group => group.userIds);
+
+  // Every company with at least one forwarder, by name
+  const companies = Array.from(new Map(forwarders.map(user => [user.companyId, user.companyName])))
+    .map(([id, name]) => ({ id, name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const toggle = (ids: number[], id: number, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter(existingId => existingId !== id);
+
+  const isEveryone = value.userIds.length === 0 && value.companyIds.length === 0 && value.groupIds.length === 0;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900">Invited forwarders</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Only invited forwarders see the lane, can bid on it and are emailed when it is published.
+        {isEveryone && " Nobody is selected, so every forwarder is invited."}
+      </p>
+      {carrierGroups.length > 0 && (
+        <div className="mb-4">
+          <p className="text-xs font-medium text-gray-700 mb-2">Carrier groups ({value.groupIds.length})</p>
+          <div className="space-y-2 max-h-32 overflow-y-auto">
+            {carrierGroups.map(group => (
+              <label key={group.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={value.groupIds.includes(group.id)}
+                  onCheckedChange={(checked) => onChange({ ...value, groupIds: toggle(value.groupIds, group.id, checked === true) })}
+                />
+                <span>{group.name} <span className="text-gray-500">({group.userIds.length} forwarders)</span></span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs font-medium text-gray-700 mb-2">Companies ({value.companyIds.length})</p>
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {companies.length === 0 && (
+              <p className="text-sm text-gray-500">No forwarders registered.</p>
+            )}
+            {companies.map(company => (
+              <label key={company.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={value.companyIds.includes(company.id)}
+                  onCheckedChange={(checked) => onChange({ ...value, companyIds: toggle(value.companyIds, company.id, checked === true) })}
+                />
+                <span>{company.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-700 mb-2">Forwarders ({value.userIds.length})</p>
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {forwarders.map(user => {
+              const isInvitedOtherwise = value.companyIds.includes(user.companyId) || groupMemberIds.includes(user.id);
+
+              return (
+                <label key={user.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={value.userIds.includes(user.id) || isInvitedOtherwise}
+                    disabled={isInvitedOtherwise}
+                    onCheckedChange={(checked) => onChange({ ...value, userIds: toggle(value.userIds, user.id, checked === true) })}
+                  />
+                  <span>{user.username} <span className="text-gray-500">({user.companyName})</span></span>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
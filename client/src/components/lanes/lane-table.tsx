@@ -7,15 +7,17 @@ import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import LaneCountdown from "./lane-countdown";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 interface LaneTableProps {
   filters: LaneFilters;
+  canManage: boolean; // Shows the edit and delete actions
   onEdit: (laneId: number) => void;
   onViewBids: (laneId: number) => void;
 }
 
-export default function LaneTable({ filters, onEdit, onViewBids }: LaneTableProps) {
+export default function LaneTable({ filters, canManage, onEdit, onViewBids }: LaneTableProps) {
   const [laneToDelete, setLaneToDelete] = useState<number | null>(null);
   const { toast } = useToast();
   
@@ -146,7 +148,9 @@ export default function LaneTable({ filters, onEdit, onViewBids }: LaneTableProp
                   <tr key={lane.id}>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">{lane.bidName}</div>
-                      <div className="text-sm text-gray-500">#{lane.id}</div>
+                      <div className="text-sm text-gray-500">
+                        #{lane.id}{lane.auctionType === "sealed" && " · Sealed bid"}{lane.currentRound > 1 && ` · Round ${lane.currentRound}`}
+                      </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
@@ -154,7 +158,11 @@ export default function LaneTable({ filters, onEdit, onViewBids }: LaneTableProp
                           ? "bg-green-100 text-green-800" 
                           : lane.status === "ending_soon" 
                             ? "bg-yellow-100 text-yellow-800" 
-                            : "bg-gray-100 text-gray-800"
+                            : lane.status === "closed"
+                              ? "bg-red-100 text-red-800"
+                              : lane.status === "awarded"
+                                ? "bg-blue-100 text-blue-800"
+                                : "bg-gray-100 text-gray-800"
                       }`}>
                         {lane.status.charAt(0).toUpperCase() + lane.status.slice(1).replace("_", " ")}
                       </span>
@@ -169,9 +177,12 @@ export default function LaneTable({ filters, onEdit, onViewBids }: LaneTableProp
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">{formatDate(lane.validFrom)}</div>
                       <div className="text-sm text-gray-500">to {formatDate(lane.validUntil)}</div>
+                      <LaneCountdown validUntil={lane.validUntil} extensionCount={lane.extensionCount} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {lane.minBid !== undefined ? `€${lane.minBid.toFixed(2)}` : "No bids"}
+                      {lane.minBid !== undefined
+                        ? `€${lane.minBid.toFixed(2)}`
+                        : lane.auctionType === "sealed" && lane.bidCount ? "Sealed" : "No bids"}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {lane.bidCount || 0} bids
@@ -203,46 +214,50 @@ export default function LaneTable({ filters, onEdit, onViewBids }: LaneTableProp
                           />
                         </svg>
                       </Button>
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => onEdit(lane.id)}
-                        className="text-gray-600 hover:text-gray-900 mr-3"
-                      >
-                        <svg
-                          className="h-5 w-5"
-                          fill="none"
-                          viewBox="0 0 24 24"
-                          stroke="currentColor"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-                          />
-                        </svg>
-                      </Button>
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => handleDeleteLane(lane.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <svg
-                          className="h-5 w-5"
-                          fill="none"
-                          viewBox="0 0 24 24"
-                          stroke="currentColor"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                          />
-                        </svg>
-                      </Button>
+                      {canManage && (
+                        <>
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => onEdit(lane.id)}
+                            className="text-gray-600 hover:text-gray-900 mr-3"
+                          >
+                            <svg
+                              className="h-5 w-5"
+                              fill="none"
+                              viewBox="0 0 24 24"
+                              stroke="currentColor"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                              />
+                            </svg>
+                          </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => handleDeleteLane(lane.id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <svg
+                              className="h-5 w-5"
+                              fill="none"
+                              viewBox="0 0 24 24"
+                              stroke="currentColor"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                              />
+                            </svg>
+                          </Button>
+                        </>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -0,0 +1,174 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Lane, NextRoundFormValues } from "@/lib/types";
+import { toDateTimeLocal } from "@/lib/utils";
+
+interface NextRoundModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  lane: Lane;
+  forwarderCount: number;
+}
+
+const formSchema = z.object({
+  topN: z.coerce.number().int().min(1, "Invite at least one forwarder"),
+  validFrom: z.string().refine(val => !isNaN(Date.parse(val)), {
+    message: "Valid from date is required",
+  }),
+  validUntil: z.string().refine(val => !isNaN(Date.parse(val)), {
+    message: "Valid until date is required",
+  }),
+}).refine(data => {
+  const from = new Date(data.validFrom);
+  const until = new Date(data.validUntil);
+  return from < until;
+}, {
+  message: "Valid until date must be after valid from date",
+  path: ["validUntil"],
+});
+
+export default function NextRoundModal({ isOpen, onClose, lane, forwarderCount }: NextRoundModalProps) {
+  const { toast } = useToast();
+
+  const form = useForm<NextRoundFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      topN: Math.min(3, forwarderCount),
+      validFrom: toDateTimeLocal(new Date()),
+      validUntil: toDateTimeLocal(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)),
+    },
+  });
+
+  // Start from fresh dates each time the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      form.reset({
+        topN: Math.min(3, forwarderCount),
+        validFrom: toDateTimeLocal(new Date()),
+        validUntil: toDateTimeLocal(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)),
+      });
+    }
+  }, [isOpen, forwarderCount, form]);
+
+  const nextRoundMutation = useMutation({
+    mutationFn: async (values: NextRoundFormValues) => {
+      return apiRequest("POST", `/api/lanes/${lane.id}/rounds`, values);
+    },
+    onSuccess: () => {
+      toast({
+        title: `Round ${lane.currentRound + 1} started`,
+        description: "The invited forwarders can now improve on their carried-over prices",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/lanes/${lane.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/lanes/${lane.id}/bids`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/lanes/${lane.id}/status-history`] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the next round",
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: NextRoundFormValues) {
+    nextRoundMutation.mutate({
+      ...values,
+      validFrom: new Date(values.validFrom).toISOString(),
+      validUntil: new Date(values.validUntil).toISOString()
+    });
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Start Round {lane.currentRound + 1}</DialogTitle>
+          <DialogDescription>
+            Invite the best-ranked forwarders of round {lane.currentRound} into the next round. Their best price is carried over as a starting point.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 pt-4">
+            <FormField
+              control={form.control}
+              name="topN"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Forwarders to Invite</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={forwarderCount} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    {forwarderCount} forwarder{forwarderCount === 1 ? "" : "s"} bid in round {lane.currentRound}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="validFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid From</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="validUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid Until</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={nextRoundMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={nextRoundMutation.isPending}
+              >
+                {nextRoundMutation.isPending ? "Starting..." : "Start Round"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
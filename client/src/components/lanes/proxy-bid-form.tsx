@@ -0,0 +1,135 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Lane, ProxyBid } from "@/lib/types";
+
+interface ProxyBidFormProps {
+  lane: Lane;
+}
+
+// Lets a forwarder register the lowest price the server may bid on their
+// behalf whenever a competitor undercuts them
+export default function ProxyBidForm({ lane }: ProxyBidFormProps) {
+  const [floorAmount, setFloorAmount] = useState("");
+  const { toast } = useToast();
+  const proxyBidKey = `/api/lanes/${lane.id}/proxy-bid`;
+
+  const { data: proxyBid } = useQuery<ProxyBid | null>({
+    queryKey: [proxyBidKey],
+  });
+
+  useEffect(() => {
+    setFloorAmount(proxyBid ? parseFloat(proxyBid.floorAmount).toString() : "");
+  }, [proxyBid]);
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: [proxyBidKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (floor: number) => {
+      const response = await apiRequest("PUT", proxyBidKey, { floorAmount: floor });
+      return response.json();
+    },
+    onSuccess: (data: { bidPlaced: boolean }) => {
+      toast({
+        title: "Automatic bidding saved",
+        description: data.bidPlaced
+          ? "A bid has been placed on your behalf to beat the current lowest bid"
+          : "We will bid for you whenever another forwarder undercuts you",
+      });
+      onSettled();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save automatic bidding",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", proxyBidKey),
+    onSuccess: () => {
+      toast({
+        title: "Automatic bidding removed",
+        description: "No further bids will be placed on your behalf",
+      });
+      onSettled();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove automatic bidding",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const floor = parseFloat(floorAmount);
+
+    if (!floor || floor <= 0) {
+      toast({
+        title: "Invalid amount",
+        description: "Please enter a positive floor price",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    saveMutation.mutate(floor);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 border-t border-gray-200 pt-4 space-y-3">
+      <div>
+        <h3 className="font-medium">Automatic Bidding</h3>
+        <p className="text-sm text-gray-500">
+          When another forwarder undercuts you, we place the next allowed bid for you, never going below your floor. Admins only see your floor after the lane closes.
+        </p>
+      </div>
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          <label htmlFor={`proxy-floor-${lane.id}`} className="block text-sm font-medium text-gray-700">
+            Floor Price (EUR)
+          </label>
+          <div className="relative mt-1">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <span className="text-gray-500">€</span>
+            </div>
+            <Input
+              id={`proxy-floor-${lane.id}`}
+              type="number"
+              value={floorAmount}
+              onChange={(e) => setFloorAmount(e.target.value)}
+              className="pl-7"
+              placeholder="0.00"
+              min={0}
+              step="0.01"
+            />
+          </div>
+        </div>
+        {proxyBid && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => removeMutation.mutate()}
+            disabled={removeMutation.isPending}
+          >
+            Remove
+          </Button>
+        )}
+        <Button type="submit" variant="secondary" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : proxyBid ? "Update Floor" : "Enable"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,17 +1,46 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Bid, Lane } from "@/lib/types";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Award, AwardAllocation, Bid, CarrierGroup, Lane, LaneStatusChange } from "@/lib/types";
+import NextRoundModal from "./next-round-modal";
 
 interface ViewBidsModalProps {
   isOpen: boolean;
   onClose: () => void;
   laneId: number;
+  canManage: boolean; // Opening sealed bids and starting rounds
+  canAward: boolean;
 }
 
-export default function ViewBidsModal({ isOpen, onClose, laneId }: ViewBidsModalProps) {
+export default function ViewBidsModal({ isOpen, onClose, laneId, canManage, canAward }: ViewBidsModalProps) {
+  const [selectedBidIds, setSelectedBidIds] = useState<number[]>([]);
+  const [awardReason, setAwardReason] = useState("");
+  // Share per selected bid, as a percentage or a load count depending on shareMode
+  const [shareInputs, setShareInputs] = useState<Record<number, string>>({});
+  const [shareMode, setShareMode] = useState<"percent" | "loads">("percent");
+  const [isNextRoundOpen, setIsNextRoundOpen] = useState(false);
+  // Carrier group the bids are narrowed to, or "all"
+  const [groupFilter, setGroupFilter] = useState("all");
+  const { toast } = useToast();
+  
+  // Clear any award selection when switching to another lane
+  useEffect(() => {
+    setSelectedBidIds([]);
+    setAwardReason("");
+    setShareInputs({});
+    setShareMode("percent");
+    setIsNextRoundOpen(false);
+    setGroupFilter("all");
+  }, [laneId]);
+  
   // Fetch lane details
   const { data: lane, isLoading: isLaneLoading } = useQuery<Lane>({
     queryKey: [`/api/lanes/${laneId}`],
@@ -27,11 +56,23 @@ export default function ViewBidsModal({ isOpen, onClose, laneId }: ViewBidsModal
     enabled: isOpen && laneId > 0,
   });
   
-  // Fetch bids for the lane
+  // Sealed bids stay hidden until the admin's opening event
+  const isSealed = lane?.auctionType === "sealed" && !lane.bidsOpenedAt;
+  const isLaneClosed = lane
+    ? !["active", "ending_soon"].includes(lane.status) || new Date(lane.validUntil) <= new Date()
+    : false;
+  
+  const { data: groups } = useQuery<CarrierGroup[]>({
+    queryKey: ["/api/carrier-groups"],
+    enabled: isOpen,
+  });
+  
+  // Fetch bids for the lane; live updates keep the unfiltered list current
   const { data: bids, isLoading: isBidsLoading } = useQuery<Bid[]>({
-    queryKey: [`/api/lanes/${laneId}/bids`],
+    queryKey: groupFilter === "all" ? [`/api/lanes/${laneId}/bids`] : [`/api/lanes/${laneId}/bids`, groupFilter],
     queryFn: async () => {
-      const response = await fetch(`/api/lanes/${laneId}/bids`, {
+      const query = groupFilter === "all" ? "" : `?groupId=${groupFilter}`;
+      const response = await fetch(`/api/lanes/${laneId}/bids${query}`, {
         credentials: "include",
       });
       if (!response.ok) {
@@ -39,16 +80,138 @@ export default function ViewBidsModal({ isOpen, onClose, laneId }: ViewBidsModal
       }
       return response.json();
     },
+    enabled: isOpen && laneId > 0 && !!lane && !isSealed,
+  });
+  
+  const openBidsMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/lanes/${laneId}/open-bids`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Bids opened",
+        description: "All sealed bids for this lane are now visible",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/lanes/${laneId}`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open bids",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Fetch the winning bids once the lane is awarded
+  const { data: awards } = useQuery<Award[]>({
+    queryKey: [`/api/lanes/${laneId}/awards`],
+    enabled: isOpen && laneId > 0 && lane?.status === "awarded",
+  });
+  
+  const awardMutation = useMutation({
+    mutationFn: async ({ allocations, reason }: { allocations: AwardAllocation[], reason?: string }) => {
+      return apiRequest("POST", `/api/lanes/${laneId}/award`, { allocations, reason });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Lane awarded",
+        description: "Winners and other bidders are being notified by email",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/lanes/${laneId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/lanes/${laneId}/awards`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/lanes/${laneId}/status-history`] });
+      setSelectedBidIds([]);
+      setAwardReason("");
+      setShareInputs({});
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to award lane",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const toggleBidSelection = (bidId: number, checked: boolean) => {
+    setSelectedBidIds(prev => checked ? [...prev, bidId] : prev.filter(id => id !== bidId));
+  };
+  
+  const handleShareChange = (bidId: number, value: string) => {
+    setShareInputs(prev => ({ ...prev, [bidId]: value }));
+  };
+  
+  const handleAward = () => {
+    const allocations = selectedBidIds.map((bidId): AwardAllocation => {
+      const share = parseFloat(shareInputs[bidId]);
+      
+      // A single winner without a share takes the whole lane
+      if (isNaN(share)) {
+        return { bidId };
+      }
+      
+      return shareMode === "percent" ? { bidId, sharePercent: share } : { bidId, shareLoads: share };
+    });
+    
+    awardMutation.mutate({ allocations, reason: awardReason.trim() || undefined });
+  };
+  
+  // Fetch lifecycle transitions for the lane
+  const { data: statusChanges } = useQuery<LaneStatusChange[]>({
+    queryKey: [`/api/lanes/${laneId}/status-history`],
     enabled: isOpen && laneId > 0,
   });
   
   const isLoading = isLaneLoading || isBidsLoading;
   
+  const formatStatus = (status: string) =>
+    status.charAt(0).toUpperCase() + status.slice(1).replace("_", " ");
+  
+  const isAwarded = lane?.status === "awarded";
+  const isAwardable = !!lane && isLaneClosed && !isAwarded && lane.status !== "archived" && !isSealed;
+  const awardedBidIds = awards?.map(award => award.bidId) || [];
+  const awardReasonText = awards?.find(award => award.reason)?.reason;
+  const allocatedTotal = selectedBidIds.reduce((sum, bidId) => sum + (parseFloat(shareInputs[bidId]) || 0), 0);
+  
+  const formatShare = (bidId: number) => {
+    const award = awards?.find(award => award.bidId === bidId);
+    if (!award) {
+      return "";
+    }
+    return award.shareLoads
+      ? `${parseFloat(award.sharePercent)}% · ${award.shareLoads} loads`
+      : `${parseFloat(award.sharePercent)}%`;
+  };
+  
+  const toAmount = (bid: Bid) => typeof bid.amount === 'string' ? parseFloat(bid.amount) : bid.amount;
+  
+  // Only the current round competes for the award
+  const currentRound = lane?.currentRound || 1;
+  const currentRoundBids = bids?.filter(bid => bid.round === currentRound) || [];
+  const currentRoundForwarders = new Set(currentRoundBids.map(bid => bid.userId)).size;
+  const hasRounds = currentRound > 1;
+  
   // Get the current minimum bid amount
-  const minBidAmount = bids && bids.length > 0
-    ? Math.min(...bids.map(bid => typeof bid.amount === 'string' ? parseFloat(bid.amount) : bid.amount))
+  const minBidAmount = currentRoundBids.length > 0
+    ? Math.min(...currentRoundBids.map(toAmount))
     : null;
   
+  // Best price per forwarder in each round, for comparing across rounds
+  const roundNumbers = Array.from({ length: currentRound }, (_, index) => index + 1);
+  const roundComparison = Object.values((bids || []).reduce((rows, bid) => {
+    const row = rows[bid.userId] || { companyName: bid.companyName, prices: {} as Record<number, number> };
+    const amount = toAmount(bid);
+    if (row.prices[bid.round] === undefined || amount < row.prices[bid.round]) {
+      row.prices[bid.round] = amount;
+    }
+    rows[bid.userId] = row;
+    return rows;
+  }, {} as Record<number, { companyName: string; prices: Record<number, number> }>))
+    .sort((a, b) => (a.prices[currentRound] ?? Infinity) - (b.prices[currentRound] ?? Infinity));
+  
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
@@ -64,14 +227,64 @@ export default function ViewBidsModal({ isOpen, onClose, laneId }: ViewBidsModal
             {isLaneLoading ? (
               <Skeleton className="h-5 w-32 mt-1" />
             ) : (
-              lane ? `Lane #${lane.id}` : "Loading lane details..."
+              lane ? `Lane #${lane.id}${hasRounds ? ` · Round ${currentRound}` : ""}` : "Loading lane details..."
             )}
           </DialogDescription>
         </DialogHeader>
         
+        {statusChanges && statusChanges.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium text-gray-500 mb-2">Status Timeline</h3>
+            <ul className="space-y-1">
+              {statusChanges.map((change) => (
+                <li key={change.id} className="text-sm text-gray-700">
+                  <span className="text-gray-500">{new Date(change.changedAt).toLocaleString()}</span>
+                  {" — "}
+                  {formatStatus(change.fromStatus)} → {formatStatus(change.toStatus)}
+                  <span className="text-gray-500">{change.changedBy ? " (admin)" : " (scheduled)"}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        
         <div className="mt-6 border-t border-gray-200 pt-6">
+          {!isSealed && groups && groups.length > 0 && (
+            <div className="flex justify-end mb-4">
+              <Select value={groupFilter} onValueChange={setGroupFilter}>
+                <SelectTrigger className="w-56" aria-label="Carrier group">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All forwarders</SelectItem>
+                  {groups.map(group => (
+                    <SelectItem key={group.id} value={group.id.toString()}>{group.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="flow-root">
-            {isLoading ? (
+            {isSealed ? (
+              <div className="text-center py-8 space-y-4">
+                <p className="text-gray-700">
+                  {lane?.bidCount || 0} sealed bid{lane?.bidCount === 1 ? "" : "s"} received.
+                </p>
+                <p className="text-sm text-gray-500">
+                  {isLaneClosed
+                    ? "Opening the bids reveals all of them at once. This can only be done once."
+                    : "Sealed bids can be opened once the lane closes."}
+                </p>
+                {canManage && (
+                  <Button
+                    onClick={() => openBidsMutation.mutate()}
+                    disabled={!isLaneClosed || openBidsMutation.isPending}
+                  >
+                    {openBidsMutation.isPending ? "Opening..." : "Open Bids"}
+                  </Button>
+                )}
+              </div>
+            ) : isLoading ? (
               <div className="space-y-4">
                 <Skeleton className="h-8 w-full" />
                 <Skeleton className="h-12 w-full" />
@@ -82,9 +295,19 @@ export default function ViewBidsModal({ isOpen, onClose, laneId }: ViewBidsModal
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    {canAward && isAwardable && (
+                      <th scope="col" className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Award
+                      </th>
+                    )}
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Freight Forwarder
                     </th>
+                    {hasRounds && (
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Round
+                      </th>
+                    )}
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Bid Amount
                     </th>
@@ -101,31 +324,79 @@ export default function ViewBidsModal({ isOpen, onClose, laneId }: ViewBidsModal
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {bids.map((bid) => {
-                    const bidAmount = typeof bid.amount === 'string' ? parseFloat(bid.amount) : bid.amount;
-                    const isLowest = minBidAmount === bidAmount;
+                    const bidAmount = toAmount(bid);
+                    const isCurrentRound = bid.round === currentRound;
+                    const isLowest = isCurrentRound && minBidAmount === bidAmount;
+                    const isWinner = awardedBidIds.includes(bid.id);
                     
                     return (
-                      <tr key={bid.id}>
+                      <tr key={bid.id} className={isCurrentRound ? undefined : "bg-gray-50"}>
+                        {canAward && isAwardable && (
+                          <td className="px-3 py-4 whitespace-nowrap">
+                            {isCurrentRound && <div className="flex items-center gap-2">
+                              <Checkbox
+                                checked={selectedBidIds.includes(bid.id)}
+                                onCheckedChange={(checked) => toggleBidSelection(bid.id, checked === true)}
+                              />
+                              {selectedBidIds.includes(bid.id) && (
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  className="h-8 w-20"
+                                  placeholder={shareMode === "percent" ? "%" : "loads"}
+                                  value={shareInputs[bid.id] || ""}
+                                  onChange={(e) => handleShareChange(bid.id, e.target.value)}
+                                />
+                              )}
+                            </div>}
+                          </td>
+                        )}
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                           {bid.companyName}
                         </td>
+                        {hasRounds && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {bid.round}
+                            {bid.carriedOver && <span className="ml-1 text-xs text-gray-400">(carried over)</span>}
+                          </td>
+                        )}
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           €{bidAmount.toFixed(2)}
+                          {bid.isProxy && (
+                            <span className="ml-1 text-xs text-gray-400">
+                              (auto{bid.proxyFloor !== undefined ? `, floor €${bid.proxyFloor.toFixed(2)}` : ""})
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {new Date(bid.createdAt).toLocaleString()}
+                          {new Date(bid.updatedAt || bid.createdAt).toLocaleString()}
+                          {bid.updatedAt && <span className="ml-1 text-xs text-gray-400">(revised)</span>}
                         </td>
                         <td className="px-6 py-4 text-sm text-gray-500">
                           {bid.comment || "-"}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                            isLowest 
-                              ? "bg-green-100 text-green-800" 
-                              : "bg-gray-100 text-gray-800"
-                          }`}>
-                            {isLowest ? "Current Lowest" : "Outbid"}
-                          </span>
+                          {!isCurrentRound ? (
+                            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-500">
+                              Round {bid.round}
+                            </span>
+                          ) : isAwarded ? (
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              isWinner 
+                                ? "bg-blue-100 text-blue-800" 
+                                : "bg-gray-100 text-gray-800"
+                            }`}>
+                              {isWinner ? `Awarded ${formatShare(bid.id)}` : "Not awarded"}
+                            </span>
+                          ) : (
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              isLowest 
+                                ? "bg-green-100 text-green-800" 
+                                : "bg-gray-100 text-gray-800"
+                            }`}>
+                              {isLowest ? "Current Lowest" : "Outbid"}
+                            </span>
+                          )}
                         </td>
                       </tr>
                     );
@@ -134,12 +405,126 @@ export default function ViewBidsModal({ isOpen, onClose, laneId }: ViewBidsModal
               </table>
             ) : (
               <div className="text-center py-8">
-                <p className="text-gray-500">No bids have been placed for this lane yet.</p>
+                <p className="text-gray-500">
+                  {groupFilter === "all"
+                    ? "No bids have been placed for this lane yet."
+                    : "No forwarder in this carrier group has bid on this lane."}
+                </p>
               </div>
             )}
           </div>
         </div>
         
+        {hasRounds && roundComparison.length > 0 && (
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-medium text-gray-500 mb-2">Round Comparison</h3>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Freight Forwarder
+                  </th>
+                  {roundNumbers.map(round => (
+                    <th key={round} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Round {round}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {roundComparison.map(row => (
+                  <tr key={row.companyName}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {row.companyName}
+                    </td>
+                    {roundNumbers.map(round => (
+                      <td key={round} className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">
+                        {row.prices[round] !== undefined ? `€${row.prices[round].toFixed(2)}` : "-"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        
+        {canManage && isAwardable && currentRoundBids.length > 0 && lane && (
+          <div className="border-t border-gray-200 pt-4 flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              Not satisfied with round {currentRound}? Invite the best forwarders into another round.
+            </p>
+            <Button variant="outline" onClick={() => setIsNextRoundOpen(true)}>
+              Start Round {currentRound + 1}
+            </Button>
+            <NextRoundModal
+              isOpen={isNextRoundOpen}
+              onClose={() => setIsNextRoundOpen(false)}
+              lane={lane}
+              forwarderCount={currentRoundForwarders}
+            />
+          </div>
+        )}
+        
+        {canAward && isAwardable && currentRoundBids.length > 0 && (
+          <div className="border-t border-gray-200 pt-4 space-y-3">
+            <h3 className="font-medium">Award Lane</h3>
+            <p className="text-sm text-gray-500">
+              Select one or more winning bids and split the lane between them. A reason is required when the lowest bids are not chosen.
+            </p>
+            <div className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                <span className="text-gray-500">Split by</span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={shareMode === "percent" ? "default" : "outline"}
+                  onClick={() => setShareMode("percent")}
+                >
+                  Percentage
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={shareMode === "loads" ? "default" : "outline"}
+                  onClick={() => setShareMode("loads")}
+                  disabled={!lane?.expectedVolume}
+                >
+                  Loads
+                </Button>
+              </div>
+              <span className={
+                allocatedTotal === (shareMode === "percent" ? 100 : lane?.expectedVolume)
+                  ? "text-green-700"
+                  : "text-gray-500"
+              }>
+                Allocated: {allocatedTotal}
+                {shareMode === "percent" ? " / 100%" : ` / ${lane?.expectedVolume} loads per ${lane?.volumePeriod}`}
+              </span>
+            </div>
+            <Textarea
+              placeholder="Reason for the award (optional for the lowest bids)"
+              value={awardReason}
+              onChange={(e) => setAwardReason(e.target.value)}
+            />
+            <div className="flex justify-end">
+              <Button
+                onClick={handleAward}
+                disabled={selectedBidIds.length === 0 || awardMutation.isPending}
+              >
+                {awardMutation.isPending ? "Awarding..." : `Award ${selectedBidIds.length || ""} Selected`}
+              </Button>
+            </div>
+          </div>
+        )}
+        
+        {isAwarded && awardReasonText && (
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-medium text-gray-500 mb-1">Award Reason</h3>
+            <p className="text-sm text-gray-700">{awardReasonText}</p>
+          </div>
+        )}
+        
         <div className="flex justify-end mt-4">
           <Button onClick={onClose}>Close</Button>
         </div>
@@ -0,0 +1,82 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { NotificationList } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { BellIcon } from "lucide-react";
+
+// Header bell with the unread count; opens the latest notifications. New ones
+// arrive through the realtime channel, which refetches this list.
+export default function NotificationBell() {
+  const { data } = useQuery<NotificationList>({
+    queryKey: ["/api/notifications"],
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => apiRequest("PATCH", "/api/notifications", { ids }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const unreadCount = data?.unreadCount ?? 0;
+  const notifications = data?.notifications ?? [];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="relative p-2 text-gray-500 hover:text-gray-700 focus:outline-none"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <BellIcon className="h-6 w-6" />
+          {unreadCount > 0 && (
+            <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-medium flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="text-sm font-semibold text-gray-900">Notifications</p>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">You have no notifications.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <ul className="divide-y">
+              {notifications.map(notification => (
+                <li
+                  key={notification.id}
+                  className={`px-4 py-3 ${notification.readAt ? "" : "bg-blue-50 cursor-pointer hover:bg-blue-100"}`}
+                  onClick={() => !notification.readAt && markReadMutation.mutate([notification.id])}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className={`text-sm text-gray-900 ${notification.readAt ? "" : "font-semibold"}`}>
+                      {notification.title}
+                    </p>
+                    <span className="text-xs text-gray-400 whitespace-nowrap">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
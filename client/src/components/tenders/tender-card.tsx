@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import LaneCountdown from "@/components/lanes/lane-countdown";
+import TenderModal from "./tender-modal";
+import TenderMembersModal from "./tender-members-modal";
+import { LaneStatus, Tender, TenderAction } from "@/lib/types";
+import { toDateTimeLocal } from "@/lib/utils";
+
+interface TenderCardProps {
+  tender: Tender;
+  canManage: boolean;
+}
+
+const statusLabels: Record<LaneStatus, string> = {
+  active: "Active",
+  ending_soon: "Ending soon",
+  closed: "Closed",
+  awarded: "Awarded",
+  archived: "Archived",
+};
+
+export default function TenderCard({ tender, canManage }: TenderCardProps) {
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [isExtendOpen, setIsExtendOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [extendUntil, setExtendUntil] = useState(toDateTimeLocal(tender.validUntil));
+  const { toast } = useToast();
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, validUntil }: { action: TenderAction; validUntil?: string }) => {
+      const response = await apiRequest("POST", `/api/tenders/${tender.id}/${action}`, validUntil ? { validUntil } : {});
+      return response.json();
+    },
+    onSuccess: (data, { action }) => {
+      const verb = action === "open" ? "opened" : action === "extend" ? "extended" : "closed";
+      toast({
+        title: `Tender ${verb}`,
+        description: `${data.lanes.length} lane${data.lanes.length === 1 ? "" : "s"} ${verb}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      setIsExtendOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update tender lanes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTenderMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", `/api/tenders/${tender.id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Tender deleted",
+        description: "Its lanes remain available as standalone lanes",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      setIsDeleteOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete tender",
+        variant: "destructive",
+      });
+      setIsDeleteOpen(false);
+    },
+  });
+
+  // Number of lanes in each status, e.g. "3 Active · 1 Closed"
+  const statusSummary = Object.entries(
+    tender.lanes.reduce((counts, lane) => {
+      counts[lane.status] = (counts[lane.status] || 0) + 1;
+      return counts;
+    }, {} as Partial<Record<LaneStatus, number>>)
+  ).map(([status, count]) => `${count} ${statusLabels[status as LaneStatus]}`).join(" · ");
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <CardTitle>{tender.name}</CardTitle>
+            <CardDescription>
+              {tender.auctionType === "sealed" ? "Sealed bid" : "Open auction"} · {formatDate(tender.validFrom)} - {formatDate(tender.validUntil)}
+            </CardDescription>
+            {tender.description && (
+              <p className="text-sm text-gray-600 mt-2">{tender.description}</p>
+            )}
+            <div className="mt-2">
+              <LaneCountdown validUntil={tender.validUntil} />
+            </div>
+          </div>
+          {canManage && (
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => setIsEditOpen(true)}>Edit</Button>
+              <Button size="sm" variant="outline" onClick={() => setIsMembersOpen(true)}>Lanes & Forwarders</Button>
+              <Button
+                size="sm"
+                onClick={() => actionMutation.mutate({ action: "open" })}
+                disabled={actionMutation.isPending || tender.lanes.length === 0}
+              >
+                Open All
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsExtendOpen(true)}
+                disabled={actionMutation.isPending || tender.lanes.length === 0}
+              >
+                Extend All
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => actionMutation.mutate({ action: "close" })}
+                disabled={actionMutation.isPending || tender.lanes.length === 0}
+              >
+                Close All
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-red-600 hover:text-red-900"
+                onClick={() => setIsDeleteOpen(true)}
+              >
+                Delete
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-500 mb-3">
+          {tender.lanes.length} lane{tender.lanes.length === 1 ? "" : "s"}
+          {statusSummary && ` (${statusSummary})`}
+          {canManage && ` · ${tender.forwarderIds.length} invited forwarder${tender.forwarderIds.length === 1 ? "" : "s"}`}
+          {canManage && tender.groupIds.length > 0 && `, ${tender.groupIds.length} carrier group${tender.groupIds.length === 1 ? "" : "s"}`}
+        </p>
+        {tender.lanes.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lane</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Route</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vehicle</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Min. Bid</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bids</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {tender.lanes.map(lane => (
+                  <tr key={lane.id}>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">#{lane.id}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                      {lane.loadingLocation} → {lane.unloadingLocation}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{lane.vehicleType}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{statusLabels[lane.status]}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                      {lane.minBid !== undefined
+                        ? `€${lane.minBid.toFixed(2)}`
+                        : lane.auctionType === "sealed" ? "Sealed" : "-"}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{lane.bidCount ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      {canManage && (
+        <>
+          <TenderModal
+            isOpen={isEditOpen}
+            onClose={() => setIsEditOpen(false)}
+            tender={tender}
+          />
+
+          <TenderMembersModal
+            isOpen={isMembersOpen}
+            onClose={() => setIsMembersOpen(false)}
+            tender={tender}
+          />
+
+          <Dialog open={isExtendOpen} onOpenChange={setIsExtendOpen}>
+            <DialogContent className="sm:max-w-[400px]">
+              <DialogHeader>
+                <DialogTitle>Extend All Lanes</DialogTitle>
+                <DialogDescription>
+                  Moves the deadline of every open or closed lane in this tender. Awarded lanes are not affected.
+                </DialogDescription>
+              </DialogHeader>
+              <Input
+                type="datetime-local"
+                value={extendUntil}
+                onChange={(e) => setExtendUntil(e.target.value)}
+              />
+              <div className="flex justify-end space-x-4">
+                <Button variant="outline" onClick={() => setIsExtendOpen(false)}>Cancel</Button>
+                <Button
+                  onClick={() => actionMutation.mutate({ action: "extend", validUntil: new Date(extendUntil).toISOString() })}
+                  disabled={actionMutation.isPending || isNaN(Date.parse(extendUntil))}
+                >
+                  {actionMutation.isPending ? "Extending..." : "Extend"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete tender?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The tender and its invitations are removed. Its lanes and bids are kept as standalone lanes.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => deleteTenderMutation.mutate()}>
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </Card>
+  );
+}
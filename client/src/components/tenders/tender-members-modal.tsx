@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { CarrierGroup, Lane, Tender, User } from "@/lib/types";
+
+interface TenderMembersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tender: Tender;
+}
+
+export default function TenderMembersModal({ isOpen, onClose, tender }: TenderMembersModalProps) {
+  const [laneIds, setLaneIds] = useState<number[]>([]);
+  const [forwarderIds, setForwarderIds] = useState<number[]>([]);
+  const [groupIds, setGroupIds] = useState<number[]>([]);
+  const { toast } = useToast();
+
+  const { data: lanes } = useQuery<Lane[]>({
+    queryKey: ["/api/lanes"],
+    enabled: isOpen,
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/forwarders"],
+    enabled: isOpen,
+  });
+
+  const { data: groups } = useQuery<CarrierGroup[]>({
+    queryKey: ["/api/carrier-groups"],
+    enabled: isOpen,
+  });
+
+  // Start from the tender's current lanes and invitations each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setLaneIds(tender.lanes.map(lane => lane.id));
+      setForwarderIds(tender.forwarderIds);
+      setGroupIds(tender.groupIds);
+    }
+  }, [isOpen, tender]);
+
+  // Lanes of other tenders cannot be moved into this one
+  const availableLanes = lanes?.filter(lane => !lane.tenderId || lane.tenderId === tender.id) || [];
+  const forwarders = users || [];
+  const carrierGroups = groups || [];
+
+  // Forwarders already invited through a selected carrier group
+  const groupMemberIds = carrierGroups
+    .filter(group => groupIds.includes(group.id))
+    .flatMap(group => group.userIds);
+
+  const saveMembersMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/tenders/${tender.id}/lanes`, { laneIds });
+      return apiRequest("PUT", `/api/tenders/${tender.id}/forwarders`, { userIds: forwarderIds, groupIds });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Tender updated",
+        description: "Lanes and invited forwarders have been saved",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update tender",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (ids: number[], id: number, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter(existingId => existingId !== id);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lanes & Forwarders - {tender.name}</DialogTitle>
+          <DialogDescription>
+            Open lanes added to the tender take over its timing and rules. Only invited forwarders can bid on them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-4">
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Lanes ({laneIds.length})</h3>
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {availableLanes.length === 0 && (
+                <p className="text-sm text-gray-500">No lanes available.</p>
+              )}
+              {availableLanes.map(lane => (
+                <label key={lane.id} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={laneIds.includes(lane.id)}
+                    onCheckedChange={(checked) => setLaneIds(prev => toggle(prev, lane.id, checked === true))}
+                    disabled={lane.status === "awarded"}
+                  />
+                  <span>
+                    #{lane.id} {lane.loadingLocation} → {lane.unloadingLocation}
+                    <span className="block text-xs text-gray-500">{lane.bidName} · {lane.vehicleType}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Invited Forwarders ({forwarderIds.length})</h3>
+            {carrierGroups.length > 0 && (
+              <div className="mb-4">
+                <p className="text-xs font-medium text-gray-700 mb-2">Carrier groups ({groupIds.length})</p>
+                <div className="space-y-2 max-h-32 overflow-y-auto">
+                  {carrierGroups.map(group => (
+                    <label key={group.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={groupIds.includes(group.id)}
+                        onCheckedChange={(checked) => setGroupIds(prev => toggle(prev, group.id, checked === true))}
+                      />
+                      <span>{group.name} <span className="text-gray-500">({group.userIds.length} forwarders)</span></span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {forwarders.length === 0 && (
+                <p className="text-sm text-gray-500">No forwarders registered.</p>
+              )}
+              {forwarders.map(user => {
+                const isInGroup = groupMemberIds.includes(user.id);
+
+                return (
+                  <label key={user.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={forwarderIds.includes(user.id) || isInGroup}
+                      disabled={isInGroup}
+                      onCheckedChange={(checked) => setForwarderIds(prev => toggle(prev, user.id, checked === true))}
+                    />
+                    <span>{user.companyName} <span className="text-gray-500">({user.username})</span></span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={saveMembersMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMembersMutation.mutate()}
+            disabled={saveMembersMutation.isPending}
+          >
+            {saveMembersMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tender, TenderFormValues } from "@/lib/types";
+import { toDateTimeLocal } from "@/lib/utils";
+
+interface TenderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tender?: Tender; // Edits the tender when given, creates a new one otherwise
+}
+
+const formSchema = z.object({
+  name: z.string().min(3, "Tender name must be at least 3 characters"),
+  description: z.string().optional(),
+  auctionType: z.enum(["open", "sealed"]),
+  validFrom: z.string().refine(val => !isNaN(Date.parse(val)), {
+    message: "Valid from date is required",
+  }),
+  validUntil: z.string().refine(val => !isNaN(Date.parse(val)), {
+    message: "Valid until date is required",
+  }),
+  extensionWindowMinutes: z.coerce.number().int().min(0, "Must be 0 or more"),
+  extensionMinutes: z.coerce.number().int().min(0, "Must be 0 or more"),
+  maxExtensions: z.coerce.number().int().min(0, "Must be 0 or more"),
+}).refine(data => {
+  const from = new Date(data.validFrom);
+  const until = new Date(data.validUntil);
+  return from < until;
+}, {
+  message: "Valid until date must be after valid from date",
+  path: ["validUntil"],
+});
+
+function getDefaultValues(tender?: Tender): TenderFormValues {
+  return {
+    name: tender?.name || "",
+    description: tender?.description || "",
+    auctionType: tender?.auctionType || "open",
+    validFrom: toDateTimeLocal(tender?.validFrom || new Date()),
+    validUntil: toDateTimeLocal(tender?.validUntil || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)),
+    extensionWindowMinutes: tender?.extensionWindowMinutes || 0,
+    extensionMinutes: tender?.extensionMinutes || 0,
+    maxExtensions: tender?.maxExtensions || 0,
+  };
+}
+
+export default function TenderModal({ isOpen, onClose, tender }: TenderModalProps) {
+  const { toast } = useToast();
+  const isEditing = !!tender;
+
+  const form = useForm<TenderFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaultValues(tender),
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(getDefaultValues(tender));
+    }
+  }, [isOpen, tender, form]);
+
+  const saveTenderMutation = useMutation({
+    mutationFn: async (values: TenderFormValues) => {
+      return isEditing
+        ? apiRequest("PUT", `/api/tenders/${tender.id}`, values)
+        : apiRequest("POST", "/api/tenders", values);
+    },
+    onSuccess: () => {
+      toast({
+        title: isEditing ? "Tender updated" : "Tender created",
+        description: isEditing
+          ? "The tender's lanes have been updated with its timing and rules"
+          : "Add lanes and invite forwarders to the tender next",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save tender",
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: TenderFormValues) {
+    saveTenderMutation.mutate({
+      ...values,
+      validFrom: new Date(values.validFrom).toISOString(),
+      validUntil: new Date(values.validUntil).toISOString()
+    });
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Tender" : "Create New Tender"}</DialogTitle>
+          <DialogDescription>
+            Timing and rules set here apply to every open lane of the tender.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 pt-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tender Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter tender name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Optional notes for forwarders" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="auctionType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Auction Type</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select auction type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="open">Open reverse auction</SelectItem>
+                      <SelectItem value="sealed">Sealed bid (RFQ)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="validFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid From</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="validUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid Until</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">Anti-sniping</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Bids placed in the final window extend the lane. Leave at 0 to disable.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="extensionWindowMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Window (min)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="extensionMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Extend by (min)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="maxExtensions"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max extensions</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={saveTenderMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveTenderMutation.isPending}
+              >
+                {saveTenderMutation.isPending ? "Saving..." : isEditing ? "Save Tender" : "Create Tender"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,16 @@
 import { useState } from "react";
 import { useLocation, Link } from "wouter";
-import { logout } from "@/lib/auth";
+import { hasPermission, logout, roleLabels } from "@/lib/auth";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { User } from "@/lib/types";
 import { 
   TruckIcon, 
+  FolderKanbanIcon,
   HistoryIcon,
+  ShieldCheckIcon,
+  BellIcon,
+  ScrollTextIcon,
   LogOutIcon
 } from "lucide-react";
 
@@ -17,7 +21,7 @@ interface SidebarProps {
 export default function Sidebar({ user }: SidebarProps) {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
-  const isAdmin = user.role === 'admin';
+  const canBid = hasPermission(user, "bids:place");
   
   const handleLogout = async () => {
     try {
@@ -54,9 +58,18 @@ export default function Sidebar({ user }: SidebarProps) {
           <TruckIcon className="mr-3 h-5 w-5" />
           <span>Lanes</span>
         </Link>
+        <Link 
+          href="/tenders" 
+          className={`flex items-center px-6 py-3 text-gray-500 hover:bg-gray-100 hover:text-primary transition-colors ${
+            location === "/tenders" ? "bg-gray-100 text-primary" : ""
+          }`}
+        >
+          <FolderKanbanIcon className="mr-3 h-5 w-5" />
+          <span>Tenders</span>
+        </Link>
         
         {/* Only show bid history for forwarders */}
-        {!isAdmin && (
+        {canBid && (
           <>
             <div className="px-4 mt-6 mb-3">
               <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
@@ -75,11 +88,50 @@ export default function Sidebar({ user }: SidebarProps) {
           </>
         )}
         
+        {hasPermission(user, "audit:view") && (
+          <>
+            <div className="px-4 mt-6 mb-3">
+              <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                Compliance
+              </p>
+            </div>
+            <Link 
+              href="/audit-log" 
+              className={`flex items-center px-6 py-3 text-gray-500 hover:bg-gray-100 hover:text-primary transition-colors ${
+                location === "/audit-log" ? "bg-gray-100 text-primary" : ""
+              }`}
+            >
+              <ScrollTextIcon className="mr-3 h-5 w-5" />
+              <span>Audit Log</span>
+            </Link>
+          </>
+        )}
+        
         <div className="px-4 mt-6 mb-3">
           <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
             Account
           </p>
         </div>
+        <Link 
+          href="/security" 
+          className={`flex items-center px-6 py-3 text-gray-500 hover:bg-gray-100 hover:text-primary transition-colors ${
+            location === "/security" ? "bg-gray-100 text-primary" : ""
+          }`}
+        >
+          <ShieldCheckIcon className="mr-3 h-5 w-5" />
+          <span>Security</span>
+        </Link>
+        {canBid && (
+          <Link 
+            href="/notifications" 
+            className={`flex items-center px-6 py-3 text-gray-500 hover:bg-gray-100 hover:text-primary transition-colors ${
+              location === "/notifications" ? "bg-gray-100 text-primary" : ""
+            }`}
+          >
+            <BellIcon className="mr-3 h-5 w-5" />
+            <span>Notifications</span>
+          </Link>
+        )}
         <a 
           onClick={handleLogout}
           className="flex items-center px-6 py-3 text-gray-500 hover:bg-gray-100 hover:text-primary transition-colors cursor-pointer"
@@ -97,7 +149,7 @@ export default function Sidebar({ user }: SidebarProps) {
           <div className="ml-3">
             <p className="text-sm font-medium text-gray-700">{user.companyName}</p>
             <p className="text-xs text-gray-500">
-              {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
+              {roleLabels[user.role]}
             </p>
           </div>
         </div>
@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { CarrierGroup, User } from "@/lib/types";
+
+interface CarrierGroupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group?: CarrierGroup; // Creates a new group when omitted
+}
+
+export default function CarrierGroupModal({ isOpen, onClose, group }: CarrierGroupModalProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [userIds, setUserIds] = useState<number[]>([]);
+  const { toast } = useToast();
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/forwarders"],
+    enabled: isOpen,
+  });
+
+  // Start from the saved group each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setName(group?.name ?? "");
+      setDescription(group?.description ?? "");
+      setUserIds(group?.userIds ?? []);
+    }
+  }, [isOpen, group]);
+
+  const forwarders = users || [];
+
+  const saveGroupMutation = useMutation({
+    mutationFn: async () => {
+      const values = { name, description: description || null, userIds };
+      return group
+        ? apiRequest("PUT", `/api/carrier-groups/${group.id}`, values)
+        : apiRequest("POST", "/api/carrier-groups", values);
+    },
+    onSuccess: () => {
+      toast({
+        title: group ? "Carrier group updated" : "Carrier group created",
+        description: `${name} has been saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/carrier-groups"] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save carrier group",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: number, checked: boolean) =>
+    setUserIds(prev => checked ? [...prev, id] : prev.filter(existingId => existingId !== id));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{group ? `Edit ${group.name}` : "New Carrier Group"}</DialogTitle>
+          <DialogDescription>
+            Lanes and tenders the group is invited to are open to its members at any time, including forwarders added later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="carrier-group-name">Name</Label>
+            <Input
+              id="carrier-group-name"
+              placeholder="Nordic reefer panel"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="carrier-group-description">Description</Label>
+            <Input
+              id="carrier-group-description"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+            />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Forwarders ({userIds.length})</h3>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {forwarders.length === 0 && (
+                <p className="text-sm text-gray-500">No forwarders registered.</p>
+              )}
+              {forwarders.map(user => (
+                <label key={user.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={userIds.includes(user.id)}
+                    onCheckedChange={(checked) => toggle(user.id, checked === true)}
+                  />
+                  <span>{user.companyName} <span className="text-gray-500">({user.username})</span></span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={saveGroupMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveGroupMutation.mutate()}
+            disabled={saveGroupMutation.isPending || !name.trim()}
+          >
+            {saveGroupMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableHeader, TableHead, TableRow, TableBody, TableCell } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { CarrierGroup, User } from "@/lib/types";
+import CarrierGroupModal from "./carrier-group-modal";
+import { PencilIcon, PlusCircle, TrashIcon } from "lucide-react";
+
+// Saved panels of forwarders for tender managers, picked as a whole when
+// inviting forwarders to lanes and tenders
+export default function CarrierGroups() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedGroup, setSelectedGroup] = useState<CarrierGroup | undefined>();
+  const [groupToDelete, setGroupToDelete] = useState<CarrierGroup | null>(null);
+  const { toast } = useToast();
+
+  const { data: groups, isLoading } = useQuery<CarrierGroup[]>({
+    queryKey: ["/api/carrier-groups"],
+  });
+
+  const { data: forwarders } = useQuery<User[]>({
+    queryKey: ["/api/forwarders"],
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: async (groupId: number) => apiRequest("DELETE", `/api/carrier-groups/${groupId}`),
+    onSuccess: () => {
+      toast({
+        title: "Carrier group deleted",
+        description: "The carrier group has been deleted",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/carrier-groups"] });
+      setGroupToDelete(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete carrier group",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openModal = (group?: CarrierGroup) => {
+    setSelectedGroup(group);
+    setIsModalOpen(true);
+  };
+
+  const memberNames = (group: CarrierGroup) => (forwarders || [])
+    .filter(user => group.userIds.includes(user.id))
+    .map(user => `${user.companyName} (${user.username})`)
+    .join(", ");
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Carrier Groups</CardTitle>
+            <CardDescription>
+              Saved panels of forwarders to invite to lanes and tenders in one go
+            </CardDescription>
+          </div>
+          <Button onClick={() => openModal()} className="flex items-center gap-1">
+            <PlusCircle className="h-4 w-4" />
+            <span>New Group</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !groups || groups.length === 0 ? (
+          <p className="text-center py-4 text-gray-500">No carrier groups yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Forwarders</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map(group => (
+                  <TableRow key={group.id}>
+                    <TableCell>
+                      <p className="font-medium">{group.name}</p>
+                      {group.description && <p className="text-xs text-gray-500">{group.description}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {group.userIds.length === 0 ? "No forwarders" : memberNames(group)}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => openModal(group)} aria-label={`Edit ${group.name}`}>
+                        <PencilIcon className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-900"
+                        onClick={() => setGroupToDelete(group)}
+                        aria-label={`Delete ${group.name}`}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <CarrierGroupModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        group={selectedGroup}
+      />
+
+      <AlertDialog open={groupToDelete !== null} onOpenChange={() => setGroupToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {groupToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Groups still invited to lanes or tenders cannot be deleted; remove them from those invitations first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => groupToDelete && deleteGroupMutation.mutate(groupToDelete.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Company } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface CompanySelectProps {
+  value?: number;
+  onChange: (companyId: number) => void;
+}
+
+// Picks an existing company, or adds one when the user's company is new.
+// The server rejects names that only differ in case or punctuation.
+export default function CompanySelect({ value, onChange }: CompanySelectProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState("");
+  const { toast } = useToast();
+
+  const { data: companies } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/companies", { name });
+      return response.json() as Promise<Company>;
+    },
+    onSuccess: (company) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      onChange(company.id);
+      setIsAdding(false);
+      setNewName("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add company",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isAdding) {
+    return (
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Freight Co."
+          autoFocus
+        />
+        <Button
+          type="button"
+          onClick={() => createMutation.mutate(newName)}
+          disabled={!newName.trim() || createMutation.isPending}
+        >
+          Add
+        </Button>
+        <Button type="button" variant="outline" onClick={() => setIsAdding(false)}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={value ? value.toString() : undefined}
+        onValueChange={(companyId) => onChange(parseInt(companyId))}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select a company" />
+        </SelectTrigger>
+        <SelectContent>
+          {companies?.map(company => (
+            <SelectItem key={company.id} value={company.id.toString()}>
+              {company.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="button" variant="outline" onClick={() => setIsAdding(true)}>
+        New
+      </Button>
+    </div>
+  );
+}
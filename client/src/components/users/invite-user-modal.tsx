@@ -0,0 +1,135 @@
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { hasPermission, inviteForwarder } from "@/lib/auth";
+import { User } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import CompanySelect from "./company-select";
+
+const inviteUserSchema = z.object({
+  email: z.string().email({
+    message: "Please enter a valid email address",
+  }),
+  companyId: z.number({
+    required_error: "Please select a company",
+  }),
+});
+
+type InviteUserFormValues = z.infer<typeof inviteUserSchema>;
+
+interface InviteUserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: User;
+}
+
+// The forwarder receives a single-use link and chooses their own credentials.
+// Only users who manage every company pick one; others invite colleagues.
+export default function InviteUserModal({ isOpen, onClose, user }: InviteUserModalProps) {
+  const { toast } = useToast();
+  const canChooseCompany = hasPermission(user, "users:manage");
+  const defaultValues = {
+    email: "",
+    companyId: canChooseCompany ? undefined : user.companyId,
+  };
+  const form = useForm<InviteUserFormValues>({
+    resolver: zodResolver(inviteUserSchema),
+    defaultValues,
+  });
+
+  const inviteUserMutation = useMutation({
+    mutationFn: async (values: InviteUserFormValues) => {
+      return inviteForwarder(values.email, values.companyId);
+    },
+    onSuccess: (_, values) => {
+      toast({
+        title: "Invitation sent",
+        description: `An invitation has been emailed to ${values.email}`,
+      });
+      form.reset(defaultValues);
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: InviteUserFormValues) {
+    inviteUserMutation.mutate(values);
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Invite Forwarder</DialogTitle>
+          <DialogDescription>
+            Send a freight forwarder a link to set up their account.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="user@company.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {canChooseCompany && (
+              <FormField
+                control={form.control}
+                name="companyId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Company</FormLabel>
+                    <FormControl>
+                      <CompanySelect value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={inviteUserMutation.isPending}>
+                {inviteUserMutation.isPending ? "Sending..." : "Send Invitation"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
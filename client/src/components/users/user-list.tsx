@@ -1,24 +1,73 @@
 import React from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableHeader, TableHead, TableRow, TableBody, TableCell } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { User } from '@/lib/types';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { hasPermission, roleLabels } from '@/lib/auth';
+import { Role, User } from '@/lib/types';
 
-export default function UserList() {
+// Roles that bid for a carrier company; the only ones forwarder admins can assign
+const forwarderRoles: Role[] = ['forwarder_admin', 'forwarder'];
+
+interface UserListProps {
+  currentUser: User;
+}
+
+export default function UserList({ currentUser }: UserListProps) {
+  // The server only returns the users the current user may manage
   // Query for all users
   const { data: users, isLoading } = useQuery<User[]>({
     queryKey: ['/api/users'],
     refetchOnWindowFocus: true,
   });
+  const { toast } = useToast();
+
+  const assignableRoles = hasPermission(currentUser, 'users:manage')
+    ? Object.keys(roleLabels) as Role[]
+    : forwarderRoles;
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: Role }) =>
+      apiRequest('PUT', `/api/users/${userId}/role`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update role',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Users who are required to use 2FA must set it up at their next sign-in
+  const twoFactorMutation = useMutation({
+    mutationFn: async ({ userId, required }: { userId: number; required: boolean }) =>
+      apiRequest('PUT', `/api/users/${userId}/two-factor`, { required }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update two-factor requirement',
+        variant: 'destructive',
+      });
+    },
+  });
 
   // Show loading state while users are being fetched
   if (isLoading) {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Freight Forwarders</CardTitle>
+          <CardTitle>Users</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
@@ -31,17 +80,14 @@ export default function UserList() {
     );
   }
 
-  // Filter only forwarder users
-  const forwarders = users?.filter((user: User) => user.role === 'forwarder') || [];
-
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Freight Forwarders</CardTitle>
+        <CardTitle>Users</CardTitle>
       </CardHeader>
       <CardContent>
-        {forwarders.length === 0 ? (
-          <p className="text-center py-4 text-gray-500">No freight forwarders found.</p>
+        {!users || users.length === 0 ? (
+          <p className="text-center py-4 text-gray-500">No users found.</p>
         ) : (
           <div className="overflow-x-auto">
             <Table>
@@ -49,22 +95,55 @@ export default function UserList() {
                 <TableRow>
                   <TableHead>ID</TableHead>
                   <TableHead>Username</TableHead>
+                  <TableHead>Email</TableHead>
                   <TableHead>Company Name</TableHead>
-                  <TableHead>Password</TableHead>
                   <TableHead>Role</TableHead>
+                  <TableHead>Two-Factor</TableHead>
+                  <TableHead>Require 2FA</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {forwarders.map((user: User) => (
+                {users.map((user: User) => (
                   <TableRow key={user.id}>
                     <TableCell>{user.id}</TableCell>
                     <TableCell className="font-medium">{user.username}</TableCell>
+                    <TableCell>{user.email}</TableCell>
                     <TableCell>{user.companyName}</TableCell>
-                    <TableCell>{user.password}</TableCell>
                     <TableCell>
-                      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                        {user.role}
-                      </Badge>
+                      {user.id === currentUser.id ? (
+                        <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                          {roleLabels[user.role]}
+                        </Badge>
+                      ) : (
+                        <Select
+                          value={user.role}
+                          onValueChange={(role) => roleMutation.mutate({ userId: user.id, role: role as Role })}
+                          disabled={roleMutation.isPending}
+                        >
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {assignableRoles.map(role => (
+                              <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {user.totpEnabled ? (
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Enabled</Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-gray-500">Not set up</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={user.totpRequired}
+                        onCheckedChange={(required) => twoFactorMutation.mutate({ userId: user.id, required })}
+                        disabled={twoFactorMutation.isPending}
+                      />
                     </TableCell>
                   </TableRow>
                 ))}
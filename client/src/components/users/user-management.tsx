@@ -1,11 +1,18 @@
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import CreateUserModal from "./create-user-modal";
+import { hasPermission } from "@/lib/auth";
+import { User } from "@/lib/types";
+import InviteUserModal from "./invite-user-modal";
 import { PlusCircle } from "lucide-react";
 
-export default function UserManagement() {
-  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+interface UserManagementProps {
+  user: User;
+}
+
+export default function UserManagement({ user }: UserManagementProps) {
+  const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+  const canManageAllUsers = hasPermission(user, "users:manage");
 
   return (
     <Card className="w-full">
@@ -13,26 +20,31 @@ export default function UserManagement() {
         <div className="flex items-center justify-between">
           <div>
             <CardTitle>User Management</CardTitle>
-            <CardDescription>Create and manage freight forwarder accounts</CardDescription>
+            <CardDescription>
+              {canManageAllUsers ? "Invite and manage user accounts" : `Invite and manage the users of ${user.companyName}`}
+            </CardDescription>
           </div>
           <Button 
-            onClick={() => setIsCreateModalOpen(true)}
+            onClick={() => setIsInviteModalOpen(true)}
             className="flex items-center gap-1"
           >
             <PlusCircle className="h-4 w-4" />
-            <span>Add User</span>
+            <span>Invite Forwarder</span>
           </Button>
         </div>
       </CardHeader>
       <CardContent>
         <p className="text-sm text-muted-foreground">
-          As an administrator, you can create new freight forwarder accounts that can participate in bidding for lanes.
+          {canManageAllUsers
+            ? "As an administrator, you can invite freight forwarders by email and give users a role. Invited users choose their own username and password."
+            : "You can invite colleagues by email. They choose their own username and password before bidding for lanes."}
         </p>
       </CardContent>
 
-      <CreateUserModal 
-        isOpen={isCreateModalOpen}
-        onClose={() => setIsCreateModalOpen(false)}
+      <InviteUserModal 
+        isOpen={isInviteModalOpen}
+        onClose={() => setIsInviteModalOpen(false)}
+        user={user}
       />
     </Card>
   );
@@ -0,0 +1,94 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { Bid, Lane, LaneEvent, RealtimeEvent, Tender } from "@/lib/types";
+
+// Wait before reconnecting when the realtime channel drops
+const RECONNECT_DELAY_MS = 5000;
+
+// Replaces the lane wholesale: fields the server hides are absent, not stale
+function patchLanes(lanes: Lane[] | undefined, lane: Lane): Lane[] | undefined {
+  return lanes?.map(cached => cached.id === lane.id ? lane : cached);
+}
+
+// Writes a pushed lane change into every cached view of that lane
+function applyLaneEvent({ type, lane, bid }: LaneEvent) {
+  for (const [queryKey, lanes] of queryClient.getQueriesData<Lane[]>({ queryKey: ["/api/lanes"] })) {
+    if (Array.isArray(lanes)) {
+      queryClient.setQueryData(queryKey, patchLanes(lanes, lane));
+    }
+  }
+
+  queryClient.setQueryData<Lane>([`/api/lanes/${lane.id}`], cached => cached && lane);
+
+  queryClient.setQueryData<Tender[]>(["/api/tenders"], tenders =>
+    tenders?.map(tender => ({ ...tender, lanes: patchLanes(tender.lanes, lane)! }))
+  );
+
+  // Admins receive the bid itself; keep the bids list ordered by amount
+  if (bid) {
+    queryClient.setQueryData<Bid[]>([`/api/lanes/${lane.id}/bids`], bids => bids && [
+      ...bids.filter(cached => cached.id !== bid.id),
+      bid
+    ].sort((a, b) => parseFloat(String(a.amount)) - parseFloat(String(b.amount))));
+  }
+
+  // Award outcomes are only part of the bid history endpoint
+  if (type === "lane_status_changed") {
+    queryClient.invalidateQueries({ queryKey: ["/api/user/bids"] });
+  }
+}
+
+// Keeps lane data live while mounted by listening on the server's realtime
+// channel, reconnecting after drops and refetching what was missed meanwhile.
+// Notifications for the user are shown as toasts and refresh the bell.
+export function useLaneEvents(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let socket: WebSocket | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let hasConnected = false;
+    let isUnmounted = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        if (hasConnected) {
+          queryClient.invalidateQueries({ queryKey: ["/api/lanes"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/tenders"] });
+        }
+        hasConnected = true;
+      };
+
+      socket.onmessage = (message) => {
+        const event: RealtimeEvent = JSON.parse(message.data);
+
+        if (event.type === "notification") {
+          toast({ title: event.notification.title, description: event.notification.message });
+          queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+        } else {
+          applyLaneEvent(event);
+        }
+      };
+
+      socket.onclose = () => {
+        if (!isUnmounted) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      isUnmounted = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+}
@@ -1,26 +1,64 @@
 import { apiRequest } from "./queryClient";
-import { User } from "./types";
+import { Permission, Role, TwoFactorChallenge, User } from "./types";
 
-export async function login(username: string, password: string): Promise<User> {
+export const roleLabels: Record<Role, string> = {
+  admin: "Admin",
+  tender_manager: "Tender Manager",
+  approver: "Approver",
+  analyst: "Analyst",
+  forwarder_admin: "Forwarder Admin",
+  forwarder: "Forwarder",
+};
+
+export function hasPermission(user: User, permission: Permission): boolean {
+  return !!user.permissions?.includes(permission);
+}
+
+export async function login(username: string, password: string): Promise<User | TwoFactorChallenge> {
   const response = await apiRequest("POST", "/api/login", { username, password });
   return response.json();
 }
 
+// `code` is a code from the authenticator app or a recovery code
+export async function verifyTwoFactorLogin(code: string): Promise<User> {
+  const response = await apiRequest("POST", "/api/login/two-factor", { code });
+  return response.json();
+}
+
 export async function register(
   username: string, 
   password: string, 
-  companyName: string, 
-  role: "admin" | "forwarder"
+  email: string, 
+  companyId: number, 
+  role: Role
 ): Promise<User> {
   const response = await apiRequest("POST", "/api/register", { 
     username, 
     password, 
-    companyName, 
+    email, 
+    companyId, 
     role 
   });
   return response.json();
 }
 
+export async function inviteForwarder(email: string, companyId: number): Promise<void> {
+  await apiRequest("POST", "/api/invitations", { email, companyId });
+}
+
+export async function acceptInvitation(token: string, username: string, password: string): Promise<User> {
+  const response = await apiRequest("POST", "/api/invitations/accept", { token, username, password });
+  return response.json();
+}
+
+export async function requestPasswordReset(email: string): Promise<void> {
+  await apiRequest("POST", "/api/password-reset/request", { email });
+}
+
+export async function resetPassword(token: string, password: string): Promise<void> {
+  await apiRequest("POST", "/api/password-reset", { token, password });
+}
+
 export async function logout(): Promise<void> {
   await apiRequest("POST", "/api/logout");
 }
@@ -1,37 +1,256 @@
+export type LaneStatus = "active" | "ending_soon" | "closed" | "awarded" | "archived";
+
+export type BidOutcome = "won" | "lost";
+
+export type AuctionType = "open" | "sealed";
+
+export type VolumePeriod = "week" | "month";
+
+export type DecrementType = "absolute" | "percent";
+
+export type BidVisibility = "full_price" | "rank" | "traffic_light";
+
+export type TrafficLight = "leading" | "close" | "far";
+
+// Where a forwarder's best bid stands in the lane's current round
+export interface BidFeedback {
+  rank?: number; // 1 for the lowest bid
+  bidderCount?: number;
+  trafficLight?: TrafficLight; // Only set on traffic light lanes
+}
+
+export interface Company {
+  id: number;
+  name: string;
+  createdAt: string;
+}
+
+export type Role = "admin" | "tender_manager" | "approver" | "analyst" | "forwarder_admin" | "forwarder";
+
+// What the server lets the signed-in user do; the UI hides everything else
+export type Permission =
+  | "users:manage"
+  | "company_users:manage"
+  | "lanes:manage"
+  | "lanes:award"
+  | "bids:view"
+  | "bids:place"
+  | "audit:view";
+
 export interface User {
   id: number;
   username: string;
+  email: string;
+  companyId: number;
   companyName: string;
-  role: "admin" | "forwarder";
-  password?: string; // Optional for frontend display purposes
+  role: Role;
+  totpEnabled: boolean;
+  totpRequired: boolean;
+  // Only on the signed-in user
+  permissions?: Permission[];
+  // Only on the signed-in user: 2FA must be set up before anything else
+  twoFactorEnrollmentRequired?: boolean;
+}
+
+// Returned by the password step when the user still has to enter a code
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL of otpauthUrl
 }
 
 export interface Lane {
   id: number;
   bidName: string;
-  status: "active" | "archived" | "ending_soon";
+  status: LaneStatus;
+  auctionType: AuctionType;
   vehicleType: "40t" | "12t" | "van";
   loadingLocation: string;
   unloadingLocation: string;
+  expectedVolume: number | null; // Loads per volumePeriod
+  volumePeriod: VolumePeriod | null;
   validFrom: string;
   validUntil: string;
+  extensionWindowMinutes: number | null;
+  extensionMinutes: number | null;
+  maxExtensions: number | null;
+  extensionCount: number;
+  bidsOpenedAt: string | null;
+  currentRound: number;
+  minDecrement: string | null; // In EUR or percent depending on decrementType
+  decrementType: DecrementType;
+  ceilingPrice: string | null;
+  mustImproveOwnBid: boolean;
+  oneBidPerCompany: boolean;
+  bidVisibility: BidVisibility;
+  trafficLightPercent: number;
+  tenderId: number | null; // Null for standalone lanes
   createdAt: string;
   createdBy: number;
-  minBid?: number;
+  minBid?: number; // Hidden from forwarders unless the lane shows full prices
   bidCount?: number;
+  feedback?: BidFeedback; // Only set for forwarders who have bid
 }
 
 export interface Bid {
   id: number;
   laneId: number;
   userId: number;
+  companyId: number; // The bidder's company when the bid was placed
   amount: number;
   comment?: string; // Optional comment field
+  round: number;
+  carriedOver: boolean; // True for prices carried forward from the previous round
+  isProxy: boolean; // Placed automatically by the forwarder's proxy
+  proxyFloor?: number; // Shown to admins once the lane has closed
   createdAt: string;
+  updatedAt?: string | null; // Set when a sealed bid is revised
   username: string;
   companyName: string;
 }
 
+// A forwarder's automatic bidding floor for the current round of a lane
+export interface ProxyBid {
+  id: number;
+  laneId: number;
+  userId: number;
+  round: number;
+  floorAmount: string;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+// Forwarders, companies and carrier groups a standalone lane is published
+// to; all empty publishes it to every forwarder
+export interface LaneInvitees {
+  userIds: number[];
+  companyIds: number[];
+  groupIds: number[];
+}
+
+// A saved panel of forwarders, invited as a whole
+export interface CarrierGroup {
+  id: number;
+  name: string;
+  description: string | null;
+  createdAt: string;
+  createdBy: number;
+  userIds: number[];
+}
+
+// A tender event grouping lanes under shared timing, rules and invitations
+export interface Tender {
+  id: number;
+  name: string;
+  description: string | null;
+  auctionType: AuctionType;
+  validFrom: string;
+  validUntil: string;
+  extensionWindowMinutes: number | null;
+  extensionMinutes: number | null;
+  maxExtensions: number | null;
+  createdAt: string;
+  createdBy: number;
+  lanes: Lane[];
+  forwarderIds: number[]; // Only populated for admins
+  groupIds: number[]; // Only populated for admins
+}
+
+export type TenderAction = "open" | "extend" | "close";
+
+export type LaneEventType = "bid_placed" | "lane_extended" | "lane_status_changed" | "lane_updated";
+
+// Pushed over the realtime channel; `lane` is redacted for the recipient like
+// GET /api/lanes/:id and `bid` is only sent to admins
+export interface LaneEvent {
+  type: LaneEventType;
+  lane: Lane;
+  bid?: Bid;
+}
+
+export type NotificationType = "lane_published" | "outbid" | "lane_extended" | "lane_closing" | "lane_awarded" | "account";
+
+export interface Notification {
+  id: number;
+  userId: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  laneId: number | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// GET /api/notifications: the latest notifications, newest first
+export interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+// Pushed over the realtime channel when the user receives a notification
+export interface NotificationEvent {
+  type: "notification";
+  notification: Notification;
+}
+
+export type RealtimeEvent = LaneEvent | NotificationEvent;
+
+export interface NotificationPreferences {
+  outbidInApp: boolean;
+  outbidEmail: boolean;
+  closingInApp: boolean;
+  closingEmail: boolean;
+  closingReminderMinutes: number[]; // Lead times before a lane closes
+}
+
+export interface Award {
+  id: number;
+  laneId: number;
+  bidId: number;
+  sharePercent: string;
+  shareLoads: number | null; // Set when the lane was split by load count
+  reason: string | null;
+  awardedBy: number;
+  awardedAt: string;
+}
+
+// One winner of a split award; a lone winner may omit the share
+export interface AwardAllocation {
+  bidId: number;
+  sharePercent?: number;
+  shareLoads?: number;
+}
+
+export interface LaneStatusChange {
+  id: number;
+  laneId: number;
+  fromStatus: LaneStatus;
+  toStatus: LaneStatus;
+  changedBy: number | null; // Null when changed by the scheduler
+  changedAt: string;
+}
+
+// Validation result of a bulk lane import; `row` is the spreadsheet row
+export interface LaneImportReport {
+  rows: { row: number; errors: string[] }[];
+  validCount: number;
+  errorCount: number;
+  created?: Lane[]; // Only set once the import is committed
+}
+
+// Validation result of a bid sheet upload; rows without an amount are skipped
+export interface BidSheetReport {
+  rows: { row: number; laneId?: number; errors: string[] }[];
+  acceptedCount: number;
+  rejectedCount: number;
+  skippedCount: number;
+  bids?: Bid[]; // Only set once the bids are placed
+}
+
 export interface LaneFilters {
   status?: string;
   vehicleType?: string;
@@ -41,10 +260,44 @@ export interface LaneFilters {
 
 export interface LaneFormValues {
   bidName: string;
-  status: "active" | "archived" | "ending_soon";
+  status: LaneStatus;
+  auctionType: AuctionType;
   vehicleType: "40t" | "12t" | "van";
   loadingLocation: string;
   unloadingLocation: string;
+  // 0 means the lane has no expected volume
+  expectedVolume: number;
+  volumePeriod: VolumePeriod;
+  validFrom: string;
+  validUntil: string;
+  // 0 disables the corresponding anti-sniping setting
+  extensionWindowMinutes: number;
+  extensionMinutes: number;
+  maxExtensions: number;
+  // 0 disables the corresponding bidding rule
+  ceilingPrice: number;
+  minDecrement: number;
+  decrementType: DecrementType;
+  mustImproveOwnBid: boolean;
+  oneBidPerCompany: boolean;
+  bidVisibility: BidVisibility;
+  trafficLightPercent: number;
+}
+
+export interface TenderFormValues {
+  name: string;
+  description?: string;
+  auctionType: AuctionType;
+  validFrom: string;
+  validUntil: string;
+  // 0 disables the corresponding anti-sniping setting
+  extensionWindowMinutes: number;
+  extensionMinutes: number;
+  maxExtensions: number;
+}
+
+export interface NextRoundFormValues {
+  topN: number;
   validFrom: string;
   validUntil: string;
 }
@@ -53,3 +306,28 @@ export interface BidFormValues {
   amount: number;
   comment?: string;
 }
+
+export type AuditEntityType = "user" | "company" | "invitation" | "lane" | "tender" | "carrier_group" | "bid" | "proxy_bid";
+
+export interface AuditLog {
+  id: number;
+  actorId: number | null;
+  actorUsername: string | null;
+  action: string; // e.g. "lane.update"
+  entityType: AuditEntityType;
+  entityId: number | null;
+  before: Record<string, unknown> | null; // Null when the entity was created
+  after: Record<string, unknown> | null; // Null when the entity was deleted
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  actor?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  groupId?: string; // Actions by members of this carrier group
+  from?: string; // yyyy-mm-dd
+  to?: string; // yyyy-mm-dd, inclusive
+}
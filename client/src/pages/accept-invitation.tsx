@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useForm } from "react-hook-form";
+import { useToast } from "@/hooks/use-toast";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { acceptInvitation } from "@/lib/auth";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+const acceptInvitationSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .regex(/(?=.*[a-zA-Z])(?=.*[0-9])/, "Password must contain both letters and numbers"),
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type AcceptInvitationFormValues = z.infer<typeof acceptInvitationSchema>;
+
+// Landing page for the link in an invitation email
+export default function AcceptInvitation() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const { toast } = useToast();
+
+  const form = useForm<AcceptInvitationFormValues>({
+    resolver: zodResolver(acceptInvitationSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  async function onSubmit(data: AcceptInvitationFormValues) {
+    setIsLoading(true);
+
+    try {
+      await acceptInvitation(token, data.username, data.password);
+
+      // Accepting the invitation also signs the forwarder in
+      queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+
+      toast({
+        title: "Welcome aboard",
+        description: "Your account has been created successfully.",
+      });
+
+      setLocation("/dashboard");
+    } catch (error) {
+      console.error("Invitation error:", error);
+
+      toast({
+        title: "Could not create account",
+        description: error instanceof Error ? error.message : "This invitation link is invalid or has expired",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Set Up Your Account</CardTitle>
+          <CardDescription className="text-center">
+            Choose the username and password you will use to sign in to Procurement 2.0
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-center text-sm text-gray-500">
+              This invitation link is incomplete. Please use the full link from your invitation email.
+            </p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Choose a username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Choose a password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Confirm your password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? "Creating account..." : "Create Account"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
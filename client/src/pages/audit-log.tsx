@@ -0,0 +1,335 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { AuditEntityType, AuditLog, AuditLogFilters, CarrierGroup, User } from "@/lib/types";
+import { getCurrentUser, hasPermission } from "@/lib/auth";
+import Sidebar from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDownIcon, ChevronUpIcon } from "lucide-react";
+
+const entityTypeLabels: Record<AuditEntityType, string> = {
+  user: "User",
+  company: "Company",
+  invitation: "Invitation",
+  lane: "Lane",
+  tender: "Tender",
+  carrier_group: "Carrier Group",
+  bid: "Bid",
+  proxy_bid: "Automatic Bid",
+};
+
+// Matches the server's page size; narrow the filters or export to see more
+const PAGE_SIZE = 500;
+
+// Query string for the audit log API. Dates are whole local days.
+function toQueryString(filters: AuditLogFilters): string {
+  const params = new URLSearchParams();
+
+  if (filters.actor) params.set("actor", filters.actor);
+  if (filters.action) params.set("action", filters.action);
+  if (filters.entityType) params.set("entityType", filters.entityType);
+  if (filters.entityId) params.set("entityId", filters.entityId);
+  if (filters.groupId) params.set("groupId", filters.groupId);
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+  return params.toString();
+}
+
+// Fields whose value differs between the before and after snapshots
+function getChanges(entry: AuditLog): { field: string; before: unknown; after: unknown }[] {
+  const fields = Array.from(new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]));
+
+  return fields
+    .map(field => ({ field, before: entry.before?.[field], after: entry.after?.[field] }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "";
+  if (value === null) return "null";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// Admin view of the append-only audit trail, with filters and exports for compliance reviews
+export default function AuditLogPage() {
+  const [, setLocation] = useLocation();
+  const [draftFilters, setDraftFilters] = useState<AuditLogFilters>({});
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const queryString = toQueryString(filters);
+
+  // Query for the current user
+  const { data: user, isLoading: isUserLoading } = useQuery({
+    queryKey: ["/api/me"],
+    queryFn: getCurrentUser,
+    refetchOnWindowFocus: true,
+  });
+
+  const canViewAuditLog = !!user && hasPermission(user, "audit:view");
+
+  const { data: entries, isLoading, error } = useQuery<AuditLog[]>({
+    queryKey: ["/api/audit-logs", queryString],
+    queryFn: async () => {
+      const response = await fetch(`/api/audit-logs?${queryString}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`Error fetching audit log: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled: canViewAuditLog,
+  });
+
+  const { data: groups } = useQuery<CarrierGroup[]>({
+    queryKey: ["/api/carrier-groups"],
+    enabled: canViewAuditLog,
+  });
+
+  // Redirect to login if no user is found, and away if they may not see the log
+  useEffect(() => {
+    if (!isUserLoading && !user) {
+      setLocation("/login");
+    } else if (user && !canViewAuditLog) {
+      setLocation("/dashboard");
+    }
+  }, [user, isUserLoading, canViewAuditLog, setLocation]);
+
+  const updateDraft = (field: keyof AuditLogFilters, value: string) => {
+    setDraftFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleReset = () => {
+    setDraftFilters({});
+    setFilters({});
+  };
+
+  if (isUserLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user || !canViewAuditLog) {
+    return null;
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar user={user as User} />
+
+      <div className="flex-1 overflow-auto">
+        <header className="bg-white shadow-sm">
+          <div className="px-6 py-4 flex items-center justify-between">
+            <h1 className="text-lg font-semibold text-gray-900">Audit Log</h1>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" asChild>
+                <a href={`/api/audit-logs/export?format=xlsx&${queryString}`}>Export XLSX</a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`/api/audit-logs/export?format=csv&${queryString}`}>Export CSV</a>
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <div className="p-6 space-y-6">
+          <Card>
+            <CardContent className="pt-4">
+              <form
+                className="flex flex-wrap items-end gap-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setFilters(draftFilters);
+                }}
+              >
+                <div>
+                  <Label htmlFor="audit-actor" className="block text-sm font-medium text-gray-700 mb-1">User</Label>
+                  <Input
+                    id="audit-actor"
+                    className="w-40"
+                    value={draftFilters.actor || ""}
+                    onChange={(e) => updateDraft("actor", e.target.value)}
+                  />
+                </div>
+                {groups && groups.length > 0 && (
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-1">Carrier Group</Label>
+                    <Select
+                      value={draftFilters.groupId || "all"}
+                      onValueChange={(value) => updateDraft("groupId", value === "all" ? "" : value)}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All</SelectItem>
+                        {groups.map(group => (
+                          <SelectItem key={group.id} value={group.id.toString()}>{group.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-1">Entity</Label>
+                  <Select
+                    value={draftFilters.entityType || "all"}
+                    onValueChange={(value) => updateDraft("entityType", value === "all" ? "" : value)}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All</SelectItem>
+                      {(Object.keys(entityTypeLabels) as AuditEntityType[]).map(entityType => (
+                        <SelectItem key={entityType} value={entityType}>{entityTypeLabels[entityType]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="audit-entity-id" className="block text-sm font-medium text-gray-700 mb-1">Entity ID</Label>
+                  <Input
+                    id="audit-entity-id"
+                    type="number"
+                    className="w-28"
+                    value={draftFilters.entityId || ""}
+                    onChange={(e) => updateDraft("entityId", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="audit-action" className="block text-sm font-medium text-gray-700 mb-1">Action</Label>
+                  <Input
+                    id="audit-action"
+                    className="w-44"
+                    placeholder="lane.update"
+                    value={draftFilters.action || ""}
+                    onChange={(e) => updateDraft("action", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="audit-from" className="block text-sm font-medium text-gray-700 mb-1">From</Label>
+                  <Input
+                    id="audit-from"
+                    type="date"
+                    value={draftFilters.from || ""}
+                    onChange={(e) => updateDraft("from", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="audit-to" className="block text-sm font-medium text-gray-700 mb-1">To</Label>
+                  <Input
+                    id="audit-to"
+                    type="date"
+                    value={draftFilters.to || ""}
+                    onChange={(e) => updateDraft("to", e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit">Apply</Button>
+                  <Button type="button" variant="outline" onClick={handleReset}>Reset</Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          {error ? (
+            <Card className="p-6">
+              <p className="text-center text-red-500">Error loading the audit log. Please try again.</p>
+            </Card>
+          ) : isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : entries && entries.length > 0 ? (
+            <Card>
+              {entries.length === PAGE_SIZE && (
+                <p className="px-4 pt-4 text-sm text-gray-500">
+                  Showing the latest {PAGE_SIZE} entries. Narrow the filters or export to see all of them.
+                </p>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>IP Address</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => {
+                    const isExpanded = expandedId === entry.id;
+                    const changes = getChanges(entry);
+
+                    return [
+                      <TableRow
+                        key={entry.id}
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      >
+                        <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>{entry.actorUsername || "—"}</TableCell>
+                        <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                        <TableCell>
+                          {entityTypeLabels[entry.entityType] || entry.entityType}
+                          {entry.entityId !== null && ` #${entry.entityId}`}
+                        </TableCell>
+                        <TableCell>{entry.ipAddress || "—"}</TableCell>
+                        <TableCell>
+                          {changes.length > 0 && (isExpanded ? <ChevronUpIcon size={16} /> : <ChevronDownIcon size={16} />)}
+                        </TableCell>
+                      </TableRow>,
+                      isExpanded && changes.length > 0 && (
+                        <TableRow key={`${entry.id}-changes`} className="bg-gray-50 hover:bg-gray-50">
+                          <TableCell colSpan={6}>
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-gray-500">
+                                  <th className="py-1 pr-4 font-medium">Field</th>
+                                  <th className="py-1 pr-4 font-medium">Before</th>
+                                  <th className="py-1 font-medium">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {changes.map(change => (
+                                  <tr key={change.field} className="align-top">
+                                    <td className="py-1 pr-4 font-mono">{change.field}</td>
+                                    <td className="py-1 pr-4 font-mono text-red-700 break-all">{formatValue(change.before)}</td>
+                                    <td className="py-1 font-mono text-green-700 break-all">{formatValue(change.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </TableCell>
+                        </TableRow>
+                      ),
+                    ];
+                  })}
+                </TableBody>
+              </Table>
+            </Card>
+          ) : (
+            <Card className="p-6">
+              <p className="text-center text-gray-500">No audit log entries match these filters.</p>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -17,19 +17,28 @@ import {
   ChevronUpIcon, 
   ArrowLeftIcon,
 } from "lucide-react";
-import { Bid } from "@/lib/types";
+import { Bid, BidFeedback, BidOutcome, BidVisibility, LaneStatus, VolumePeriod } from "@/lib/types";
+import BidFeedbackBadge from "@/components/lanes/bid-feedback-badge";
 
 interface BidWithLane extends Bid {
+  outcome?: BidOutcome; // Set once the lane has been awarded
+  sharePercent?: number; // Allocated share when the bid won
+  shareLoads?: number;
   lane: {
     id: number;
     bidName: string;
-    status: "active" | "archived" | "ending_soon";
+    status: LaneStatus;
     vehicleType: "40t" | "12t" | "van";
     loadingLocation: string;
     unloadingLocation: string;
+    expectedVolume: number | null;
+    volumePeriod: VolumePeriod | null;
     validFrom: string;
     validUntil: string;
-    minBid?: number;
+    minBid?: number; // Hidden unless the lane shows full prices
+    bidVisibility: BidVisibility;
+    trafficLightPercent: number;
+    feedback?: BidFeedback;
   };
 }
 
@@ -37,13 +46,18 @@ interface GroupedBids {
   [key: string]: {
     laneId: number;
     bidName: string;
-    status: "active" | "archived" | "ending_soon";
+    status: LaneStatus;
     vehicleType: "40t" | "12t" | "van";
     loadingLocation: string;
     unloadingLocation: string;
+    expectedVolume: number | null;
+    volumePeriod: VolumePeriod | null;
     validFrom: string;
     validUntil: string;
     minBid?: number;
+    bidVisibility: BidVisibility;
+    trafficLightPercent: number;
+    feedback?: BidFeedback;
     bids: BidWithLane[];
   };
 }
@@ -51,12 +65,15 @@ interface GroupedBids {
 export default function BidHistory() {
   const [, setLocation] = useLocation();
   const [expandedLanes, setExpandedLanes] = useState<{[key: string]: boolean}>({});
+  const [scope, setScope] = useState<"user" | "company">("user");
+  const isCompanyScope = scope === "company";
   
-  // Fetch user's bids
+  // Fetch user's bids, or those of everyone in their company
   const { data: bids, isLoading, error } = useQuery<BidWithLane[]>({
-    queryKey: ["/api/user/bids"],
+    queryKey: ["/api/user/bids", scope],
     queryFn: async () => {
-      const response = await fetch("/api/user/bids", {
+      const url = isCompanyScope ? "/api/user/bids?scope=company" : "/api/user/bids";
+      const response = await fetch(url, {
         credentials: "include",
       });
       if (!response.ok) {
@@ -97,9 +114,14 @@ export default function BidHistory() {
           vehicleType: bid.lane.vehicleType,
           loadingLocation: bid.lane.loadingLocation,
           unloadingLocation: bid.lane.unloadingLocation,
+          expectedVolume: bid.lane.expectedVolume,
+          volumePeriod: bid.lane.volumePeriod,
           validFrom: bid.lane.validFrom,
           validUntil: bid.lane.validUntil,
           minBid: bid.lane.minBid,
+          bidVisibility: bid.lane.bidVisibility,
+          trafficLightPercent: bid.lane.trafficLightPercent,
+          feedback: bid.lane.feedback,
           bids: []
         };
       }
@@ -136,14 +158,16 @@ export default function BidHistory() {
   
   const groupedBids = bids ? groupBidsByLane(bids) : {};
   const groupedLaneKeys = Object.keys(groupedBids).sort((a, b) => {
-    // Sort by status: active first, then ending_soon, then archived
+    // Sort by status: active first, then ending_soon, closed, awarded, archived
     const statusA = groupedBids[a].status;
     const statusB = groupedBids[b].status;
     
     const statusPriority = {
       "active": 0,
       "ending_soon": 1, 
-      "archived": 2
+      "closed": 2,
+      "awarded": 3,
+      "archived": 4
     };
     
     return statusPriority[statusA] - statusPriority[statusB];
@@ -153,14 +177,28 @@ export default function BidHistory() {
     <div className="container mx-auto px-4 py-8">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold">Bid History</h1>
-        <Button 
-          onClick={goBackToDashboard} 
-          variant="outline" 
-          className="flex items-center gap-2"
-        >
-          <ArrowLeftIcon size={16} />
-          Back to Lanes
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={isCompanyScope ? "outline" : "default"}
+            onClick={() => setScope("user")}
+          >
+            My Bids
+          </Button>
+          <Button
+            variant={isCompanyScope ? "default" : "outline"}
+            onClick={() => setScope("company")}
+          >
+            Company Bids
+          </Button>
+          <Button 
+            onClick={goBackToDashboard} 
+            variant="outline" 
+            className="flex items-center gap-2"
+          >
+            <ArrowLeftIcon size={16} />
+            Back to Lanes
+          </Button>
+        </div>
       </div>
 
       {isLoading ? (
@@ -189,6 +227,8 @@ export default function BidHistory() {
             const bidAmount = typeof latestBid.amount === 'string' ? parseFloat(latestBid.amount) : latestBid.amount;
             const isLowest = lane.minBid === bidAmount;
             const isExpanded = expandedLanes[lane.laneId] || false;
+            const winningBid = lane.bids.find(bid => bid.outcome === "won");
+            const hasWon = !!winningBid;
             
             return (
               <Card key={lane.laneId} className="overflow-hidden">
@@ -204,9 +244,17 @@ export default function BidHistory() {
                       </Badge>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <Badge variant={isLowest ? "default" : "secondary"}>
-                        {isLowest ? "Lowest Bid" : "Outbid"}
-                      </Badge>
+                      {lane.status === "awarded" ? (
+                        <Badge className={hasWon ? "bg-green-600 hover:bg-green-700" : undefined} variant={hasWon ? "default" : "secondary"}>
+                          {hasWon ? `Awarded to ${isCompanyScope ? "your company" : "you"} · ${winningBid.sharePercent}%` : "Not awarded"}
+                        </Badge>
+                      ) : lane.bidVisibility !== "full_price" && lane.feedback ? (
+                        <BidFeedbackBadge feedback={lane.feedback} trafficLightPercent={lane.trafficLightPercent} />
+                      ) : (
+                        <Badge variant={isLowest ? "default" : "secondary"}>
+                          {isLowest ? "Lowest Bid" : "Outbid"}
+                        </Badge>
+                      )}
                       {isExpanded ? <ChevronUpIcon size={20} /> : <ChevronDownIcon size={20} />}
                     </div>
                   </div>
@@ -237,14 +285,36 @@ export default function BidHistory() {
                           <p className="text-xs text-gray-500">Valid Period</p>
                           <p className="text-sm font-medium">{formatDate(lane.validFrom)} - {formatDate(lane.validUntil)}</p>
                         </div>
-                        <div>
-                          <p className="text-xs text-gray-500">Lowest Bid</p>
-                          <p className="text-sm font-medium">€{lane.minBid?.toFixed(2) || 'No bids yet'}</p>
-                        </div>
+                        {lane.bidVisibility === "full_price" ? (
+                          <div>
+                            <p className="text-xs text-gray-500">Lowest Bid</p>
+                            <p className="text-sm font-medium">€{lane.minBid?.toFixed(2) || 'No bids yet'}</p>
+                          </div>
+                        ) : lane.feedback?.rank !== undefined ? (
+                          <div>
+                            <p className="text-xs text-gray-500">Your Rank</p>
+                            <p className="text-sm font-medium">#{lane.feedback.rank} of {lane.feedback.bidderCount}</p>
+                          </div>
+                        ) : null}
+                        {lane.expectedVolume ? (
+                          <div>
+                            <p className="text-xs text-gray-500">Expected Volume</p>
+                            <p className="text-sm font-medium">{lane.expectedVolume} loads per {lane.volumePeriod}</p>
+                          </div>
+                        ) : null}
+                        {winningBid && (
+                          <div>
+                            <p className="text-xs text-gray-500">Your Allocated Share</p>
+                            <p className="text-sm font-medium">
+                              {winningBid.sharePercent}%
+                              {winningBid.shareLoads ? ` (${winningBid.shareLoads} loads per ${lane.volumePeriod})` : ""}
+                            </p>
+                          </div>
+                        )}
                       </div>
                     </div>
                     
-                    <p className="text-sm font-medium text-gray-500 mb-3">Your Bid History</p>
+                    <p className="text-sm font-medium text-gray-500 mb-3">{isCompanyScope ? "Company" : "Your"} Bid History</p>
                     <div className="space-y-3">
                       {lane.bids.map((bid) => {
                         const bidAmount = typeof bid.amount === 'string' ? parseFloat(bid.amount) : bid.amount;
@@ -256,12 +326,16 @@ export default function BidHistory() {
                               <p className="text-sm font-medium">
                                 Bid Amount: <span className="text-primary">€{bidAmount.toFixed(2)}</span>
                               </p>
-                              {isLowestBid && (
+                              {bid.outcome === "won" ? (
+                                <Badge variant="default" className="text-xs bg-green-600 hover:bg-green-700">Won</Badge>
+                              ) : bid.outcome === "lost" ? (
+                                <Badge variant="secondary" className="text-xs">Not awarded</Badge>
+                              ) : isLowestBid && (
                                 <Badge variant="default" className="text-xs">Lowest Bid</Badge>
                               )}
                             </div>
                             <p className="text-xs text-gray-500">
-                              Placed on {formatDate(bid.createdAt)} at {formatTime(bid.createdAt)}
+                              Placed {isCompanyScope ? `by ${bid.username} ` : ""}on {formatDate(bid.createdAt)} at {formatTime(bid.createdAt)}
                             </p>
                             {bid.comment && (
                               <div className="mt-2 border-t pt-2">
@@ -282,7 +356,9 @@ export default function BidHistory() {
       ) : (
         <div className="bg-gray-50 p-8 rounded-md text-center">
           <p className="text-gray-500">
-            You haven't placed any bids yet. Browse the available lanes and start bidding!
+            {isCompanyScope
+              ? "Nobody in your company has placed a bid yet."
+              : "You haven't placed any bids yet. Browse the available lanes and start bidding!"}
           </p>
         </div>
       )}
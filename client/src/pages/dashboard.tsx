@@ -3,21 +3,28 @@ import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { User } from "@/lib/types";
 import type { LaneFilters } from "@/lib/types";
-import { getCurrentUser } from "@/lib/auth";
+import { getCurrentUser, hasPermission } from "@/lib/auth";
+import { useLaneEvents } from "@/hooks/use-lane-events";
 import Sidebar from "@/components/ui/sidebar";
+import NotificationBell from "@/components/notifications/notification-bell";
 import LaneTable from "@/components/lanes/lane-table";
 import LaneCards from "@/components/lanes/lane-cards";
 import LaneFiltersComponent from "@/components/lanes/lane-filters";
 import CreateLaneModal from "@/components/lanes/create-lane-modal";
+import ImportLanesModal from "@/components/lanes/import-lanes-modal";
+import BidSheetModal from "@/components/lanes/bid-sheet-modal";
 import EditLaneModal from "@/components/lanes/edit-lane-modal";
 import ViewBidsModal from "@/components/lanes/view-bids-modal";
 import UserManagement from "@/components/users/user-management";
+import CarrierGroups from "@/components/users/carrier-groups";
 import UserList from "@/components/users/user-list";
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
   const [filters, setFilters] = useState<LaneFilters>({});
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isBidSheetModalOpen, setIsBidSheetModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isBidsModalOpen, setIsBidsModalOpen] = useState(false);
   const [selectedLaneId, setSelectedLaneId] = useState<number | null>(null);
@@ -36,6 +43,9 @@ export default function Dashboard() {
     }
   }, [user, isUserLoading, setLocation]);
 
+  // Keep lane data live instead of waiting for the next refetch
+  useLaneEvents(!!user);
+
   const handleCreateLane = () => {
     setIsCreateModalOpen(true);
   };
@@ -62,6 +72,20 @@ export default function Dashboard() {
     return null;
   }
 
+  const isStaff = hasPermission(user, "bids:view");
+  const canManageLanes = hasPermission(user, "lanes:manage");
+
+  // Admins manage every user, forwarder admins the users of their own company.
+  // Whoever manages lanes keeps the carrier groups they invite.
+  const canManageUsers = hasPermission(user, "company_users:manage");
+  const userManagementSection = (canManageUsers || canManageLanes) && (
+    <div className="mb-6 space-y-6">
+      {canManageUsers && <UserManagement user={user} />}
+      {canManageLanes && <CarrierGroups />}
+      {canManageUsers && <UserList currentUser={user} />}
+    </div>
+  );
+
   return (
     <div className="flex h-screen overflow-hidden">
       <Sidebar user={user as User} />
@@ -92,7 +116,8 @@ export default function Dashboard() {
               <h1 className="text-lg font-semibold text-gray-900">Lane Management</h1>
             </div>
             
-            <div className="flex items-center">
+            <div className="flex items-center gap-4">
+              <NotificationBell />
               <div className="relative">
                 <input 
                   type="text" 
@@ -121,37 +146,45 @@ export default function Dashboard() {
 
         {/* Content based on role */}
         <div className="p-6">
-          {user.role === "admin" ? (
+          {isStaff ? (
             <div className="grid grid-cols-1 gap-6 mb-6">
-              {/* Admin Lane Management Section */}
+              {/* Staff Lane Management Section */}
               <div>
                 <div className="flex justify-between items-center mb-6">
-                  <h2 className="text-xl font-semibold text-gray-900">Manage Lanes</h2>
-                  <button 
-                    onClick={handleCreateLane}
-                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
-                  >
-                    <svg 
-                      className="h-5 w-5 mr-2" 
-                      fill="none" 
-                      viewBox="0 0 24 24" 
-                      stroke="currentColor"
-                    >
-                      <path 
-                        strokeLinecap="round" 
-                        strokeLinejoin="round" 
-                        strokeWidth={2} 
-                        d="M12 4v16m8-8H4" 
-                      />
-                    </svg>
-                    Create New Lane
-                  </button>
+                  <h2 className="text-xl font-semibold text-gray-900">{canManageLanes ? "Manage Lanes" : "Lanes"}</h2>
+                  {canManageLanes && (
+                    <div className="flex items-center gap-3">
+                      <button 
+                        onClick={() => setIsImportModalOpen(true)}
+                        className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
+                      >
+                        Import Lanes
+                      </button>
+                      <button 
+                        onClick={handleCreateLane}
+                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
+                      >
+                        <svg 
+                          className="h-5 w-5 mr-2" 
+                          fill="none" 
+                          viewBox="0 0 24 24" 
+                          stroke="currentColor"
+                        >
+                          <path 
+                            strokeLinecap="round" 
+                            strokeLinejoin="round" 
+                            strokeWidth={2} 
+                            d="M12 4v16m8-8H4" 
+                          />
+                        </svg>
+                        Create New Lane
+                      </button>
+                    </div>
+                  )}
                 </div>
                 
                 {/* User Management Section */}
-                <div className="mb-6">
-                  <UserManagement />
-                </div>
+                {userManagementSection}
                 
                 <LaneFiltersComponent 
                   onFilterChange={setFilters} 
@@ -160,6 +193,7 @@ export default function Dashboard() {
                 
                 <LaneTable 
                   filters={filters}
+                  canManage={canManageLanes}
                   onEdit={handleEditLane}
                   onViewBids={handleViewBids}
                 />
@@ -168,8 +202,16 @@ export default function Dashboard() {
           ) : (
             /* Forwarder View */
             <>
+              {userManagementSection}
+              
               <div className="flex justify-between items-center mb-6">
                 <h2 className="text-xl font-semibold text-gray-900">Available Lanes for Bidding</h2>
+                <button 
+                  onClick={() => setIsBidSheetModalOpen(true)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
+                >
+                  Bid Sheet Upload
+                </button>
               </div>
               
               <LaneFiltersComponent 
@@ -192,6 +234,16 @@ export default function Dashboard() {
         onClose={() => setIsCreateModalOpen(false)} 
       />
       
+      <ImportLanesModal 
+        isOpen={isImportModalOpen} 
+        onClose={() => setIsImportModalOpen(false)} 
+      />
+      
+      <BidSheetModal 
+        isOpen={isBidSheetModalOpen} 
+        onClose={() => setIsBidSheetModalOpen(false)} 
+      />
+      
       {selectedLaneId && (
         <>
           <EditLaneModal 
@@ -204,6 +256,8 @@ export default function Dashboard() {
             isOpen={isBidsModalOpen} 
             onClose={() => setIsBidsModalOpen(false)}
             laneId={selectedLaneId}
+            canManage={canManageLanes}
+            canAward={hasPermission(user, "lanes:award")}
           />
         </>
       )}
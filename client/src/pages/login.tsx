@@ -4,12 +4,15 @@ import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { login } from "@/lib/auth";
+import { login, requestPasswordReset, verifyTwoFactorLogin } from "@/lib/auth";
 import { queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import TotpCodeInput from "@/components/users/totp-code-input";
+import { User } from "@/lib/types";
 import bgLoginImage from "../assets/bg_login.jpg";
 
 const loginSchema = z.object({
@@ -19,8 +22,20 @@ const loginSchema = z.object({
 
 type LoginFormValues = z.infer<typeof loginSchema>;
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
 export default function Login() {
   const [isLoading, setIsLoading] = useState(false);
+  const [isForgotPasswordOpen, setIsForgotPasswordOpen] = useState(false);
+  const [isRequestingReset, setIsRequestingReset] = useState(false);
+  // Second step for users with two-factor authentication
+  const [isTwoFactorStep, setIsTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
@@ -32,17 +47,58 @@ export default function Login() {
     },
   });
 
+  const forgotPasswordForm = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  async function onForgotPasswordSubmit(data: ForgotPasswordFormValues) {
+    setIsRequestingReset(true);
+    
+    try {
+      await requestPasswordReset(data.email);
+      
+      toast({
+        title: "Check your email",
+        description: "If an account exists for this email, we have sent a link to reset your password.",
+      });
+      
+      forgotPasswordForm.reset();
+      setIsForgotPasswordOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to request a password reset",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRequestingReset(false);
+    }
+  }
+
+  // Users an admin requires to use 2FA set it up before anything else
+  function completeLogin(user: User) {
+    // Invalidate user query to refetch current user
+    queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+    
+    // Directly redirect without toast
+    setLocation(user.twoFactorEnrollmentRequired ? "/security" : "/dashboard");
+  }
+
   async function onSubmit(data: LoginFormValues) {
     setIsLoading(true);
     
     try {
-      await login(data.username, data.password);
+      const result = await login(data.username, data.password);
       
-      // Invalidate user query to refetch current user
-      queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+      if ("twoFactorRequired" in result) {
+        setIsTwoFactorStep(true);
+        return;
+      }
       
-      // Directly redirect to dashboard without toast
-      setLocation("/dashboard");
+      completeLogin(result);
     } catch (error) {
       console.error("Login error:", error);
       
@@ -56,6 +112,31 @@ export default function Login() {
     }
   }
 
+  async function onTwoFactorSubmit(code: string) {
+    setIsLoading(true);
+    
+    try {
+      completeLogin(await verifyTwoFactorLogin(code));
+    } catch (error) {
+      console.error("Two-factor error:", error);
+      setTwoFactorCode("");
+      
+      // Too many wrong codes end the attempt; the password has to be entered again
+      if (error instanceof Error && error.message.includes("sign in again")) {
+        setIsTwoFactorStep(false);
+        form.resetField("password");
+      }
+      
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Invalid code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
   return (
     <div 
       className="flex items-center justify-center min-h-screen"
@@ -74,62 +155,151 @@ export default function Login() {
             Logistics and freight management platform
           </CardDescription>
           <div className="pt-2">
-            <p className="text-sm text-center text-gray-500">Enter your credentials to sign in</p>
+            <p className="text-sm text-center text-gray-500">
+              {!isTwoFactorStep
+                ? "Enter your credentials to sign in"
+                : useRecoveryCode
+                  ? "Enter one of your recovery codes"
+                  : "Enter the 6-digit code from your authenticator app"}
+            </p>
           </div>
         </CardHeader>
         <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter your username" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <FormControl>
-                      <Input type="password" placeholder="Enter your password" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+          {isTwoFactorStep ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                onTwoFactorSubmit(twoFactorCode);
+              }}
+              className="space-y-4"
+            >
+              <div className="flex justify-center">
+                {useRecoveryCode ? (
+                  <Input
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    placeholder="xxxxx-xxxxx"
+                    autoFocus
+                  />
+                ) : (
+                  <TotpCodeInput
+                    value={twoFactorCode}
+                    onChange={setTwoFactorCode}
+                    onComplete={onTwoFactorSubmit}
+                    disabled={isLoading}
+                  />
                 )}
-              />
+              </div>
               
               <Button 
                 type="submit" 
                 className="w-full bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800 text-white" 
-                disabled={isLoading}
+                disabled={isLoading || !twoFactorCode}
               >
-                {isLoading ? "Signing in..." : "Sign In"}
+                {isLoading ? "Verifying..." : "Verify"}
               </Button>
+              
+              <div className="text-sm text-center">
+                <a
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setTwoFactorCode("");
+                  }}
+                  className="font-medium text-blue-600 hover:text-blue-800 cursor-pointer"
+                >
+                  {useRecoveryCode ? "Use your authenticator app instead" : "Use a recovery code instead"}
+                </a>
+              </div>
             </form>
-          </Form>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter your username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Enter your password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              
+                <Button 
+                  type="submit" 
+                  className="w-full bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800 text-white" 
+                  disabled={isLoading}
+                >
+                  {isLoading ? "Signing in..." : "Sign In"}
+                </Button>
+              </form>
+            </Form>
+          )}
         </CardContent>
         <CardFooter className="justify-center">
           <div className="text-sm text-center text-gray-500">
-            Don't have an account?{" "}
             <a 
-              onClick={() => setLocation("/register")}
+              onClick={() => setIsForgotPasswordOpen(true)}
               className="font-medium text-blue-600 hover:text-blue-800 cursor-pointer"
             >
-              Register
+              Forgot your password?
             </a>
           </div>
         </CardFooter>
       </Card>
+      
+      <Dialog open={isForgotPasswordOpen} onOpenChange={setIsForgotPasswordOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Reset your password</DialogTitle>
+            <DialogDescription>
+              Enter the email address of your account and we will send you a link to choose a new password.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...forgotPasswordForm}>
+            <form onSubmit={forgotPasswordForm.handleSubmit(onForgotPasswordSubmit)} className="space-y-4">
+              <FormField
+                control={forgotPasswordForm.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="you@company.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsForgotPasswordOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isRequestingReset}>
+                  {isRequestingReset ? "Sending..." : "Send Reset Link"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { NotificationPreferences, User } from "@/lib/types";
+import { getCurrentUser } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Sidebar from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+// Reminder lead times offered by the server, in minutes
+const closingReminderOptions = [
+  { minutes: 1440, label: "24 hours before" },
+  { minutes: 60, label: "1 hour before" },
+  { minutes: 15, label: "15 minutes before" },
+];
+
+interface ChannelSwitchesProps {
+  id: string;
+  inApp: boolean;
+  email: boolean;
+  onChange: (channels: { inApp: boolean; email: boolean }) => void;
+}
+
+function ChannelSwitches({ id, inApp, email, onChange }: ChannelSwitchesProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${id}-in-app`}>In the app</Label>
+        <Switch id={`${id}-in-app`} checked={inApp} onCheckedChange={(checked) => onChange({ inApp: checked, email })} />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${id}-email`}>By email</Label>
+        <Switch id={`${id}-email`} checked={email} onCheckedChange={(checked) => onChange({ inApp, email: checked })} />
+      </div>
+    </div>
+  );
+}
+
+// How a forwarder hears about being outbid and about lanes they bid on closing
+export default function NotificationSettings() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+
+  // Query for the current user
+  const { data: user, isLoading: isUserLoading } = useQuery({
+    queryKey: ["/api/me"],
+    queryFn: getCurrentUser,
+    refetchOnWindowFocus: true,
+  });
+
+  const { data: savedPreferences } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/user/notification-preferences"],
+    enabled: !!user,
+  });
+
+  // Redirect to login if no user is found
+  useEffect(() => {
+    if (!isUserLoading && !user) {
+      setLocation("/login");
+    }
+  }, [user, isUserLoading, setLocation]);
+
+  // Edit a copy so nothing changes until the user saves
+  useEffect(() => {
+    if (savedPreferences) {
+      setPreferences(savedPreferences);
+    }
+  }, [savedPreferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: NotificationPreferences) => {
+      const response = await apiRequest("PUT", "/api/user/notification-preferences", values);
+      return response.json() as Promise<NotificationPreferences>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/user/notification-preferences"], data);
+      toast({
+        title: "Preferences saved",
+        description: "Your notification settings have been updated",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save preferences",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleReminder = (minutes: number, checked: boolean) => {
+    setPreferences(prev => prev && {
+      ...prev,
+      closingReminderMinutes: checked
+        ? [...prev.closingReminderMinutes, minutes]
+        : prev.closingReminderMinutes.filter(existing => existing !== minutes),
+    });
+  };
+
+  if (isUserLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar user={user as User} />
+
+      <div className="flex-1 overflow-auto">
+        <header className="bg-white shadow-sm">
+          <div className="px-6 py-4">
+            <h1 className="text-lg font-semibold text-gray-900">Notifications</h1>
+          </div>
+        </header>
+
+        {preferences && (
+          <div className="p-6 max-w-2xl space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Outbid Alerts</CardTitle>
+                <CardDescription>
+                  When another forwarder undercuts your bid on an open auction
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChannelSwitches
+                  id="outbid"
+                  inApp={preferences.outbidInApp}
+                  email={preferences.outbidEmail}
+                  onChange={({ inApp, email }) => setPreferences({ ...preferences, outbidInApp: inApp, outbidEmail: email })}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Closing Reminders</CardTitle>
+                <CardDescription>
+                  Before bidding closes on a lane you have bid on
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <ChannelSwitches
+                  id="closing"
+                  inApp={preferences.closingInApp}
+                  email={preferences.closingEmail}
+                  onChange={({ inApp, email }) => setPreferences({ ...preferences, closingInApp: inApp, closingEmail: email })}
+                />
+                <div className="space-y-3">
+                  <p className="text-sm font-medium text-gray-700">Remind me</p>
+                  {closingReminderOptions.map(option => (
+                    <div key={option.minutes} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`reminder-${option.minutes}`}
+                        checked={preferences.closingReminderMinutes.includes(option.minutes)}
+                        onCheckedChange={(checked) => toggleReminder(option.minutes, checked === true)}
+                      />
+                      <Label htmlFor={`reminder-${option.minutes}`} className="font-normal">{option.label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Button onClick={() => saveMutation.mutate(preferences)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,13 +10,16 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import CompanySelect from "@/components/users/company-select";
 
 const registerSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .regex(/(?=.*[a-zA-Z])(?=.*[0-9])/, "Password must contain both letters and numbers"),
   confirmPassword: z.string().min(1, "Please confirm your password"),
-  companyName: z.string().min(1, "Company name is required"),
+  email: z.string().email("Please enter a valid email address"),
+  companyId: z.number({ required_error: "Company is required" }),
   // Role is always 'forwarder' when created by admin
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords do not match",
@@ -36,7 +39,7 @@ export default function Register() {
       username: "",
       password: "",
       confirmPassword: "",
-      companyName: "",
+      email: "",
       // Role field removed as it's always forwarder
     },
   });
@@ -51,7 +54,8 @@ export default function Register() {
       await registerUser(
         registerData.username,
         registerData.password,
-        registerData.companyName,
+        registerData.email,
+        registerData.companyId,
         "forwarder" // Role is always forwarder when created by admin
       );
       
@@ -134,12 +138,26 @@ export default function Register() {
               
               <FormField
                 control={form.control}
-                name="companyName"
+                name="email"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Company Name</FormLabel>
+                    <FormLabel>Email</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter your company name" {...field} />
+                      <Input type="email" placeholder="Enter an email address" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="companyId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Company</FormLabel>
+                    <FormControl>
+                      <CompanySelect value={field.value} onChange={field.onChange} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useForm } from "react-hook-form";
+import { useToast } from "@/hooks/use-toast";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { resetPassword } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+const resetPasswordSchema = z.object({
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .regex(/(?=.*[a-zA-Z])(?=.*[0-9])/, "Password must contain both letters and numbers"),
+  confirmPassword: z.string().min(1, "Please confirm your password"),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+// Landing page for the link in a password reset email
+export default function ResetPassword() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const { toast } = useToast();
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  async function onSubmit(data: ResetPasswordFormValues) {
+    setIsLoading(true);
+
+    try {
+      await resetPassword(token, data.password);
+
+      toast({
+        title: "Password reset",
+        description: "You can now sign in with your new password.",
+      });
+
+      setLocation("/login");
+    } catch (error) {
+      console.error("Password reset error:", error);
+
+      toast({
+        title: "Password reset failed",
+        description: error instanceof Error ? error.message : "This reset link is invalid or has expired",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Reset Password</CardTitle>
+          <CardDescription className="text-center">
+            Choose a new password for your account
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-center text-sm text-gray-500">
+              This reset link is incomplete. Please use the full link from your email or request a new one.
+            </p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Enter a new password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Confirm your new password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? "Saving..." : "Reset Password"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+        <CardFooter className="justify-center">
+          <div className="text-sm text-center text-gray-500">
+            Remembered it?{" "}
+            <a
+              onClick={() => setLocation("/login")}
+              className="text-primary hover:underline cursor-pointer"
+            >
+              Sign in
+            </a>
+          </div>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { TwoFactorEnrollment, User } from "@/lib/types";
+import { getCurrentUser } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Sidebar from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import TotpCodeInput from "@/components/users/totp-code-input";
+import { ShieldAlertIcon } from "lucide-react";
+
+// Account security: set up or turn off two-factor authentication
+export default function Security() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  // Query for the current user
+  const { data: user, isLoading: isUserLoading } = useQuery({
+    queryKey: ["/api/me"],
+    queryFn: getCurrentUser,
+    refetchOnWindowFocus: true,
+  });
+
+  // Redirect to login if no user is found
+  useEffect(() => {
+    if (!isUserLoading && !user) {
+      setLocation("/login");
+    }
+  }, [user, isUserLoading, setLocation]);
+
+  const onError = (error: unknown) => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/two-factor/setup");
+      return response.json() as Promise<TwoFactorEnrollment>;
+    },
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (enableCode: string) => {
+      const response = await apiRequest("POST", "/api/two-factor/enable", { code: enableCode });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You will be asked for a code each time you sign in",
+      });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (disableCode: string) => apiRequest("POST", "/api/two-factor/disable", { code: disableCode }),
+    onSuccess: () => {
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "You will only need your password to sign in",
+      });
+    },
+    onError,
+  });
+
+  if (isUserLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar user={user as User} />
+
+      <div className="flex-1 overflow-auto">
+        <header className="bg-white shadow-sm">
+          <div className="px-6 py-4">
+            <h1 className="text-lg font-semibold text-gray-900">Security</h1>
+          </div>
+        </header>
+
+        <div className="p-6 max-w-2xl space-y-6">
+          {user.twoFactorEnrollmentRequired && (
+            <Alert variant="destructive">
+              <ShieldAlertIcon className="h-4 w-4" />
+              <AlertTitle>Two-factor authentication required</AlertTitle>
+              <AlertDescription>
+                Your administrator requires two-factor authentication. Set it up to continue using Procurement 2.0.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Two-Factor Authentication</CardTitle>
+                  <CardDescription>
+                    Ask for a code from an authenticator app in addition to your password when signing in
+                  </CardDescription>
+                </div>
+                <Badge variant={user.totpEnabled ? "default" : "outline"}>
+                  {user.totpEnabled ? "Enabled" : "Disabled"}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {recoveryCodes && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-4 space-y-3">
+                  <p className="text-sm text-amber-800">
+                    Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose access to your authenticator app. They will not be shown again.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                    {recoveryCodes.map(recoveryCode => (
+                      <span key={recoveryCode}>{recoveryCode}</span>
+                    ))}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+                    I have saved my codes
+                  </Button>
+                </div>
+              )}
+
+              {!user.totpEnabled && !enrollment && (
+                <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+                  {setupMutation.isPending ? "Starting..." : "Set Up Two-Factor Authentication"}
+                </Button>
+              )}
+
+              {!user.totpEnabled && enrollment && (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+                  </p>
+                  <img src={enrollment.qrCode} alt="Two-factor QR code" className="h-48 w-48 border rounded" />
+                  <p className="text-xs text-gray-500">
+                    Can't scan it? Enter this key manually: <span className="font-mono">{enrollment.secret}</span>
+                  </p>
+                  <TotpCodeInput
+                    value={code}
+                    onChange={setCode}
+                    onComplete={(value) => enableMutation.mutate(value)}
+                    disabled={enableMutation.isPending}
+                  />
+                  <Button onClick={() => enableMutation.mutate(code)} disabled={enableMutation.isPending || code.length !== 6}>
+                    {enableMutation.isPending ? "Verifying..." : "Enable"}
+                  </Button>
+                </div>
+              )}
+
+              {user.totpEnabled && (
+                user.totpRequired ? (
+                  <p className="text-sm text-gray-500">
+                    Your administrator requires two-factor authentication, so it cannot be turned off.
+                  </p>
+                ) : (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      disableMutation.mutate(code);
+                    }}
+                    className="flex items-end gap-3"
+                  >
+                    <div className="flex-1">
+                      <label htmlFor="disable-two-factor-code" className="block text-sm font-medium text-gray-700">
+                        Authenticator or recovery code
+                      </label>
+                      <Input
+                        id="disable-two-factor-code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        className="mt-1"
+                      />
+                    </div>
+                    <Button type="submit" variant="outline" disabled={disableMutation.isPending || !code}>
+                      {disableMutation.isPending ? "Disabling..." : "Disable"}
+                    </Button>
+                  </form>
+                )
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
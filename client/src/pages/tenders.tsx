@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Tender, User } from "@/lib/types";
+import { getCurrentUser, hasPermission } from "@/lib/auth";
+import { useLaneEvents } from "@/hooks/use-lane-events";
+import Sidebar from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import TenderCard from "@/components/tenders/tender-card";
+import TenderModal from "@/components/tenders/tender-modal";
+import { PlusCircle } from "lucide-react";
+
+export default function Tenders() {
+  const [, setLocation] = useLocation();
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+
+  // Query for the current user
+  const { data: user, isLoading: isUserLoading } = useQuery({
+    queryKey: ["/api/me"],
+    queryFn: getCurrentUser,
+    refetchOnWindowFocus: true,
+  });
+
+  // Redirect to login if no user is found
+  useEffect(() => {
+    if (!isUserLoading && !user) {
+      setLocation("/login");
+    }
+  }, [user, isUserLoading, setLocation]);
+
+  useLaneEvents(!!user);
+
+  const { data: tenders, isLoading, error } = useQuery<Tender[]>({
+    queryKey: ["/api/tenders"],
+    enabled: !!user,
+  });
+
+  if (isUserLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const isStaff = hasPermission(user, "bids:view");
+  const canManage = hasPermission(user, "lanes:manage");
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar user={user as User} />
+
+      <div className="flex-1 overflow-auto">
+        <header className="bg-white shadow-sm">
+          <div className="px-6 py-4">
+            <h1 className="text-lg font-semibold text-gray-900">Tenders</h1>
+          </div>
+        </header>
+
+        <div className="p-6 space-y-6">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">
+              {isStaff ? "Tender Events" : "Tenders You Are Invited To"}
+            </h2>
+            {canManage && (
+              <Button onClick={() => setIsCreateModalOpen(true)} className="flex items-center gap-1">
+                <PlusCircle className="h-4 w-4" />
+                <span>Create New Tender</span>
+              </Button>
+            )}
+          </div>
+
+          {error ? (
+            <Card className="p-6">
+              <div className="text-center py-8">
+                <p className="text-red-500">Error loading tenders. Please try again.</p>
+              </div>
+            </Card>
+          ) : isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-40 w-full" />
+              <Skeleton className="h-40 w-full" />
+            </div>
+          ) : tenders && tenders.length > 0 ? (
+            <div className="space-y-4">
+              {tenders.map(tender => (
+                <TenderCard key={tender.id} tender={tender} canManage={canManage} />
+              ))}
+            </div>
+          ) : (
+            <Card className="p-6">
+              <div className="text-center py-8">
+                <p className="text-gray-500">
+                  {isStaff ? "No tenders have been created yet." : "You have not been invited to any tenders yet."}
+                </p>
+              </div>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {canManage && (
+        <TenderModal
+          isOpen={isCreateModalOpen}
+          onClose={() => setIsCreateModalOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+CREATE TYPE "public"."auction_type" AS ENUM('open', 'sealed');--> statement-breakpoint
+CREATE TYPE "public"."bid_visibility" AS ENUM('full_price', 'rank', 'traffic_light');--> statement-breakpoint
+CREATE TYPE "public"."decrement_type" AS ENUM('absolute', 'percent');--> statement-breakpoint
+CREATE TYPE "public"."role" AS ENUM('admin', 'tender_manager', 'approver', 'analyst', 'forwarder_admin', 'forwarder');--> statement-breakpoint
+CREATE TYPE "public"."status" AS ENUM('active', 'archived', 'ending_soon', 'closed', 'awarded');--> statement-breakpoint
+CREATE TYPE "public"."vehicle_type" AS ENUM('40t', '12t', 'van');--> statement-breakpoint
+CREATE TYPE "public"."volume_period" AS ENUM('week', 'month');--> statement-breakpoint
+CREATE TABLE "audit_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" integer,
+	"actor_username" text,
+	"action" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" integer,
+	"before" jsonb,
+	"after" jsonb,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "awards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lane_id" integer NOT NULL,
+	"bid_id" integer NOT NULL,
+	"share_percent" numeric(5, 2) NOT NULL,
+	"share_loads" integer,
+	"reason" text,
+	"awarded_by" integer NOT NULL,
+	"awarded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "bids" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lane_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"company_id" integer NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"comment" text,
+	"round" integer DEFAULT 1 NOT NULL,
+	"carried_over" boolean DEFAULT false NOT NULL,
+	"is_proxy" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "companies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"normalized_name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "companies_normalized_name_unique" UNIQUE("normalized_name")
+);
+--> statement-breakpoint
+CREATE TABLE "lane_round_participants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lane_id" integer NOT NULL,
+	"round" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"invited_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "lane_status_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lane_id" integer NOT NULL,
+	"from_status" "status" NOT NULL,
+	"to_status" "status" NOT NULL,
+	"changed_by" integer,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "lanes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"bid_name" text NOT NULL,
+	"status" "status" DEFAULT 'active' NOT NULL,
+	"auction_type" "auction_type" DEFAULT 'open' NOT NULL,
+	"vehicle_type" "vehicle_type" NOT NULL,
+	"loading_location" text NOT NULL,
+	"unloading_location" text NOT NULL,
+	"expected_volume" integer,
+	"volume_period" "volume_period",
+	"valid_from" timestamp NOT NULL,
+	"valid_until" timestamp NOT NULL,
+	"extension_window_minutes" integer,
+	"extension_minutes" integer,
+	"max_extensions" integer,
+	"extension_count" integer DEFAULT 0 NOT NULL,
+	"bids_opened_at" timestamp,
+	"current_round" integer DEFAULT 1 NOT NULL,
+	"min_decrement" numeric(10, 2),
+	"decrement_type" "decrement_type" DEFAULT 'absolute' NOT NULL,
+	"ceiling_price" numeric(10, 2),
+	"must_improve_own_bid" boolean DEFAULT false NOT NULL,
+	"one_bid_per_company" boolean DEFAULT false NOT NULL,
+	"bid_visibility" "bid_visibility" DEFAULT 'full_price' NOT NULL,
+	"traffic_light_percent" integer DEFAULT 5 NOT NULL,
+	"tender_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "password_reset_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "password_reset_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "proxy_bids" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lane_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"round" integer NOT NULL,
+	"floor_amount" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "tender_forwarders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tender_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"invited_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tenders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"auction_type" "auction_type" DEFAULT 'open' NOT NULL,
+	"valid_from" timestamp NOT NULL,
+	"valid_until" timestamp NOT NULL,
+	"extension_window_minutes" integer,
+	"extension_minutes" integer,
+	"max_extensions" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_invitations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"email" text NOT NULL,
+	"company_id" integer NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"accepted_at" timestamp,
+	"invited_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_invitations_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"email" text NOT NULL,
+	"company_id" integer NOT NULL,
+	"role" "role" DEFAULT 'forwarder' NOT NULL,
+	"totp_secret" text,
+	"totp_enabled" boolean DEFAULT false NOT NULL,
+	"totp_recovery_codes" text[] DEFAULT '{}' NOT NULL,
+	"totp_required" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "awards" ADD CONSTRAINT "awards_lane_id_lanes_id_fk" FOREIGN KEY ("lane_id") REFERENCES "public"."lanes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "awards" ADD CONSTRAINT "awards_bid_id_bids_id_fk" FOREIGN KEY ("bid_id") REFERENCES "public"."bids"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "awards" ADD CONSTRAINT "awards_awarded_by_users_id_fk" FOREIGN KEY ("awarded_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bids" ADD CONSTRAINT "bids_lane_id_lanes_id_fk" FOREIGN KEY ("lane_id") REFERENCES "public"."lanes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bids" ADD CONSTRAINT "bids_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bids" ADD CONSTRAINT "bids_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lane_round_participants" ADD CONSTRAINT "lane_round_participants_lane_id_lanes_id_fk" FOREIGN KEY ("lane_id") REFERENCES "public"."lanes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lane_round_participants" ADD CONSTRAINT "lane_round_participants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lane_status_changes" ADD CONSTRAINT "lane_status_changes_lane_id_lanes_id_fk" FOREIGN KEY ("lane_id") REFERENCES "public"."lanes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lane_status_changes" ADD CONSTRAINT "lane_status_changes_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lanes" ADD CONSTRAINT "lanes_tender_id_tenders_id_fk" FOREIGN KEY ("tender_id") REFERENCES "public"."tenders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lanes" ADD CONSTRAINT "lanes_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "proxy_bids" ADD CONSTRAINT "proxy_bids_lane_id_lanes_id_fk" FOREIGN KEY ("lane_id") REFERENCES "public"."lanes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "proxy_bids" ADD CONSTRAINT "proxy_bids_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tender_forwarders" ADD CONSTRAINT "tender_forwarders_tender_id_tenders_id_fk" FOREIGN KEY ("tender_id") REFERENCES "public"."tenders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tender_forwarders" ADD CONSTRAINT "tender_forwarders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenders" ADD CONSTRAINT "tenders_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_logs_entity_idx" ON "audit_logs" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_logs_created_at_idx" ON "audit_logs" USING btree ("created_at");--> statement-breakpoint
+CREATE FUNCTION "prevent_audit_log_change"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "audit_logs_append_only" BEFORE UPDATE OR DELETE ON "audit_logs" FOR EACH ROW EXECUTE FUNCTION "prevent_audit_log_change"();
@@ -0,0 +1,21 @@
+CREATE TABLE "closing_reminders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lane_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"minutes_before" integer NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notification_preferences" (
+	"user_id" integer PRIMARY KEY NOT NULL,
+	"outbid_in_app" boolean DEFAULT true NOT NULL,
+	"outbid_email" boolean DEFAULT false NOT NULL,
+	"closing_in_app" boolean DEFAULT true NOT NULL,
+	"closing_email" boolean DEFAULT false NOT NULL,
+	"closing_reminder_minutes" integer[] DEFAULT '{60,15}' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "closing_reminders" ADD CONSTRAINT "closing_reminders_lane_id_lanes_id_fk" FOREIGN KEY ("lane_id") REFERENCES "public"."lanes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "closing_reminders" ADD CONSTRAINT "closing_reminders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
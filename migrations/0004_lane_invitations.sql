@@ -0,0 +1,12 @@
+CREATE TABLE "lane_invitations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"lane_id" integer NOT NULL,
+	"user_id" integer,
+	"company_id" integer,
+	"invited_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lane_invitations" ADD CONSTRAINT "lane_invitations_lane_id_lanes_id_fk" FOREIGN KEY ("lane_id") REFERENCES "public"."lanes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lane_invitations" ADD CONSTRAINT "lane_invitations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lane_invitations" ADD CONSTRAINT "lane_invitations_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lane_invitations_lane_idx" ON "lane_invitations" USING btree ("lane_id");
\ No newline at end of file
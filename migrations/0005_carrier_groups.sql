@@ -0,0 +1,22 @@
+CREATE TABLE "carrier_group_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "carrier_groups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" integer NOT NULL,
+	CONSTRAINT "carrier_groups_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "lane_invitations" ADD COLUMN "group_id" integer;--> statement-breakpoint
+ALTER TABLE "carrier_group_members" ADD CONSTRAINT "carrier_group_members_group_id_carrier_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."carrier_groups"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "carrier_group_members" ADD CONSTRAINT "carrier_group_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "carrier_groups" ADD CONSTRAINT "carrier_groups_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "carrier_group_members_group_idx" ON "carrier_group_members" USING btree ("group_id");--> statement-breakpoint
+ALTER TABLE "lane_invitations" ADD CONSTRAINT "lane_invitations_group_id_carrier_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."carrier_groups"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- Invitation and password reset links carry single-use tokens, which are only
+-- stored hashed. Redact them from emails that have already left the outbox.
+UPDATE "email_outbox" SET "text" = '[redacted]', "html" = '[redacted]'
+WHERE "template" IN ('invitation', 'password_reset') AND "status" <> 'pending';
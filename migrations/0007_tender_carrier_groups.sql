@@ -0,0 +1,9 @@
+CREATE TABLE "tender_carrier_groups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tender_id" integer NOT NULL,
+	"group_id" integer NOT NULL,
+	"invited_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tender_carrier_groups" ADD CONSTRAINT "tender_carrier_groups_tender_id_tenders_id_fk" FOREIGN KEY ("tender_id") REFERENCES "public"."tenders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tender_carrier_groups" ADD CONSTRAINT "tender_carrier_groups_group_id_carrier_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."carrier_groups"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- Proxy bid floors are hidden from everyone but their owner. Remove them from
+-- audit entries written before they were redacted.
+UPDATE "audit_logs" SET "before" = "before" - 'floorAmount', "after" = "after" - 'floorAmount'
+WHERE "entity_type" = 'proxy_bid';
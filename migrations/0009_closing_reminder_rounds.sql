@@ -0,0 +1,3 @@
+ALTER TABLE "closing_reminders" ADD COLUMN "round" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+-- Reminders sent before rounds were recorded count for the round the lane is in
+UPDATE "closing_reminders" SET "round" = "lanes"."current_round" FROM "lanes" WHERE "lanes"."id" = "closing_reminders"."lane_id";
@@ -0,0 +1,212 @@
+import {
+  Bid, Lane, InsertClosingReminder, InsertNotificationPreferences,
+  CLOSING_REMINDER_OPTIONS, NOTIFICATION_PREFERENCE_DEFAULTS
+} from "@shared/schema";
+import { storage } from "./storage";
+import { queueEmail } from "./email";
+import { OPEN_LANE_STATUSES } from "./auction";
+import { notifyUsers } from "./notifications";
+import { log } from "./vite";
+
+const MINUTE = 60 * 1000;
+
+type Alert =
+  | { kind: 'outbid'; lane: Lane; bid: Bid }
+  | { kind: 'lane_closing'; lane: Lane; minutesLeft: number };
+
+export async function getNotificationPreferences(userId: number): Promise<InsertNotificationPreferences> {
+  return await storage.getNotificationPreferences(userId) ?? NOTIFICATION_PREFERENCE_DEFAULTS;
+}
+
+// "2 hours", "15 minutes"
+function formatMinutes(minutes: number): string {
+  if (minutes >= 60 && minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// Alerts one forwarder in the notification center, by email or both, as
+// their preferences say
+async function sendAlert(userId: number, alert: Alert) {
+  const user = await storage.getUser(userId);
+
+  if (!user) {
+    return;
+  }
+
+  const preferences = await getNotificationPreferences(userId);
+  const { lane } = alert;
+
+  if (alert.kind === 'outbid') {
+    if (preferences.outbidInApp) {
+      await notifyUsers([userId], {
+        type: 'outbid',
+        laneId: lane.id,
+        title: 'You have been outbid',
+        message: `Your bid on ${lane.bidName} is no longer the lowest.`
+      });
+    }
+
+    if (preferences.outbidEmail) {
+      await queueEmail(user.email, 'outbid', { lane, bid: alert.bid });
+    }
+    return;
+  }
+
+  if (preferences.closingInApp) {
+    await notifyUsers([userId], {
+      type: 'lane_closing',
+      laneId: lane.id,
+      title: 'Lane closing soon',
+      message: `Bidding on ${lane.bidName} closes in ${formatMinutes(alert.minutesLeft)}.`
+    });
+  }
+
+  if (preferences.closingEmail) {
+    await queueEmail(user.email, 'lane_closing', { lane });
+  }
+}
+
+// The lowest bid in the lane's current round; the earlier bid wins a tie
+export async function getLaneLeader(laneId: number): Promise<Bid | undefined> {
+  const lane = await storage.getLane(laneId);
+
+  if (!lane) {
+    return undefined;
+  }
+
+  return (await storage.getBidsByLane(laneId))
+    .filter(bid => bid.round === lane.currentRound)
+    .sort((a, b) => parseFloat(a.amount) - parseFloat(b.amount) || a.createdAt.getTime() - b.createdAt.getTime())[0];
+}
+
+// Forwarders who led the round at some point while `newBids` were placed, in
+// order, and no longer do. The bids they led with are returned.
+function getOutbidLeads(previousLeader: Bid | undefined, newBids: Bid[]): Bid[] {
+  const lostLeads = new Map<number, Bid>();
+  let leader = previousLeader;
+
+  for (const bid of newBids) {
+    if (leader && parseFloat(bid.amount) >= parseFloat(leader.amount)) {
+      continue;
+    }
+
+    if (leader && leader.userId !== bid.userId) {
+      lostLeads.set(leader.userId, leader);
+    }
+    leader = bid;
+  }
+
+  if (leader) {
+    lostLeads.delete(leader.userId);
+  }
+
+  return Array.from(lostLeads.values());
+}
+
+async function sendOutbidAlerts(laneId: number, previousLeader: Bid | undefined, newBids: Bid[]) {
+  const lane = await storage.getLane(laneId);
+
+  // Sealed bids are secret, so nobody can be told they were beaten
+  if (!lane || lane.auctionType !== 'open') {
+    return;
+  }
+
+  const roundBids = newBids.filter(bid => bid.laneId === laneId && bid.round === lane.currentRound);
+
+  for (const bid of getOutbidLeads(previousLeader, roundBids)) {
+    await sendAlert(bid.userId, { kind: 'outbid', lane, bid });
+  }
+}
+
+// Tells forwarders who lost the lead on an open lane. `previousLeader` is the
+// lane's leader from before `newBids`, which include any proxy responses.
+// Runs in the background like lane broadcasts.
+export function alertOutbidForwarders(laneId: number, previousLeader: Bid | undefined, newBids: Bid[]) {
+  sendOutbidAlerts(laneId, previousLeader, newBids).catch(error => {
+    console.error(`Failed to send outbid alerts for lane ${laneId}:`, error);
+  });
+}
+
+// Everyone who has bid in the lane's current round
+async function getRoundBidderIds(lane: Lane): Promise<number[]> {
+  return Array.from(new Set((await storage.getBidsByLane(lane.id))
+    .filter(bid => bid.round === lane.currentRound)
+    .map(bid => bid.userId)));
+}
+
+async function sendExtensionNotices(laneId: number) {
+  const lane = await storage.getLane(laneId);
+
+  if (!lane) {
+    return;
+  }
+
+  await notifyUsers(await getRoundBidderIds(lane), {
+    type: 'lane_extended',
+    laneId,
+    title: 'Lane extended',
+    message: `A late bid extended bidding on ${lane.bidName} until ${new Date(lane.validUntil).toLocaleString()}.`
+  });
+}
+
+// Tells a lane's bidders that anti-sniping moved its deadline. Runs in the
+// background like lane broadcasts.
+export function alertLaneExtended(laneId: number) {
+  sendExtensionNotices(laneId).catch(error => {
+    console.error(`Failed to send extension notices for lane ${laneId}:`, error);
+  });
+}
+
+// Reminds everyone who has bid in an open lane's current round that it is
+// about to close, at the lead times they chose. Each reminder goes out once;
+// when several fall due together only the closest one is sent.
+export async function runClosingReminders(now: Date = new Date()) {
+  const maxLeadMinutes = Math.max(...CLOSING_REMINDER_OPTIONS);
+
+  for (const lane of await storage.getLanesByStatus(OPEN_LANE_STATUSES)) {
+    const minutesLeft = Math.ceil((new Date(lane.validUntil).getTime() - now.getTime()) / MINUTE);
+
+    if (minutesLeft <= 0 || minutesLeft > maxLeadMinutes) {
+      continue;
+    }
+
+    const bidderIds = await getRoundBidderIds(lane);
+
+    if (bidderIds.length === 0) {
+      continue;
+    }
+
+    // A new round starts the reminders over
+    const sentReminders = await storage.getClosingReminders(lane.id, lane.currentRound);
+    const newReminders: InsertClosingReminder[] = [];
+
+    for (const userId of bidderIds) {
+      const preferences = await getNotificationPreferences(userId);
+
+      if (!preferences.closingInApp && !preferences.closingEmail) {
+        continue;
+      }
+
+      const dueMinutes = preferences.closingReminderMinutes.filter(minutesBefore =>
+        minutesLeft <= minutesBefore &&
+        !sentReminders.some(reminder => reminder.userId === userId && reminder.minutesBefore === minutesBefore)
+      );
+
+      if (dueMinutes.length === 0) {
+        continue;
+      }
+
+      await sendAlert(userId, { kind: 'lane_closing', lane, minutesLeft });
+      newReminders.push(...dueMinutes.map(minutesBefore => ({ laneId: lane.id, round: lane.currentRound, userId, minutesBefore })));
+    }
+
+    if (newReminders.length > 0) {
+      await storage.createClosingReminders(newReminders);
+      log(`Sent closing reminders for lane ${lane.id}`, "scheduler");
+    }
+  }
+}
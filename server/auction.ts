@@ -0,0 +1,196 @@
+import { AwardShare, Bid, BidFeedback, Lane, LaneStatus, LaneWithBids, TrafficLight } from "@shared/schema";
+import { hasPermission } from "./permissions";
+
+const MINUTE = 60 * 1000;
+
+// Lanes move to ending_soon this many minutes before validUntil
+const ENDING_SOON_MINUTES = parseInt(process.env.LANE_ENDING_SOON_MINUTES || '60');
+
+// Statuses the scheduler manages; archived and closed lanes are left alone
+export const OPEN_LANE_STATUSES: LaneStatus[] = ['active', 'ending_soon'];
+
+// Returns the status a lane should have at `now` based on its timing
+export function getScheduledLaneStatus(lane: Lane, now: Date = new Date()): LaneStatus {
+  if (!OPEN_LANE_STATUSES.includes(lane.status)) {
+    return lane.status;
+  }
+
+  const remaining = new Date(lane.validUntil).getTime() - now.getTime();
+
+  if (remaining <= 0) {
+    return 'closed';
+  }
+
+  return remaining <= ENDING_SOON_MINUTES * MINUTE ? 'ending_soon' : 'active';
+}
+
+// A lane is closed once it leaves the open statuses or its deadline has passed
+export function isLaneClosed(lane: Lane, now: Date = new Date()): boolean {
+  return !OPEN_LANE_STATUSES.includes(lane.status) || now >= new Date(lane.validUntil);
+}
+
+// Hides the competitive picture of sealed lanes: forwarders see neither the
+// minimum nor the bid count until the lane closes, staff who may view bids see
+// the count but not the minimum until the bids have been opened
+export function redactSealedLane<T extends LaneWithBids>(lane: T, role: string | undefined, now: Date = new Date()): T {
+  if (lane.auctionType !== 'sealed') {
+    return lane;
+  }
+
+  if (hasPermission(role, 'bids:view')) {
+    return lane.bidsOpenedAt ? lane : { ...lane, minBid: undefined };
+  }
+
+  return isLaneClosed(lane, now) ? lane : { ...lane, minBid: undefined, bidCount: undefined };
+}
+
+// Ranks the forwarder's best bid among the round's bids. The lane's visibility
+// mode decides how much of that is shared: everything, the rank, or a traffic
+// light. Returns undefined when the forwarder has not bid in the round.
+export function getBidFeedback(lane: Lane, roundBids: Bid[], userId: number): BidFeedback | undefined {
+  const ranked = getBestBidPerForwarder(roundBids);
+  const ownBid = ranked.find(bid => bid.userId === userId);
+
+  if (!ownBid) {
+    return undefined;
+  }
+
+  const ownAmount = parseFloat(ownBid.amount);
+  const lowestAmount = parseFloat(ranked[0].amount);
+  const rank = ranked.filter(bid => parseFloat(bid.amount) < ownAmount).length + 1;
+
+  if (lane.bidVisibility !== 'traffic_light') {
+    return { rank, bidderCount: ranked.length };
+  }
+
+  const trafficLight: TrafficLight = rank === 1
+    ? 'leading'
+    : (ownAmount - lowestAmount) / lowestAmount * 100 <= lane.trafficLightPercent ? 'close' : 'far';
+
+  return { trafficLight };
+}
+
+// Returns an error message when the lane does not accept bids at `now`
+export function getBiddingClosedReason(lane: Lane, now: Date = new Date()): string | undefined {
+  if (!OPEN_LANE_STATUSES.includes(lane.status)) {
+    return "Cannot bid on inactive lanes";
+  }
+
+  if (now < new Date(lane.validFrom)) {
+    return "Bidding on this lane has not opened yet";
+  }
+
+  if (now >= new Date(lane.validUntil)) {
+    return "Bidding on this lane has closed";
+  }
+
+  return undefined;
+}
+
+// Returns the new validUntil when a bid placed at `placedAt` falls inside the
+// lane's anti-sniping window, or undefined when the lane should not be extended
+export function getAutoExtendedValidUntil(lane: Lane, placedAt: Date = new Date()): Date | undefined {
+  const { extensionWindowMinutes, extensionMinutes, maxExtensions, extensionCount } = lane;
+
+  // Auto-extension is only active when both window and extension are set
+  if (!extensionWindowMinutes || !extensionMinutes) {
+    return undefined;
+  }
+
+  // No cap means the lane can be extended indefinitely
+  if (maxExtensions && extensionCount >= maxExtensions) {
+    return undefined;
+  }
+
+  const remaining = new Date(lane.validUntil).getTime() - placedAt.getTime();
+
+  if (remaining < 0 || remaining > extensionWindowMinutes * MINUTE) {
+    return undefined;
+  }
+
+  return new Date(new Date(lane.validUntil).getTime() + extensionMinutes * MINUTE);
+}
+
+// Returns each forwarder's lowest bid, cheapest first
+export function getBestBidPerForwarder<T extends Bid>(laneBids: T[]): T[] {
+  const bestByUser = new Map<number, T>();
+
+  for (const bid of laneBids) {
+    const currentBest = bestByUser.get(bid.userId);
+    if (!currentBest || parseFloat(bid.amount) < parseFloat(currentBest.amount)) {
+      bestByUser.set(bid.userId, bid);
+    }
+  }
+
+  return Array.from(bestByUser.values())
+    .sort((a, b) => parseFloat(a.amount) - parseFloat(b.amount));
+}
+
+// An award needs a justification unless the winners are the N cheapest forwarders
+export function requiresAwardReason(laneBids: Bid[], winningBids: Bid[]): boolean {
+  const ranked = getBestBidPerForwarder(laneBids);
+  const cutoff = ranked[winningBids.length - 1];
+
+  if (!cutoff) {
+    return false;
+  }
+
+  return winningBids.some(bid => parseFloat(bid.amount) > parseFloat(cutoff.amount));
+}
+
+export interface AwardAllocation {
+  bidId: number;
+  sharePercent?: number;
+  shareLoads?: number;
+}
+
+// Turns the admin's allocation into percentage shares. Winners are split
+// either all by percentage or all by load count; a lone winner without a
+// share gets the whole lane. Returns an error message when the split is invalid.
+export function allocateAwardShares(
+  allocations: AwardAllocation[],
+  expectedVolume: number | null
+): { shares: AwardShare[] } | { error: string } {
+  const byLoads = allocations.every(allocation => allocation.shareLoads !== undefined);
+  const byPercent = allocations.every(allocation => allocation.sharePercent !== undefined);
+
+  if (allocations.length === 1 && !byLoads && !byPercent) {
+    return { shares: [{ bidId: allocations[0].bidId, sharePercent: 100, shareLoads: expectedVolume || null }] };
+  }
+
+  if (byLoads) {
+    if (!expectedVolume) {
+      return { error: "Set an expected volume on the lane before splitting it by loads" };
+    }
+
+    const totalLoads = allocations.reduce((sum, allocation) => sum + allocation.shareLoads!, 0);
+    if (totalLoads !== expectedVolume) {
+      return { error: `Allocated loads must add up to the expected volume of ${expectedVolume}` };
+    }
+
+    return {
+      shares: allocations.map(allocation => ({
+        bidId: allocation.bidId,
+        sharePercent: Math.round(allocation.shareLoads! / expectedVolume * 10000) / 100,
+        shareLoads: allocation.shareLoads!
+      }))
+    };
+  }
+
+  if (!byPercent) {
+    return { error: "Give every winning bid either a percentage or a load count" };
+  }
+
+  const totalPercent = allocations.reduce((sum, allocation) => sum + allocation.sharePercent!, 0);
+  if (Math.abs(totalPercent - 100) > 0.01) {
+    return { error: "Award shares must add up to 100%" };
+  }
+
+  return {
+    shares: allocations.map(allocation => ({
+      bidId: allocation.bidId,
+      sharePercent: allocation.sharePercent!,
+      shareLoads: null
+    }))
+  };
+}
@@ -0,0 +1,104 @@
+import type { Request } from "express";
+import { AuditLog, AuditLogFilters, Bid, InsertAuditLog } from "@shared/schema";
+import { storage } from "./storage";
+
+export type AuditEntityType = 'user' | 'company' | 'invitation' | 'lane' | 'tender' | 'carrier_group' | 'bid' | 'proxy_bid';
+
+export interface AuditEvent {
+  action: string; // "<entity>.<verb>", e.g. "lane.update"
+  entityType: AuditEntityType;
+  entityId?: number | null;
+  before?: unknown; // Omitted for creations
+  after?: unknown; // Omitted for deletions
+  // Defaults to the signed-in user; set for signed-out actions such as
+  // accepting an invitation
+  actor?: { id: number; username: string };
+}
+
+// Credentials never go into the audit log, not even hashed, and neither do
+// proxy bid floors, which stay secret from staff too
+const REDACTED_FIELDS = ['password', 'totpSecret', 'totpRecoveryCodes', 'tokenHash', 'floorAmount'];
+
+// Entries shown on the audit log page; exports include every match
+export const AUDIT_LOG_PAGE_SIZE = 500;
+
+export const AUDIT_LOG_HEADERS = ['id', 'createdAt', 'actorId', 'actorUsername', 'ipAddress', 'action', 'entityType', 'entityId', 'before', 'after'];
+
+function toAuditValue(value: unknown): InsertAuditLog['before'] {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  return JSON.parse(JSON.stringify(value, (key, fieldValue) => REDACTED_FIELDS.includes(key) ? undefined : fieldValue));
+}
+
+// Records a change made through the API. The change has already happened by
+// the time this runs, so a failure to write the entry is logged rather than
+// turned into an error response.
+export async function recordAudit(req: Request, event: AuditEvent): Promise<void> {
+  try {
+    await storage.createAuditLog({
+      actorId: event.actor?.id ?? req.session.userId ?? null,
+      actorUsername: event.actor?.username ?? req.session.username ?? null,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId ?? null,
+      before: toAuditValue(event.before),
+      after: toAuditValue(event.after),
+      ipAddress: req.ip ?? null
+    });
+  } catch (error) {
+    console.error('Failed to write audit log entry:', error);
+  }
+}
+
+// Bids placed by a proxy are attributed to the forwarder who set it up, not
+// to whoever placed the bid that triggered it
+export async function recordProxyBids(req: Request, bids: Bid[]): Promise<void> {
+  for (const bid of bids) {
+    const owner = await storage.getUser(bid.userId);
+    await recordAudit(req, {
+      action: 'bid.proxy_create',
+      entityType: 'bid',
+      entityId: bid.id,
+      after: bid,
+      actor: owner && { id: owner.id, username: owner.username }
+    });
+  }
+}
+
+// Reads the filters of the audit log page and export from the query string.
+// Unparseable values are ignored rather than matching nothing.
+export function getAuditLogFilters(query: Request['query']): AuditLogFilters {
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  const entityId = parseInt(text(query.entityId) ?? '');
+  const groupId = parseInt(text(query.groupId) ?? '');
+  const from = new Date(text(query.from) ?? '');
+  const to = new Date(text(query.to) ?? '');
+
+  return {
+    actor: text(query.actor),
+    action: text(query.action),
+    entityType: text(query.entityType),
+    entityId: isNaN(entityId) ? undefined : entityId,
+    groupId: isNaN(groupId) ? undefined : groupId,
+    from: isNaN(from.getTime()) ? undefined : from,
+    to: isNaN(to.getTime()) ? undefined : to
+  };
+}
+
+// One spreadsheet row per entry for compliance exports
+export function toAuditLogRows(entries: AuditLog[]): Record<string, unknown>[] {
+  return entries.map(entry => ({
+    id: entry.id,
+    createdAt: entry.createdAt.toISOString(),
+    actorId: entry.actorId ?? '',
+    actorUsername: entry.actorUsername ?? '',
+    ipAddress: entry.ipAddress ?? '',
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId ?? '',
+    before: entry.before === null ? '' : JSON.stringify(entry.before),
+    after: entry.after === null ? '' : JSON.stringify(entry.after)
+  }));
+}
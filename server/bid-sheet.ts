@@ -0,0 +1,157 @@
+import { BidPlacement } from "@shared/schema";
+import { storage } from "./storage";
+import { bidInputSchema, getBidAmountRejection, getBidRejection } from "./bidding";
+import { getAutoExtendedValidUntil } from "./auction";
+import { getVisibleLane } from "./bid-visibility";
+import { canViewLane } from "./lane-access";
+import { normalizeHeader } from "./spreadsheet";
+
+// Columns of the downloadable sheet; forwarders fill in amount and comment
+export const BID_SHEET_HEADERS = [
+  'laneId',
+  'bidName',
+  'vehicleType',
+  'loadingLocation',
+  'unloadingLocation',
+  'validUntil',
+  'auctionType',
+  'currentMinBid',
+  'yourLastBid',
+  'amount',
+  'comment'
+];
+
+// Validation outcome for one filled-in row; `row` is the 1-based sheet row
+export interface BidSheetRow {
+  row: number;
+  laneId?: number;
+  errors: string[];
+}
+
+// One row per lane the forwarder can bid on at `now`, pre-filled with what
+// they are allowed to see of the competition
+export async function getBidSheetRows(userId: number, role: string | undefined, now: Date = new Date()): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+
+  for (const lane of await storage.getLanes()) {
+    if (await getBidRejection(lane, userId, now)) {
+      continue;
+    }
+
+    const visibleLane = await getVisibleLane(lane, role, userId, now);
+    const lastBid = await storage.getUserBidForLane(lane.id, userId, lane.currentRound);
+
+    rows.push({
+      laneId: lane.id,
+      bidName: lane.bidName,
+      vehicleType: lane.vehicleType,
+      loadingLocation: lane.loadingLocation,
+      unloadingLocation: lane.unloadingLocation,
+      validUntil: lane.validUntil.toISOString(),
+      auctionType: lane.auctionType,
+      currentMinBid: visibleLane.minBid ?? '',
+      yourLastBid: lastBid ? parseFloat(lastBid.amount) : '',
+      amount: '',
+      comment: ''
+    });
+  }
+
+  return rows;
+}
+
+// Reads a single cell by column name regardless of header formatting
+function getCell(sheetRow: Record<string, unknown>, column: string): unknown {
+  const header = Object.keys(sheetRow).find(key => normalizeHeader(key) === normalizeHeader(column));
+  return header === undefined ? '' : sheetRow[header];
+}
+
+// Checks every filled-in row with the same rules as a single bid. Rows without
+// an amount are skipped. Returns the report and the bids to place.
+export async function validateBidSheet(
+  sheetRows: Record<string, unknown>[],
+  userId: number,
+  role: string | undefined,
+  now: Date = new Date()
+): Promise<{ report: BidSheetRow[]; placements: BidPlacement[]; skippedCount: number }> {
+  const report: BidSheetRow[] = [];
+  const placements: BidPlacement[] = [];
+  const seenLaneIds = new Set<number>();
+  let skippedCount = 0;
+
+  for (let index = 0; index < sheetRows.length; index++) {
+    const sheetRow = sheetRows[index];
+    // Row 1 holds the headers
+    const row = index + 2;
+    const rawAmount = getCell(sheetRow, 'amount');
+
+    if (rawAmount === '' || rawAmount === null) {
+      skippedCount++;
+      continue;
+    }
+
+    const laneId = Number(getCell(sheetRow, 'laneId'));
+
+    if (!Number.isInteger(laneId) || laneId <= 0) {
+      report.push({ row, errors: ["laneId: Invalid lane ID"] });
+      continue;
+    }
+
+    if (seenLaneIds.has(laneId)) {
+      report.push({ row, laneId, errors: [`Lane ${laneId} appears more than once in the sheet`] });
+      continue;
+    }
+
+    seenLaneIds.add(laneId);
+
+    const comment = String(getCell(sheetRow, 'comment')).trim();
+    const result = bidInputSchema.safeParse({
+      amount: typeof rawAmount === 'number' ? rawAmount : Number(String(rawAmount).trim()),
+      comment: comment || undefined
+    });
+
+    if (!result.success) {
+      report.push({
+        row,
+        laneId,
+        errors: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      });
+      continue;
+    }
+
+    const lane = await storage.getLane(laneId);
+
+    // Lanes the forwarder is not invited to are reported as missing
+    if (!lane || !(await canViewLane(lane, role, userId))) {
+      report.push({ row, laneId, errors: ["Lane not found"] });
+      continue;
+    }
+
+    const rejection = await getBidRejection(lane, userId, now)
+      ?? await getBidAmountRejection(lane, userId, result.data.amount);
+
+    if (rejection) {
+      report.push({ row, laneId, errors: [rejection.message] });
+      continue;
+    }
+
+    // On sealed lanes a forwarder holds a single bid per round which they may revise until close
+    const existingBid = lane.auctionType === 'sealed'
+      ? await storage.getUserBidForLane(laneId, userId, lane.currentRound)
+      : undefined;
+
+    placements.push({
+      bid: {
+        laneId,
+        userId,
+        amount: result.data.amount.toString(),
+        comment: result.data.comment,
+        round: lane.currentRound
+      },
+      reviseBidId: existingBid?.id,
+      extendTo: existingBid ? undefined : getAutoExtendedValidUntil(lane, now)
+    });
+    report.push({ row, laneId, errors: [] });
+  }
+
+  return { report, placements, skippedCount };
+}
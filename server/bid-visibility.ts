@@ -0,0 +1,34 @@
+import { LaneWithBids } from "@shared/schema";
+import { storage } from "./storage";
+import { getBidFeedback, isLaneClosed, redactSealedLane } from "./auction";
+import { hasPermission } from "./permissions";
+
+// What a user may see of a lane's competition. On top of the sealed-lane rules,
+// forwarders get feedback on their own bid, and lanes that do not show full
+// prices hide the lowest bid from them.
+export async function getVisibleLane<T extends LaneWithBids>(
+  lane: T,
+  role: string | undefined,
+  userId: number | undefined,
+  now: Date = new Date()
+): Promise<T> {
+  const visibleLane = redactSealedLane(lane, role, now);
+
+  if (hasPermission(role, 'bids:view') || userId === undefined) {
+    return visibleLane;
+  }
+
+  // Sealed bids give nothing away before the lane closes
+  if (lane.auctionType === 'sealed' && !isLaneClosed(lane, now)) {
+    return visibleLane;
+  }
+
+  const roundBids = (await storage.getBidsByLane(lane.id))
+    .filter(bid => bid.round === lane.currentRound);
+
+  return {
+    ...visibleLane,
+    minBid: lane.bidVisibility === 'full_price' ? visibleLane.minBid : undefined,
+    feedback: getBidFeedback(lane, roundBids, userId)
+  };
+}
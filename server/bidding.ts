@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { Lane } from "@shared/schema";
+import { storage } from "./storage";
+import { getBiddingClosedReason } from "./auction";
+import { isLaneForwarder } from "./lane-access";
+
+// Amount and comment a forwarder submits for one lane
+export const bidInputSchema = z.object({
+  amount: z.number().positive(),
+  comment: z.string().optional()
+});
+
+export interface BidRejection {
+  status: 400 | 403;
+  message: string;
+}
+
+// Returns why `userId` may not bid on the lane at `now`, or undefined when the
+// bid is allowed. Shared by single bids and bid sheet uploads.
+export async function getBidRejection(lane: Lane, userId: number, now: Date = new Date()): Promise<BidRejection | undefined> {
+  const user = await storage.getUser(userId);
+
+  // Lanes with an invitation list, and tender lanes, are limited to the
+  // forwarders invited to them. Checked first so that uninvited forwarders
+  // learn nothing about the lane's state.
+  if (!user || !(await isLaneForwarder(lane, user))) {
+    return {
+      status: 403,
+      message: lane.tenderId
+        ? "Only forwarders invited to this tender can bid"
+        : "Only forwarders invited to this lane can bid"
+    };
+  }
+
+  // Check if lane is open for bidding, refusing bids after validUntil
+  // even if the scheduler has not closed the lane yet
+  const closedReason = getBiddingClosedReason(lane, now);
+
+  if (closedReason) {
+    return { status: 400, message: closedReason };
+  }
+
+  // Rounds after the first are limited to the forwarders invited into them
+  if (lane.currentRound > 1 && !(await storage.isRoundParticipant(lane.id, lane.currentRound, userId))) {
+    return { status: 403, message: "Only forwarders invited to this round can bid" };
+  }
+
+  // The company's first bidder in the round holds its bid on the lane
+  if (lane.oneBidPerCompany) {
+    const colleagueBid = (await storage.getBidsByLane(lane.id)).find(bid =>
+      bid.round === lane.currentRound && bid.companyId === user.companyId && bid.userId !== userId
+    );
+
+    if (colleagueBid) {
+      return { status: 403, message: `${colleagueBid.username} already bids on this lane for your company` };
+    }
+  }
+
+  return undefined;
+}
+
+// Highest amount the lane accepts while `lowestAmount` is the current best bid,
+// or undefined when the lane has no minimum decrement
+export function getMaxAllowedBid(lane: Lane, lowestAmount: number): number | undefined {
+  const minDecrement = lane.minDecrement ? parseFloat(lane.minDecrement) : 0;
+
+  if (minDecrement <= 0) {
+    return undefined;
+  }
+
+  const decrement = lane.decrementType === 'percent'
+    ? lowestAmount * minDecrement / 100
+    : minDecrement;
+
+  // Round down to whole cents so the limit itself is always a valid bid
+  return Math.floor((lowestAmount - decrement) * 100) / 100;
+}
+
+// Returns why `amount` breaks the lane's bidding rules, or undefined when it is
+// acceptable. The decrement only applies to open auctions, where forwarders can
+// see the bid they have to beat.
+export async function getBidAmountRejection(lane: Lane, userId: number, amount: number): Promise<BidRejection | undefined> {
+  const ceilingPrice = lane.ceilingPrice ? parseFloat(lane.ceilingPrice) : 0;
+
+  if (ceilingPrice > 0 && amount > ceilingPrice) {
+    return {
+      status: 400,
+      message: `Bids on this lane may not exceed the ceiling price of €${ceilingPrice.toFixed(2)}`
+    };
+  }
+
+  if (lane.auctionType === 'open') {
+    const lowestAmount = await storage.getLowestBidForLane(lane.id, lane.currentRound);
+    const maxAllowed = lowestAmount !== undefined ? getMaxAllowedBid(lane, lowestAmount) : undefined;
+
+    if (lowestAmount !== undefined && maxAllowed !== undefined && amount > maxAllowed) {
+      // Lanes that hide prices must not reveal the lowest bid through the error
+      if (lane.bidVisibility !== 'full_price') {
+        return { status: 400, message: "Your bid does not undercut the current lowest bid by the required minimum decrement" };
+      }
+
+      const decrement = lane.decrementType === 'percent'
+        ? `${parseFloat(lane.minDecrement!)}%`
+        : `€${parseFloat(lane.minDecrement!).toFixed(2)}`;
+
+      return {
+        status: 400,
+        message: `Bids must be at least ${decrement} below the current lowest bid of €${lowestAmount.toFixed(2)}, i.e. €${maxAllowed.toFixed(2)} or less`
+      };
+    }
+  }
+
+  if (lane.mustImproveOwnBid) {
+    const previousBid = await storage.getUserBidForLane(lane.id, userId, lane.currentRound);
+
+    if (previousBid && amount >= parseFloat(previousBid.amount)) {
+      return {
+        status: 400,
+        message: `Your bid must be lower than your previous bid of €${parseFloat(previousBid.amount).toFixed(2)}`
+      };
+    }
+  }
+
+  return undefined;
+}
@@ -1,6 +1,8 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
-import { users, lanes, bids, roleEnum, statusEnum, vehicleTypeEnum } from '@shared/schema';
+import { users, companies, normalizeCompanyName } from '@shared/schema';
+import { hashPassword } from './passwords';
+import { migrateDatabase } from './migrations';
 
 // Create a PostgreSQL connection
 const connectionString = process.env.DATABASE_URL || '';
@@ -12,27 +14,33 @@ export async function initDatabase() {
   try {
     console.log('Initializing database...');
     
-    // Create tables by running migrations
-    await createTables();
+    // Apply pending migrations; existing data is kept
+    await migrateDatabase();
     
     // Check if we have any users, if not, create default users
     const existingUsers = await db.select().from(users);
     
     if (existingUsers.length === 0) {
       console.log('Creating default users...');
+      const [adminCompany, forwarderCompany] = await db.insert(companies).values(
+        ['Admin Company', 'Freight Co.'].map(name => ({ name, normalizedName: normalizeCompanyName(name) }))
+      ).returning();
+      
       // Create admin user
       await db.insert(users).values({
         username: 'admin',
-        password: 'admin123',
-        companyName: 'Admin Company',
+        password: await hashPassword('admin123'),
+        email: 'admin@example.com',
+        companyId: adminCompany.id,
         role: 'admin'
       });
       
       // Create freight forwarder user
       await db.insert(users).values({
         username: 'user',
-        password: 'user123',
-        companyName: 'Freight Co.',
+        password: await hashPassword('user123'),
+        email: 'user@example.com',
+        companyId: forwarderCompany.id,
         role: 'forwarder'
       });
     }
@@ -43,74 +51,3 @@ export async function initDatabase() {
     throw error;
   }
 }
-
-// Create database tables using direct SQL
-async function createTables() {
-  try {
-    // Create enums first
-    await client`
-      DO $$
-      BEGIN
-        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'role') THEN
-          CREATE TYPE role AS ENUM ('admin', 'forwarder');
-        END IF;
-        
-        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'status') THEN
-          CREATE TYPE status AS ENUM ('active', 'archived', 'ending_soon');
-        END IF;
-        
-        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'vehicle_type') THEN
-          CREATE TYPE vehicle_type AS ENUM ('40t', '12t', 'van');
-        END IF;
-      END
-      $$;
-    `;
-    
-    // Create users table
-    await client`
-      DROP TABLE IF EXISTS bids;
-      DROP TABLE IF EXISTS lanes;
-      DROP TABLE IF EXISTS users;
-      CREATE TABLE IF NOT EXISTS users (
-        id SERIAL PRIMARY KEY,
-        username TEXT NOT NULL UNIQUE,
-        password TEXT NOT NULL,
-        email TEXT NOT NULL UNIQUE,
-        company_name TEXT NOT NULL,
-        role role NOT NULL DEFAULT 'forwarder'
-      )
-    `;
-    
-    // Create lanes table
-    await client`
-      CREATE TABLE IF NOT EXISTS lanes (
-        id SERIAL PRIMARY KEY,
-        bid_name TEXT NOT NULL,
-        status status NOT NULL DEFAULT 'active',
-        vehicle_type vehicle_type NOT NULL,
-        loading_location TEXT NOT NULL,
-        unloading_location TEXT NOT NULL,
-        valid_from TIMESTAMP NOT NULL,
-        valid_until TIMESTAMP NOT NULL,
-        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        created_by INTEGER NOT NULL REFERENCES users(id)
-      )
-    `;
-    
-    // Create bids table
-    await client`
-      CREATE TABLE IF NOT EXISTS bids (
-        id SERIAL PRIMARY KEY,
-        lane_id INTEGER NOT NULL REFERENCES lanes(id),
-        user_id INTEGER NOT NULL REFERENCES users(id),
-        amount NUMERIC(10, 2) NOT NULL,
-        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-    
-    console.log('Tables created successfully');
-  } catch (error) {
-    console.error('Error creating tables:', error);
-    throw error;
-  }
-}
\ No newline at end of file
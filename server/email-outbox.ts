@@ -0,0 +1,78 @@
+import { OutboxEmail } from "@shared/schema";
+import { storage } from "./storage";
+import { deliverEmail } from "./email";
+import { containsToken } from "./email-templates";
+import { log } from "./vite";
+
+// How often the outbox is checked for due emails, and how many are sent per run
+const OUTBOX_INTERVAL_MS = parseInt(process.env.EMAIL_OUTBOX_INTERVAL_MS || '10000');
+const OUTBOX_BATCH_SIZE = 50;
+
+// Attempts before an email is marked failed. Retries back off exponentially
+// from one minute, capped at an hour.
+const MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || '5');
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+// Replaces the body of sent or failed emails whose link holds a token, so
+// tokens are only ever stored hashed once the email has left the outbox
+const REDACTED_BODY = '[redacted]';
+
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+function getFinalBody(email: OutboxEmail) {
+  return containsToken(email.template) ? { text: REDACTED_BODY, html: REDACTED_BODY } : {};
+}
+
+async function sendOutboxEmail(email: OutboxEmail, now: Date) {
+  const attempts = email.attempts + 1;
+
+  try {
+    await deliverEmail(email);
+    await storage.updateOutboxEmail(email.id, { status: 'sent', attempts, sentAt: new Date(), lastError: null, ...getFinalBody(email) });
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    if (attempts >= MAX_ATTEMPTS) {
+      log(`Email ${email.id} to ${email.to} failed after ${attempts} attempts: ${lastError}`, "email");
+      await storage.updateOutboxEmail(email.id, { status: 'failed', attempts, lastError, ...getFinalBody(email) });
+    } else {
+      const nextAttemptAt = new Date(now.getTime() + getRetryDelayMs(attempts));
+      await storage.updateOutboxEmail(email.id, { attempts, lastError, nextAttemptAt });
+    }
+  }
+}
+
+// Sends every pending email whose next attempt is due
+export async function processEmailOutbox(now: Date = new Date()) {
+  const dueEmails = await storage.getDueOutboxEmails(now, OUTBOX_BATCH_SIZE);
+
+  for (const email of dueEmails) {
+    await sendOutboxEmail(email, now);
+  }
+}
+
+export function startEmailOutboxWorker(): NodeJS.Timeout {
+  let isRunning = false;
+
+  const tick = async () => {
+    // Skip a tick rather than send the same email twice
+    if (isRunning) {
+      return;
+    }
+
+    isRunning = true;
+    try {
+      await processEmailOutbox();
+    } catch (error) {
+      console.error('Email outbox worker failed:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, OUTBOX_INTERVAL_MS);
+}
@@ -0,0 +1,203 @@
+import { Award, Bid, Lane } from "@shared/schema";
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailTemplate<T> {
+  // Bump whenever the wording changes, so the outbox shows what each
+  // recipient was actually sent
+  version: number;
+  // Set when the body carries a single-use token link, which must not stay
+  // in the outbox once the email is out of it
+  containsToken?: boolean;
+  render(data: T): RenderedEmail;
+}
+
+// The data each template is rendered from
+export interface EmailTemplateData {
+  lane_published: { lane: Lane };
+  // Several lanes published to the forwarder at once, e.g. by an import
+  lanes_published: { lanes: Lane[] };
+  lane_closing: { lane: Lane };
+  outbid: { lane: Lane; bid: Bid };
+  // `award` is the forwarder's winning share, or undefined when their bid lost
+  lane_awarded: { lane: Lane; bid: Bid; award?: Award };
+  invitation: { companyName: string; link: string; expiresAt: Date };
+  password_reset: { link: string; expiresAt: Date };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+type Details = [label: string, value: string][];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatAmount(amount: string): string {
+  return `€${parseFloat(amount).toFixed(2)}`;
+}
+
+function laneDetails(lane: Lane): Details {
+  return [
+    ['Bid Name', lane.bidName],
+    ['Vehicle Type', lane.vehicleType],
+    ['Loading Location', lane.loadingLocation],
+    ['Unloading Location', lane.unloadingLocation],
+    ['Valid From', new Date(lane.validFrom).toLocaleString()],
+    ['Valid Until', new Date(lane.validUntil).toLocaleString()],
+  ];
+}
+
+// Builds both parts of an email from the same content. Paragraphs and detail
+// values are plain text and escaped for the HTML part; `link` is shown as is.
+function compose(
+  subject: string,
+  heading: string,
+  paragraphs: string[],
+  details: Details = [],
+  link?: string,
+  footer?: string
+): RenderedEmail {
+  const textParts = [heading, '', ...paragraphs];
+  const htmlParts = [`<h2>${escapeHtml(heading)}</h2>`, ...paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`)];
+
+  if (details.length > 0) {
+    textParts.push('', ...details.map(([label, value]) => `- ${label}: ${value}`));
+    htmlParts.push(`<ul>${details.map(([label, value]) =>
+      `<li><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</li>`).join('')}</ul>`);
+  }
+
+  if (link) {
+    textParts.push('', link);
+    htmlParts.push(`<p><a href="${escapeHtml(link)}">${escapeHtml(link)}</a></p>`);
+  }
+
+  if (footer) {
+    textParts.push('', footer);
+    htmlParts.push(`<p>${escapeHtml(footer)}</p>`);
+  }
+
+  return { subject, text: textParts.join('\n') + '\n', html: htmlParts.join('\n') };
+}
+
+const templates: { [K in EmailTemplateName]: EmailTemplate<EmailTemplateData[K]> } = {
+  lane_published: {
+    version: 1,
+    render: ({ lane }) => compose(
+      `New Lane Published: ${lane.bidName}`,
+      'New Lane Available for Bidding',
+      ['A new lane has been published:'],
+      laneDetails(lane),
+      undefined,
+      'Log in to the platform to submit your bid.'
+    ),
+  },
+
+  lanes_published: {
+    version: 1,
+    render: ({ lanes }) => compose(
+      `${lanes.length} New Lanes Published`,
+      'New Lanes Available for Bidding',
+      ['The following lanes have been published to you:'],
+      lanes.map(lane => [
+        `${lane.bidName} (#${lane.id})`,
+        `${lane.loadingLocation} to ${lane.unloadingLocation}, until ${new Date(lane.validUntil).toLocaleString()}`
+      ]),
+      undefined,
+      'Log in to the platform to submit your bids.'
+    ),
+  },
+
+  lane_closing: {
+    version: 1,
+    render: ({ lane }) => compose(
+      `Lane Closing Soon: ${lane.bidName}`,
+      'Bidding Closes Soon',
+      [`Bidding on the following lane closes on ${new Date(lane.validUntil).toLocaleString()}:`],
+      laneDetails(lane),
+      undefined,
+      'Log in to the platform to review your bid before it closes.'
+    ),
+  },
+
+  outbid: {
+    version: 1,
+    render: ({ lane, bid }) => compose(
+      `You Have Been Outbid: ${lane.bidName}`,
+      'You have been outbid',
+      [`Your bid of ${formatAmount(bid.amount)} is no longer the lowest on the following lane:`],
+      laneDetails(lane),
+      undefined,
+      'Log in to the platform to place a new bid.'
+    ),
+  },
+
+  lane_awarded: {
+    version: 1,
+    render: ({ lane, bid, award }) => {
+      const details = laneDetails(lane).slice(0, 4);
+      details.push(['Your Bid', formatAmount(bid.amount)]);
+
+      if (award) {
+        const loads = award.shareLoads ? ` (${award.shareLoads} loads per ${lane.volumePeriod || 'period'})` : '';
+        details.push(['Your Share', `${parseFloat(award.sharePercent)}%${loads}`]);
+      }
+
+      return compose(
+        award ? `Lane Awarded: ${lane.bidName}` : `Lane Result: ${lane.bidName}`,
+        award ? 'Congratulations, your bid has been awarded' : 'Your bid was not successful',
+        [award
+          ? 'Your bid has been selected for the following lane:'
+          : 'The following lane has been awarded to another forwarder:'],
+        details,
+        undefined,
+        'Log in to the platform to see the outcome of all your bids.'
+      );
+    },
+  },
+
+  invitation: {
+    version: 1,
+    containsToken: true,
+    render: ({ companyName, link, expiresAt }) => compose(
+      'You have been invited to Procurement 2.0',
+      'You have been invited to bid on freight lanes',
+      [`An account is waiting for ${companyName}. Choose a username and password to get started:`],
+      [],
+      link,
+      `This link can be used once and expires on ${expiresAt.toLocaleString()}.`
+    ),
+  },
+
+  password_reset: {
+    version: 1,
+    containsToken: true,
+    render: ({ link, expiresAt }) => compose(
+      'Reset your Procurement 2.0 password',
+      'Password reset requested',
+      ['Use the link below to choose a new password:'],
+      [],
+      link,
+      `This link can be used once and expires on ${expiresAt.toLocaleString()}. If you did not ask for a reset, you can ignore this email.`
+    ),
+  },
+};
+
+// Whether outbox emails of this template hold a token link in their body
+export function containsToken(name: string): boolean {
+  return !!templates[name as EmailTemplateName]?.containsToken;
+}
+
+export function renderEmail<K extends EmailTemplateName>(name: K, data: EmailTemplateData[K]): RenderedEmail & { templateVersion: number } {
+  const template: EmailTemplate<EmailTemplateData[K]> = templates[name];
+  return { ...template.render(data), templateVersion: template.version };
+}
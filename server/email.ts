@@ -1,35 +1,70 @@
-
+import fs from 'fs/promises';
+import path from 'path';
 import nodemailer from 'nodemailer';
+import { OutboxEmail } from '@shared/schema';
+import { storage } from './storage';
+import { EmailTemplateData, EmailTemplateName, renderEmail } from './email-templates';
+
+// EMAIL_TRANSPORT=file writes each email to EMAIL_FILE_DIR as an .eml file
+// instead of sending it. For a local SMTP sink such as Mailpit, point
+// SMTP_HOST/SMTP_PORT at it and leave SMTP_USER unset.
+const EMAIL_TRANSPORT = process.env.EMAIL_TRANSPORT || 'smtp';
+const EMAIL_FILE_DIR = path.resolve(process.env.EMAIL_FILE_DIR || 'mail');
+const EMAIL_FROM = process.env.EMAIL_FROM || process.env.SMTP_USER;
 
-const transporter = nodemailer.createTransport({
+const smtpTransporter = nodemailer.createTransport({
   host: process.env.SMTP_HOST || 'smtp.gmail.com',
   port: parseInt(process.env.SMTP_PORT || '587'),
   secure: process.env.SMTP_SECURE === 'true',
-  auth: {
+  auth: process.env.SMTP_USER ? {
     user: process.env.SMTP_USER,
     pass: process.env.SMTP_PASS,
-  },
+  } : undefined,
 });
 
-export async function sendLaneNotification(emails: string[], lane: any) {
+// Builds the raw message in memory instead of sending it
+const fileTransporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+// Renders the template and adds one email per recipient to the outbox.
+// The outbox worker sends them, so a mail server outage never fails a request.
+export async function queueEmail<K extends EmailTemplateName>(
+  to: string | string[],
+  template: K,
+  data: EmailTemplateData[K]
+): Promise<OutboxEmail[]> {
+  const recipients = Array.isArray(to) ? to : [to];
+
+  if (recipients.length === 0) {
+    return [];
+  }
+
+  const { templateVersion, subject, text, html } = renderEmail(template, data);
+  return storage.createOutboxEmails(recipients.map(recipient => ({
+    template,
+    templateVersion,
+    to: recipient,
+    subject,
+    text,
+    html
+  })));
+}
+
+// Hands one outbox email to the configured transport; throws when it is rejected
+export async function deliverEmail(email: OutboxEmail): Promise<void> {
   const mailOptions = {
-    from: process.env.SMTP_USER,
-    bcc: emails,
-    subject: `New Lane Published: ${lane.bidName}`,
-    html: `
-      <h2>New Lane Available for Bidding</h2>
-      <p>A new lane has been published:</p>
-      <ul>
-        <li><strong>Bid Name:</strong> ${lane.bidName}</li>
-        <li><strong>Vehicle Type:</strong> ${lane.vehicleType}</li>
-        <li><strong>Loading Location:</strong> ${lane.loadingLocation}</li>
-        <li><strong>Unloading Location:</strong> ${lane.unloadingLocation}</li>
-        <li><strong>Valid From:</strong> ${new Date(lane.validFrom).toLocaleString()}</li>
-        <li><strong>Valid Until:</strong> ${new Date(lane.validUntil).toLocaleString()}</li>
-      </ul>
-      <p>Log in to the platform to submit your bid.</p>
-    `,
+    from: EMAIL_FROM,
+    to: email.to,
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
   };
 
-  await transporter.sendMail(mailOptions);
+  if (EMAIL_TRANSPORT === 'file') {
+    const info = await fileTransporter.sendMail(mailOptions);
+    await fs.mkdir(EMAIL_FILE_DIR, { recursive: true });
+    await fs.writeFile(path.join(EMAIL_FILE_DIR, `${email.id}-${email.template}.eml`), info.message);
+    return;
+  }
+
+  await smtpTransporter.sendMail(mailOptions);
 }
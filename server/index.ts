@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initDatabase } from "./db";
+import { startLaneScheduler } from "./scheduler";
+import { startEmailOutboxWorker } from "./email-outbox";
 
 const app = express();
 app.use(express.json());
@@ -43,6 +45,12 @@ app.use((req, res, next) => {
     await initDatabase();
     log("Database initialized successfully");
     
+    // Drive lane statuses from their validUntil in the background
+    startLaneScheduler();
+    
+    // Send queued emails, retrying failures with backoff
+    startEmailOutboxWorker();
+    
     const server = await registerRoutes(app);
 
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
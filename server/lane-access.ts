@@ -0,0 +1,66 @@
+import { Lane, LaneInvitees, User } from "@shared/schema";
+import { storage } from "./storage";
+import { hasPermission } from "./permissions";
+
+export function hasInvitees(invitees: LaneInvitees): boolean {
+  return invitees.userIds.length > 0 || invitees.companyIds.length > 0 || invitees.groupIds.length > 0;
+}
+
+// Whether the forwarder is invited to the lane: through the tender for tender
+// lanes, otherwise by name, through their company or a carrier group they
+// are in. A standalone lane nobody is invited to is open to every forwarder.
+export async function isLaneForwarder(lane: Lane, user: User): Promise<boolean> {
+  if (lane.tenderId) {
+    return storage.isTenderForwarder(lane.tenderId, user.id);
+  }
+
+  const invitees = await storage.getLaneInvitees(lane.id);
+
+  if (!hasInvitees(invitees) || invitees.userIds.includes(user.id) || invitees.companyIds.includes(user.companyId)) {
+    return true;
+  }
+
+  for (const groupId of invitees.groupIds) {
+    if (await storage.isCarrierGroupMember(groupId, user.id)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Staff see every lane, forwarders only the lanes they are invited to
+export async function canViewLane(lane: Lane, role: string | undefined, userId: number | undefined): Promise<boolean> {
+  if (hasPermission(role, 'bids:view')) {
+    return true;
+  }
+
+  const user = userId !== undefined ? await storage.getUser(userId) : undefined;
+
+  return !!user && hasPermission(user.role, 'bids:place') && await isLaneForwarder(lane, user);
+}
+
+export async function getViewableLanes<T extends Lane>(lanes: T[], role: string | undefined, userId: number | undefined): Promise<T[]> {
+  const viewableLanes: T[] = [];
+
+  for (const lane of lanes) {
+    if (await canViewLane(lane, role, userId)) {
+      viewableLanes.push(lane);
+    }
+  }
+
+  return viewableLanes;
+}
+
+// Every forwarder the lane is published to
+export async function getLaneForwarders(lane: Lane): Promise<User[]> {
+  const forwarders: User[] = [];
+
+  for (const user of await storage.getAllUsers()) {
+    if (hasPermission(user.role, 'bids:place') && await isLaneForwarder(lane, user)) {
+      forwarders.push(user);
+    }
+  }
+
+  return forwarders;
+}
@@ -0,0 +1,116 @@
+import { InsertLane, insertLaneSchema } from "@shared/schema";
+import { normalizeHeader } from "./spreadsheet";
+
+// Spreadsheet columns, matched with normalizeHeader
+const LANE_COLUMNS = [
+  'bidName',
+  'status',
+  'auctionType',
+  'vehicleType',
+  'loadingLocation',
+  'unloadingLocation',
+  'expectedVolume',
+  'volumePeriod',
+  'validFrom',
+  'validUntil',
+  'extensionWindowMinutes',
+  'extensionMinutes',
+  'maxExtensions',
+  'minDecrement',
+  'decrementType',
+  'ceilingPrice',
+  'mustImproveOwnBid',
+  'oneBidPerCompany',
+  'bidVisibility',
+  'trafficLightPercent'
+] as const;
+
+const NUMBER_COLUMNS = [
+  'expectedVolume',
+  'extensionWindowMinutes',
+  'extensionMinutes',
+  'maxExtensions',
+  'minDecrement',
+  'ceilingPrice',
+  'trafficLightPercent'
+];
+
+const BOOLEAN_COLUMNS = ['mustImproveOwnBid', 'oneBidPerCompany'];
+
+const COLUMN_BY_HEADER = new Map<string, string>(
+  LANE_COLUMNS.map(column => [normalizeHeader(column), column])
+);
+
+// Validation outcome for one spreadsheet row; `row` is the 1-based sheet row
+export interface LaneImportRow {
+  row: number;
+  errors: string[];
+  lane?: InsertLane;
+}
+
+// Maps a sheet row onto lane fields, dropping empty cells and unknown columns
+function toLaneFields(sheetRow: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  for (const [header, value] of Object.entries(sheetRow)) {
+    const column = COLUMN_BY_HEADER.get(normalizeHeader(header));
+
+    if (!column || value === '' || value === null || value === undefined) {
+      continue;
+    }
+
+    if (value instanceof Date) {
+      fields[column] = value.toISOString();
+    } else if (NUMBER_COLUMNS.includes(column) && typeof value === 'string') {
+      fields[column] = Number(value.trim());
+    } else if (BOOLEAN_COLUMNS.includes(column) && typeof value === 'string') {
+      // Anything other than true/false is left for the schema to reject
+      const flag = value.trim().toLowerCase();
+      fields[column] = flag === 'true' ? true : flag === 'false' ? false : value;
+    } else {
+      fields[column] = typeof value === 'string' ? value.trim() : value;
+    }
+  }
+
+  return fields;
+}
+
+// Validates every row against insertLaneSchema plus the date rules the lane
+// forms enforce, returning a report entry per row
+export function validateLaneRows(sheetRows: Record<string, unknown>[], createdBy: number): LaneImportRow[] {
+  return sheetRows.map((sheetRow, index) => {
+    // Row 1 holds the headers
+    const row = index + 2;
+    const fields = toLaneFields(sheetRow);
+    const result = insertLaneSchema.safeParse({ ...fields, createdBy });
+    const errors = result.success
+      ? []
+      : result.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`);
+
+    // Missing dates are already reported by the schema
+    const validFrom = new Date(fields.validFrom as string);
+    const validUntil = new Date(fields.validUntil as string);
+
+    if (fields.validFrom !== undefined && isNaN(validFrom.getTime())) {
+      errors.push('validFrom: Invalid date');
+    }
+
+    if (fields.validUntil !== undefined && isNaN(validUntil.getTime())) {
+      errors.push('validUntil: Invalid date');
+    }
+
+    if (validUntil <= validFrom) {
+      errors.push('validUntil: Must be after validFrom');
+    }
+
+    if (!result.success || errors.length > 0) {
+      return { row, errors };
+    }
+
+    return {
+      row,
+      errors,
+      lane: { ...result.data, validFrom, validUntil }
+    };
+  });
+}
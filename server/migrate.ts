@@ -0,0 +1,12 @@
+import { migrateDatabase } from './migrations';
+
+// `npm run db:migrate`: applies pending migrations without starting the server
+migrateDatabase()
+  .then(() => {
+    console.log('Migrations applied.');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,172 @@
+import path from 'path';
+import { is, sql } from 'drizzle-orm';
+import { PgTable, getTableConfig, isPgEnum } from 'drizzle-orm/pg-core';
+import { migrate } from 'drizzle-orm/postgres-js/migrator';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import * as schema from '@shared/schema';
+import { db } from './db';
+
+// Generated from shared/schema.ts with `npm run db:generate`; never edit a
+// migration once it has been committed, add a new one instead
+const MIGRATIONS_FOLDER = path.resolve(process.cwd(), 'migrations');
+
+// Where drizzle records applied migrations, one row per version
+const MIGRATIONS_SCHEMA = 'drizzle';
+const MIGRATIONS_TABLE = '__drizzle_migrations';
+
+// Postgres type names of the column types used in shared/schema.ts, as
+// reported by information_schema.columns.udt_name
+const UDT_NAMES: Record<string, string> = {
+  serial: 'int4',
+  integer: 'int4',
+  boolean: 'bool',
+  text: 'text',
+  numeric: 'numeric',
+  timestamp: 'timestamp',
+  jsonb: 'jsonb'
+};
+
+type DatabaseColumn = {
+  table_name: string;
+  column_name: string;
+  udt_name: string;
+  is_nullable: 'YES' | 'NO';
+};
+
+// Brings the database up to date with the migrations folder, then checks the
+// result against shared/schema.ts. Never drops or rewrites existing data.
+export async function migrateDatabase() {
+  await baselineLegacyDatabase();
+  await migrate(db, {
+    migrationsFolder: MIGRATIONS_FOLDER,
+    migrationsSchema: MIGRATIONS_SCHEMA,
+    migrationsTable: MIGRATIONS_TABLE
+  });
+  await checkSchema();
+}
+
+// Databases created before migrations existed already have the tables of the
+// baseline migration, built by hand-written DDL that lacked bids.comment.
+// Add what that DDL missed and record the baseline as applied, so only the
+// migrations after it run.
+async function baselineLegacyDatabase() {
+  const [state] = await db.execute<{ has_tables: boolean; has_migrations: boolean }>(sql`
+    SELECT
+      to_regclass('public.users') IS NOT NULL AS has_tables,
+      to_regclass(${`${MIGRATIONS_SCHEMA}.${MIGRATIONS_TABLE}`}) IS NOT NULL AS has_migrations
+  `);
+
+  if (!state.has_tables || state.has_migrations) {
+    return;
+  }
+
+  console.log('Recording the existing tables as the baseline migration...');
+  const [baseline] = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`ALTER TABLE bids ADD COLUMN IF NOT EXISTS comment TEXT`);
+    await tx.execute(sql.raw(`CREATE SCHEMA IF NOT EXISTS "${MIGRATIONS_SCHEMA}"`));
+    // Same shape as the table drizzle creates on a fresh database
+    await tx.execute(sql.raw(`
+      CREATE TABLE IF NOT EXISTS "${MIGRATIONS_SCHEMA}"."${MIGRATIONS_TABLE}" (
+        id SERIAL PRIMARY KEY,
+        hash text NOT NULL,
+        created_at bigint
+      )
+    `));
+    await tx.execute(sql`
+      INSERT INTO ${sql.identifier(MIGRATIONS_SCHEMA)}.${sql.identifier(MIGRATIONS_TABLE)} (hash, created_at)
+      VALUES (${baseline.hash}, ${baseline.folderMillis})
+    `);
+  });
+}
+
+// Fails startup when the tables, columns or enums in the database differ from
+// shared/schema.ts, e.g. after a schema change without a migration
+async function checkSchema() {
+  const problems: string[] = [];
+
+  const columns = await db.execute<DatabaseColumn>(sql`
+    SELECT table_name, column_name, udt_name, is_nullable
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+  `);
+  const enumValues = await db.execute<{ name: string; value: string }>(sql`
+    SELECT t.typname AS name, e.enumlabel AS value
+    FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    ORDER BY t.typname, e.enumsortorder
+  `);
+
+  const tableNames = new Set<string>();
+
+  for (const value of Object.values(schema)) {
+    if (isPgEnum(value)) {
+      const actual = enumValues.filter(row => row.name === value.enumName).map(row => row.value);
+      const missing = value.enumValues.filter(enumValue => !actual.includes(enumValue));
+
+      if (actual.length === 0) {
+        problems.push(`enum ${value.enumName} is missing`);
+      } else if (missing.length > 0) {
+        problems.push(`enum ${value.enumName} is missing values ${missing.join(', ')}`);
+      }
+      continue;
+    }
+
+    if (!is(value, PgTable)) {
+      continue;
+    }
+
+    const table = getTableConfig(value);
+    const tableColumns = columns.filter(column => column.table_name === table.name);
+    tableNames.add(table.name);
+
+    if (tableColumns.length === 0) {
+      problems.push(`table ${table.name} is missing`);
+      continue;
+    }
+
+    for (const column of table.columns) {
+      const actual = tableColumns.find(tableColumn => tableColumn.column_name === column.name);
+
+      if (!actual) {
+        problems.push(`column ${table.name}.${column.name} is missing`);
+        continue;
+      }
+
+      const expectedType = toUdtName(column.getSQLType());
+      if (actual.udt_name !== expectedType) {
+        problems.push(`column ${table.name}.${column.name} is ${actual.udt_name}, expected ${expectedType}`);
+      }
+
+      if ((actual.is_nullable === 'NO') !== column.notNull) {
+        problems.push(`column ${table.name}.${column.name} should be ${column.notNull ? 'NOT NULL' : 'nullable'}`);
+      }
+    }
+
+    for (const tableColumn of tableColumns) {
+      if (!table.columns.some(column => column.name === tableColumn.column_name)) {
+        problems.push(`column ${table.name}.${tableColumn.column_name} is not in the schema`);
+      }
+    }
+  }
+
+  const extraTables = new Set(columns.map(column => column.table_name).filter(name => !tableNames.has(name)));
+  extraTables.forEach(name => problems.push(`table ${name} is not in the schema`));
+
+  if (problems.length > 0) {
+    throw new Error(
+      `The database does not match shared/schema.ts. Generate a migration with ` +
+      `\`npm run db:generate\`:\n  - ${problems.join('\n  - ')}`
+    );
+  }
+}
+
+// "numeric(10, 2)" -> "numeric", "text[]" -> "_text", enums keep their name
+function toUdtName(sqlType: string): string {
+  const isArray = sqlType.endsWith('[]');
+  const baseType = sqlType.replace(/\[\]$/, '').replace(/\(.*\)$/, '');
+  const udtName = UDT_NAMES[baseType] ?? baseType;
+
+  return isArray ? `_${udtName}` : udtName;
+}
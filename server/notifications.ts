@@ -0,0 +1,20 @@
+import { InsertNotification } from "@shared/schema";
+import { storage } from "./storage";
+import { sendUserNotification } from "./realtime";
+
+// Notifications shown in the notification center
+export const NOTIFICATION_PAGE_SIZE = 50;
+
+// Stores a notification for each user and pushes it to those who are
+// connected. Like the audit log, a failure is logged and never fails the
+// change that caused it.
+export async function notifyUsers(userIds: number[], notification: Omit<InsertNotification, 'userId'>): Promise<void> {
+  try {
+    const created = await storage.createNotifications(
+      Array.from(new Set(userIds)).map(userId => ({ ...notification, userId }))
+    );
+    created.forEach(sendUserNotification);
+  } catch (error) {
+    console.error('Failed to create notifications:', error);
+  }
+}
@@ -0,0 +1,51 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Stored hashes look like `scrypt:<salt hex>:<hash hex>`; anything else is a
+// plaintext password from before hashing was introduced
+const HASH_PREFIX = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+// How long invitation and password reset links stay usable
+export const INVITATION_TTL_HOURS = parseInt(process.env.INVITATION_TTL_HOURS || '72');
+export const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}:`);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+// Checks `password` against a stored hash, or against a legacy plaintext
+// password which the caller should then rehash
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(password);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  const [, saltHex, hashHex] = stored.split(':');
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// Single-use tokens are random enough that a plain SHA-256 is safe to store
+// and lets them be looked up directly
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Returns the token to email to the user and the hash to store
+export function generateToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashToken(token) };
+}
@@ -0,0 +1,37 @@
+import { Role } from "@shared/schema";
+
+export type Permission =
+  // Every user and company
+  | 'users:manage'
+  // Users of one's own company
+  | 'company_users:manage'
+  // Lanes, tenders, bidding rounds and opening sealed bids
+  | 'lanes:manage'
+  | 'lanes:award'
+  // Every bid on every lane, award history and status history
+  | 'bids:view'
+  | 'bids:place'
+  // The audit log of every change made through the API
+  | 'audit:view';
+
+// Routes check permissions rather than roles, so a role can be added or
+// changed here without touching them
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['users:manage', 'company_users:manage', 'lanes:manage', 'lanes:award', 'bids:view', 'audit:view'],
+  tender_manager: ['lanes:manage', 'bids:view'],
+  approver: ['lanes:award', 'bids:view'],
+  analyst: ['bids:view'],
+  forwarder_admin: ['company_users:manage', 'bids:place'],
+  forwarder: ['bids:place']
+};
+
+// Roles that bid for a carrier company; company user managers may only hand out these
+export const FORWARDER_ROLES: Role[] = ['forwarder_admin', 'forwarder'];
+
+export function getPermissions(role: string | undefined): Permission[] {
+  return ROLE_PERMISSIONS[role as Role] || [];
+}
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
@@ -1,13 +1,59 @@
-import { eq, and, like, desc, asc, SQL, sql } from 'drizzle-orm';
+import { eq, and, or, like, ilike, gt, gte, lt, lte, desc, asc, inArray, isNull, SQL, sql } from 'drizzle-orm';
 import { db } from './db';
 import {
-  users, User, InsertUser,
-  lanes, Lane, InsertLane,
-  bids, Bid, InsertBid,
+  users, User, InsertUser, Role, UserTwoFactorSettings,
+  companies, Company, InsertCompany, normalizeCompanyName,
+  userInvitations, UserInvitation, InsertUserInvitation,
+  passwordResetTokens, PasswordResetToken, InsertPasswordResetToken,
+  lanes, Lane, InsertLane, LaneStatus,
+  laneStatusChanges, LaneStatusChange,
+  bids, Bid, InsertBid, BidPlacement,
+  laneRoundParticipants, laneInvitations, LaneInvitees,
+  proxyBids, ProxyBid, InsertProxyBid,
+  tenders, Tender, InsertTender,
+  tenderForwarders, tenderCarrierGroups,
+  carrierGroups, carrierGroupMembers, CarrierGroup, InsertCarrierGroup, CarrierGroupWithMembers,
+  awards, Award, AwardShare,
+  auditLogs, AuditLog, InsertAuditLog, AuditLogFilters,
+  emailOutbox, OutboxEmail, InsertOutboxEmail, OutboxEmailDelivery,
+  notifications, Notification, InsertNotification,
+  notificationPreferences, NotificationPreferences, InsertNotificationPreferences,
+  closingReminders, ClosingReminder, InsertClosingReminder,
   BidWithUser, LaneWithBids
 } from "@shared/schema";
 
 import { IStorage } from './storage';
+import { hashPassword } from './passwords';
+
+// One lane_invitations row per invited forwarder, company and carrier group
+function toInvitationRows(laneId: number, invitees: LaneInvitees) {
+  return [
+    ...invitees.userIds.map(userId => ({ laneId, userId })),
+    ...invitees.companyIds.map(companyId => ({ laneId, companyId })),
+    ...invitees.groupIds.map(groupId => ({ laneId, groupId }))
+  ];
+}
+
+// Moves the lane's deadline to `validUntil` and counts the extension, unless
+// the deadline is already there or the lane is out of extensions. Checked in
+// the UPDATE itself so concurrent bids computed from the same deadline only
+// extend the lane once.
+async function applyLaneExtension(executor: Pick<typeof db, 'update'>, id: number, validUntil: Date): Promise<Lane | undefined> {
+  const result = await executor.update(lanes)
+    .set({
+      validUntil,
+      extensionCount: sql`${lanes.extensionCount} + 1`
+    })
+    .where(and(
+      eq(lanes.id, id),
+      lt(lanes.validUntil, validUntil),
+      // No cap means the lane can be extended indefinitely
+      or(isNull(lanes.maxExtensions), eq(lanes.maxExtensions, 0), gt(lanes.maxExtensions, lanes.extensionCount))
+    ))
+    .returning();
+  
+  return result[0];
+}
 
 // Helper function to safely convert bid amount from string to number
 function formatBidAmount(amount: string | number): string {
@@ -17,7 +63,34 @@ function formatBidAmount(amount: string | number): string {
   return amount;
 }
 
+// Company of the bidding user, resolved in the same statement as the insert
+function bidCompanyId(userId: number): SQL<number> {
+  return sql<number>`(SELECT ${users.companyId} FROM ${users} WHERE ${users.id} = ${userId})`;
+}
+
 export class PgStorage implements IStorage {
+  // Company operations
+  async getCompany(id: number): Promise<Company | undefined> {
+    const result = await db.select().from(companies).where(eq(companies.id, id));
+    return result[0];
+  }
+
+  async getCompanies(): Promise<Company[]> {
+    return db.select().from(companies).orderBy(asc(companies.name));
+  }
+
+  async getCompanyByName(name: string): Promise<Company | undefined> {
+    const result = await db.select().from(companies).where(eq(companies.normalizedName, normalizeCompanyName(name)));
+    return result[0];
+  }
+
+  async createCompany(company: InsertCompany): Promise<Company> {
+    const result = await db.insert(companies)
+      .values({ ...company, normalizedName: normalizeCompanyName(company.name) })
+      .returning();
+    return result[0];
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.id, id));
@@ -34,10 +107,119 @@ export class PgStorage implements IStorage {
   }
 
   async createUser(user: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(user).returning();
+    const result = await db.insert(users)
+      .values({ ...user, password: await hashPassword(user.password) })
+      .returning();
+    return result[0];
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set({ password: await hashPassword(password) })
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async updateUserRole(id: number, role: Role): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.email, email));
+    return result[0];
+  }
+
+  async updateUserTwoFactor(id: number, settings: Partial<UserTwoFactorSettings>): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set(settings)
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async consumeRecoveryCode(id: number, codeHash: string): Promise<boolean> {
+    // A single conditional update, so a code cannot be used by two logins at once
+    const result = await db.update(users)
+      .set({ totpRecoveryCodes: sql`array_remove(${users.totpRecoveryCodes}, ${codeHash})` })
+      .where(and(eq(users.id, id), sql`${codeHash} = ANY(${users.totpRecoveryCodes})`))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Invitation operations
+  async createUserInvitation(invitation: InsertUserInvitation): Promise<UserInvitation> {
+    const result = await db.insert(userInvitations).values(invitation).returning();
     return result[0];
   }
 
+  async getUserInvitationByTokenHash(tokenHash: string): Promise<UserInvitation | undefined> {
+    const result = await db.select().from(userInvitations).where(eq(userInvitations.tokenHash, tokenHash));
+    return result[0];
+  }
+
+  async acceptUserInvitation(id: number, user: InsertUser): Promise<User | undefined> {
+    const password = await hashPassword(user.password);
+    
+    return db.transaction(async (tx) => {
+      // Only the first acceptance wins when the link is used twice concurrently
+      const accepted = await tx.update(userInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(eq(userInvitations.id, id), isNull(userInvitations.acceptedAt)))
+        .returning();
+      
+      if (accepted.length === 0) {
+        return undefined;
+      }
+      
+      const result = await tx.insert(users).values({ ...user, password }).returning();
+      return result[0];
+    });
+  }
+
+  // Password reset operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const result = await db.insert(passwordResetTokens).values(token).returning();
+    return result[0];
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const result = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return result[0];
+  }
+
+  async resetPassword(tokenId: number, password: string): Promise<User | undefined> {
+    const passwordHash = await hashPassword(password);
+    
+    return db.transaction(async (tx) => {
+      const used = await tx.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.id, tokenId), isNull(passwordResetTokens.usedAt)))
+        .returning();
+      
+      if (used.length === 0) {
+        return undefined;
+      }
+      
+      const userId = used[0].userId;
+      
+      // Older links sent to the same user stop working as well
+      await tx.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+      
+      const result = await tx.update(users)
+        .set({ password: passwordHash })
+        .where(eq(users.id, userId))
+        .returning();
+      return result[0];
+    });
+  }
+
   // Lane operations
   async getLane(id: number): Promise<Lane | undefined> {
     const result = await db.select().from(lanes).where(eq(lanes.id, id));
@@ -85,8 +267,8 @@ export class PgStorage implements IStorage {
     // Add min bid and bid count for each lane
     const lanesWithBids: LaneWithBids[] = await Promise.all(
       filteredLanes.map(async lane => {
-        const minBid = await this.getLowestBidForLane(lane.id);
-        const bidCount = await this.getBidCountForLane(lane.id);
+        const minBid = await this.getLowestBidForLane(lane.id, lane.currentRound);
+        const bidCount = await this.getBidCountForLane(lane.id, lane.currentRound);
         return {
           ...lane,
           minBid,
@@ -98,7 +280,37 @@ export class PgStorage implements IStorage {
     return lanesWithBids;
   }
 
-  async createLane(lane: InsertLane): Promise<Lane> {
+  async createLane(lane: InsertLane, invitees?: LaneInvitees): Promise<Lane> {
+    return db.transaction(async (tx) => {
+      const result = await tx.insert(lanes).values(this.toLaneInsert(lane)).returning();
+      const rows = invitees ? toInvitationRows(result[0].id, invitees) : [];
+      
+      if (rows.length > 0) {
+        await tx.insert(laneInvitations).values(rows);
+      }
+      
+      return result[0];
+    });
+  }
+
+  async createLanes(insertLanes: InsertLane[], invitees?: LaneInvitees): Promise<Lane[]> {
+    if (insertLanes.length === 0) {
+      return [];
+    }
+    
+    return db.transaction(async (tx) => {
+      const created = await tx.insert(lanes).values(insertLanes.map(lane => this.toLaneInsert(lane))).returning();
+      const rows = invitees ? created.flatMap(lane => toInvitationRows(lane.id, invitees)) : [];
+      
+      if (rows.length > 0) {
+        await tx.insert(laneInvitations).values(rows);
+      }
+      
+      return created;
+    });
+  }
+
+  private toLaneInsert(lane: InsertLane) {
     // Convert string dates to Date objects if necessary
     const validFrom = typeof lane.validFrom === 'string' 
       ? new Date(lane.validFrom) 
@@ -112,16 +324,29 @@ export class PgStorage implements IStorage {
     const insertData = {
       bidName: lane.bidName,
       status: lane.status,
+      auctionType: lane.auctionType,
       vehicleType: lane.vehicleType,
       loadingLocation: lane.loadingLocation,
       unloadingLocation: lane.unloadingLocation,
+      expectedVolume: lane.expectedVolume,
+      volumePeriod: lane.volumePeriod,
       validFrom,
       validUntil,
+      extensionWindowMinutes: lane.extensionWindowMinutes,
+      extensionMinutes: lane.extensionMinutes,
+      maxExtensions: lane.maxExtensions,
+      minDecrement: lane.minDecrement,
+      decrementType: lane.decrementType,
+      ceilingPrice: lane.ceilingPrice,
+      mustImproveOwnBid: lane.mustImproveOwnBid,
+      oneBidPerCompany: lane.oneBidPerCompany,
+      bidVisibility: lane.bidVisibility,
+      trafficLightPercent: lane.trafficLightPercent,
+      tenderId: lane.tenderId,
       createdBy: lane.createdBy
     };
     
-    const result = await db.insert(lanes).values(insertData).returning();
-    return result[0];
+    return insertData;
   }
 
   async updateLane(id: number, laneUpdate: Partial<InsertLane>): Promise<Lane | undefined> {
@@ -136,6 +361,10 @@ export class PgStorage implements IStorage {
       updateData.status = laneUpdate.status;
     }
     
+    if (laneUpdate.auctionType !== undefined) {
+      updateData.auctionType = laneUpdate.auctionType;
+    }
+    
     if (laneUpdate.vehicleType !== undefined) {
       updateData.vehicleType = laneUpdate.vehicleType;
     }
@@ -148,6 +377,14 @@ export class PgStorage implements IStorage {
       updateData.unloadingLocation = laneUpdate.unloadingLocation;
     }
     
+    if (laneUpdate.expectedVolume !== undefined) {
+      updateData.expectedVolume = laneUpdate.expectedVolume;
+    }
+    
+    if (laneUpdate.volumePeriod !== undefined) {
+      updateData.volumePeriod = laneUpdate.volumePeriod;
+    }
+    
     if (laneUpdate.validFrom !== undefined) {
       updateData.validFrom = typeof laneUpdate.validFrom === 'string' 
         ? new Date(laneUpdate.validFrom) 
@@ -160,6 +397,50 @@ export class PgStorage implements IStorage {
         : laneUpdate.validUntil;
     }
     
+    if (laneUpdate.extensionWindowMinutes !== undefined) {
+      updateData.extensionWindowMinutes = laneUpdate.extensionWindowMinutes;
+    }
+    
+    if (laneUpdate.extensionMinutes !== undefined) {
+      updateData.extensionMinutes = laneUpdate.extensionMinutes;
+    }
+    
+    if (laneUpdate.maxExtensions !== undefined) {
+      updateData.maxExtensions = laneUpdate.maxExtensions;
+    }
+    
+    if (laneUpdate.minDecrement !== undefined) {
+      updateData.minDecrement = laneUpdate.minDecrement;
+    }
+    
+    if (laneUpdate.decrementType !== undefined) {
+      updateData.decrementType = laneUpdate.decrementType;
+    }
+    
+    if (laneUpdate.ceilingPrice !== undefined) {
+      updateData.ceilingPrice = laneUpdate.ceilingPrice;
+    }
+    
+    if (laneUpdate.mustImproveOwnBid !== undefined) {
+      updateData.mustImproveOwnBid = laneUpdate.mustImproveOwnBid;
+    }
+    
+    if (laneUpdate.oneBidPerCompany !== undefined) {
+      updateData.oneBidPerCompany = laneUpdate.oneBidPerCompany;
+    }
+    
+    if (laneUpdate.bidVisibility !== undefined) {
+      updateData.bidVisibility = laneUpdate.bidVisibility;
+    }
+    
+    if (laneUpdate.trafficLightPercent !== undefined) {
+      updateData.trafficLightPercent = laneUpdate.trafficLightPercent;
+    }
+    
+    if (laneUpdate.tenderId !== undefined) {
+      updateData.tenderId = laneUpdate.tenderId;
+    }
+    
     if (laneUpdate.createdBy !== undefined) {
       updateData.createdBy = laneUpdate.createdBy;
     }
@@ -172,15 +453,355 @@ export class PgStorage implements IStorage {
     return result[0];
   }
 
+  async extendLane(id: number, validUntil: Date): Promise<Lane | undefined> {
+    return applyLaneExtension(db, id, validUntil);
+  }
+
+  async markLaneBidsOpened(id: number): Promise<Lane | undefined> {
+    // The opening event happens once; a second attempt matches no row
+    const result = await db.update(lanes)
+      .set({ bidsOpenedAt: new Date() })
+      .where(and(eq(lanes.id, id), isNull(lanes.bidsOpenedAt)))
+      .returning();
+      
+    return result[0];
+  }
+
   async deleteLane(id: number): Promise<boolean> {
-    // First, delete all bids associated with this lane
+    // First, delete all awards, bids, round participants and status history associated with this lane
+    await db.delete(awards).where(eq(awards.laneId, id));
+    await db.delete(laneRoundParticipants).where(eq(laneRoundParticipants.laneId, id));
+    await db.delete(laneInvitations).where(eq(laneInvitations.laneId, id));
+    await db.delete(proxyBids).where(eq(proxyBids.laneId, id));
     await db.delete(bids).where(eq(bids.laneId, id));
+    await db.delete(laneStatusChanges).where(eq(laneStatusChanges.laneId, id));
+    await db.delete(closingReminders).where(eq(closingReminders.laneId, id));
     
     // Then delete the lane
     const result = await db.delete(lanes).where(eq(lanes.id, id)).returning();
     return result.length > 0;
   }
 
+  async getLanesByStatus(statuses: LaneStatus[]): Promise<Lane[]> {
+    return db.select().from(lanes).where(inArray(lanes.status, statuses));
+  }
+
+  async updateLaneStatus(id: number, fromStatus: LaneStatus, toStatus: LaneStatus, changedBy?: number): Promise<Lane | undefined> {
+    return db.transaction(async (tx) => {
+      // Only transition when the lane is still in the expected status, so a
+      // scheduler tick and an admin edit cannot both apply the same change
+      const result = await tx.update(lanes)
+        .set({ status: toStatus })
+        .where(and(eq(lanes.id, id), eq(lanes.status, fromStatus)))
+        .returning();
+      
+      if (result.length === 0) {
+        return undefined;
+      }
+      
+      await tx.insert(laneStatusChanges).values({
+        laneId: id,
+        fromStatus,
+        toStatus,
+        changedBy
+      });
+      
+      return result[0];
+    });
+  }
+
+  async getLaneStatusChanges(laneId: number): Promise<LaneStatusChange[]> {
+    return db.select()
+      .from(laneStatusChanges)
+      .where(eq(laneStatusChanges.laneId, laneId))
+      .orderBy(asc(laneStatusChanges.changedAt));
+  }
+
+  async startNextRound(laneId: number, fromStatus: LaneStatus, timing: { validFrom: Date; validUntil: Date }, carriedBids: Bid[], changedBy: number): Promise<Lane | undefined> {
+    return db.transaction(async (tx) => {
+      // Reset the per-round state; sealed lanes are sealed again for the new round
+      const result = await tx.update(lanes)
+        .set({
+          status: 'active',
+          validFrom: timing.validFrom,
+          validUntil: timing.validUntil,
+          currentRound: sql`${lanes.currentRound} + 1`,
+          extensionCount: 0,
+          bidsOpenedAt: null
+        })
+        .where(and(eq(lanes.id, laneId), eq(lanes.status, fromStatus)))
+        .returning();
+      
+      if (result.length === 0) {
+        return undefined;
+      }
+      
+      const lane = result[0];
+      
+      await tx.insert(laneStatusChanges).values({
+        laneId,
+        fromStatus,
+        toStatus: 'active',
+        changedBy
+      });
+      
+      if (carriedBids.length > 0) {
+        await tx.insert(laneRoundParticipants).values(carriedBids.map(bid => ({
+          laneId,
+          round: lane.currentRound,
+          userId: bid.userId
+        })));
+        
+        await tx.insert(bids).values(carriedBids.map(bid => ({
+          laneId,
+          userId: bid.userId,
+          companyId: bidCompanyId(bid.userId),
+          amount: bid.amount,
+          comment: `Carried over from round ${bid.round}`,
+          round: lane.currentRound,
+          carriedOver: true
+        })));
+      }
+      
+      return lane;
+    });
+  }
+
+  async isRoundParticipant(laneId: number, round: number, userId: number): Promise<boolean> {
+    const result = await db.select()
+      .from(laneRoundParticipants)
+      .where(and(
+        eq(laneRoundParticipants.laneId, laneId),
+        eq(laneRoundParticipants.round, round),
+        eq(laneRoundParticipants.userId, userId)
+      ))
+      .limit(1);
+    
+    return result.length > 0;
+  }
+
+  async getLanesByTender(tenderId: number): Promise<Lane[]> {
+    return db.select().from(lanes).where(eq(lanes.tenderId, tenderId));
+  }
+
+  async getLaneInvitees(laneId: number): Promise<LaneInvitees> {
+    const invitations = await db.select()
+      .from(laneInvitations)
+      .where(eq(laneInvitations.laneId, laneId));
+    
+    return {
+      userIds: invitations.flatMap(invitation => invitation.userId !== null ? [invitation.userId] : []),
+      companyIds: invitations.flatMap(invitation => invitation.companyId !== null ? [invitation.companyId] : []),
+      groupIds: invitations.flatMap(invitation => invitation.groupId !== null ? [invitation.groupId] : [])
+    };
+  }
+
+  async setLaneInvitees(laneId: number, invitees: LaneInvitees): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(laneInvitations).where(eq(laneInvitations.laneId, laneId));
+      
+      const rows = toInvitationRows(laneId, invitees);
+      
+      if (rows.length > 0) {
+        await tx.insert(laneInvitations).values(rows);
+      }
+    });
+  }
+
+  // Tender operations
+  async getTender(id: number): Promise<Tender | undefined> {
+    const result = await db.select().from(tenders).where(eq(tenders.id, id));
+    return result[0];
+  }
+
+  async getTenders(): Promise<Tender[]> {
+    return db.select().from(tenders).orderBy(desc(tenders.createdAt));
+  }
+
+  async createTender(tender: InsertTender): Promise<Tender> {
+    const result = await db.insert(tenders).values({
+      ...tender,
+      validFrom: new Date(tender.validFrom),
+      validUntil: new Date(tender.validUntil)
+    }).returning();
+    
+    return result[0];
+  }
+
+  async updateTender(id: number, tenderUpdate: Partial<InsertTender>): Promise<Tender | undefined> {
+    const { validFrom, validUntil, ...rest } = tenderUpdate;
+    const updateData: Partial<Tender> = { ...rest };
+    
+    if (validFrom !== undefined) {
+      updateData.validFrom = new Date(validFrom);
+    }
+    
+    if (validUntil !== undefined) {
+      updateData.validUntil = new Date(validUntil);
+    }
+    
+    const result = await db.update(tenders)
+      .set(updateData)
+      .where(eq(tenders.id, id))
+      .returning();
+    
+    return result[0];
+  }
+
+  async deleteTender(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      // Lanes outlive their tender as standalone lanes
+      await tx.update(lanes).set({ tenderId: null }).where(eq(lanes.tenderId, id));
+      await tx.delete(tenderForwarders).where(eq(tenderForwarders.tenderId, id));
+      await tx.delete(tenderCarrierGroups).where(eq(tenderCarrierGroups.tenderId, id));
+      
+      const result = await tx.delete(tenders).where(eq(tenders.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+
+  async getTenderForwarderIds(tenderId: number): Promise<number[]> {
+    const result = await db.select({ userId: tenderForwarders.userId })
+      .from(tenderForwarders)
+      .where(eq(tenderForwarders.tenderId, tenderId));
+    
+    return result.map(row => row.userId);
+  }
+
+  async getTenderGroupIds(tenderId: number): Promise<number[]> {
+    const result = await db.select({ groupId: tenderCarrierGroups.groupId })
+      .from(tenderCarrierGroups)
+      .where(eq(tenderCarrierGroups.tenderId, tenderId));
+    
+    return result.map(row => row.groupId);
+  }
+
+  async setTenderForwarders(tenderId: number, userIds: number[], groupIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(tenderForwarders).where(eq(tenderForwarders.tenderId, tenderId));
+      await tx.delete(tenderCarrierGroups).where(eq(tenderCarrierGroups.tenderId, tenderId));
+      
+      if (userIds.length > 0) {
+        await tx.insert(tenderForwarders).values(userIds.map(userId => ({ tenderId, userId })));
+      }
+      
+      if (groupIds.length > 0) {
+        await tx.insert(tenderCarrierGroups).values(groupIds.map(groupId => ({ tenderId, groupId })));
+      }
+    });
+  }
+
+  async isTenderForwarder(tenderId: number, userId: number): Promise<boolean> {
+    const invited = await db.select()
+      .from(tenderForwarders)
+      .where(and(eq(tenderForwarders.tenderId, tenderId), eq(tenderForwarders.userId, userId)))
+      .limit(1);
+    
+    if (invited.length > 0) {
+      return true;
+    }
+    
+    // Invited groups follow their current members
+    const invitedThroughGroup = await db.select({ id: tenderCarrierGroups.id })
+      .from(tenderCarrierGroups)
+      .innerJoin(carrierGroupMembers, eq(carrierGroupMembers.groupId, tenderCarrierGroups.groupId))
+      .where(and(eq(tenderCarrierGroups.tenderId, tenderId), eq(carrierGroupMembers.userId, userId)))
+      .limit(1);
+    
+    return invitedThroughGroup.length > 0;
+  }
+
+  // Carrier group operations
+  private async withMembers(group: CarrierGroup): Promise<CarrierGroupWithMembers> {
+    const members = await db.select({ userId: carrierGroupMembers.userId })
+      .from(carrierGroupMembers)
+      .where(eq(carrierGroupMembers.groupId, group.id));
+    
+    return { ...group, userIds: members.map(member => member.userId) };
+  }
+
+  async getCarrierGroups(): Promise<CarrierGroupWithMembers[]> {
+    const groups = await db.select().from(carrierGroups).orderBy(asc(carrierGroups.name));
+    return Promise.all(groups.map(group => this.withMembers(group)));
+  }
+
+  async getCarrierGroup(id: number): Promise<CarrierGroupWithMembers | undefined> {
+    const result = await db.select().from(carrierGroups).where(eq(carrierGroups.id, id));
+    return result[0] && this.withMembers(result[0]);
+  }
+
+  async createCarrierGroup(group: InsertCarrierGroup, userIds: number[]): Promise<CarrierGroupWithMembers> {
+    const created = await db.transaction(async (tx) => {
+      const result = await tx.insert(carrierGroups).values(group).returning();
+      
+      if (userIds.length > 0) {
+        await tx.insert(carrierGroupMembers).values(userIds.map(userId => ({ groupId: result[0].id, userId })));
+      }
+      
+      return result[0];
+    });
+    
+    return this.withMembers(created);
+  }
+
+  async updateCarrierGroup(id: number, groupUpdate: Partial<InsertCarrierGroup>, userIds?: number[]): Promise<CarrierGroupWithMembers | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const result = Object.keys(groupUpdate).length > 0
+        ? await tx.update(carrierGroups).set(groupUpdate).where(eq(carrierGroups.id, id)).returning()
+        : await tx.select().from(carrierGroups).where(eq(carrierGroups.id, id));
+      
+      if (!result[0]) {
+        return undefined;
+      }
+      
+      if (userIds) {
+        await tx.delete(carrierGroupMembers).where(eq(carrierGroupMembers.groupId, id));
+        
+        if (userIds.length > 0) {
+          await tx.insert(carrierGroupMembers).values(userIds.map(userId => ({ groupId: id, userId })));
+        }
+      }
+      
+      return result[0];
+    });
+    
+    return updated && this.withMembers(updated);
+  }
+
+  async deleteCarrierGroup(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(carrierGroupMembers).where(eq(carrierGroupMembers.groupId, id));
+      
+      const result = await tx.delete(carrierGroups).where(eq(carrierGroups.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+
+  async getCarrierGroupLaneIds(groupId: number): Promise<number[]> {
+    const result = await db.select({ laneId: laneInvitations.laneId })
+      .from(laneInvitations)
+      .where(eq(laneInvitations.groupId, groupId));
+    
+    return result.map(row => row.laneId);
+  }
+
+  async getCarrierGroupTenderIds(groupId: number): Promise<number[]> {
+    const result = await db.select({ tenderId: tenderCarrierGroups.tenderId })
+      .from(tenderCarrierGroups)
+      .where(eq(tenderCarrierGroups.groupId, groupId));
+    
+    return result.map(row => row.tenderId);
+  }
+
+  async isCarrierGroupMember(groupId: number, userId: number): Promise<boolean> {
+    const result = await db.select()
+      .from(carrierGroupMembers)
+      .where(and(eq(carrierGroupMembers.groupId, groupId), eq(carrierGroupMembers.userId, userId)))
+      .limit(1);
+    
+    return result.length > 0;
+  }
+
   // Bid operations
   async getBid(id: number): Promise<Bid | undefined> {
     const result = await db.select().from(bids).where(eq(bids.id, id));
@@ -199,21 +820,22 @@ export class PgStorage implements IStorage {
     
     for (const bid of bidResults) {
       const user = await this.getUser(bid.userId);
+      const company = await this.getCompany(bid.companyId);
       bidsWithUser.push({
         ...bid,
         username: user?.username || 'Unknown',
-        companyName: user?.companyName || 'Unknown Company'
+        companyName: company?.name || 'Unknown Company'
       });
     }
     
     return bidsWithUser;
   }
 
-  async getLowestBidForLane(laneId: number): Promise<number | undefined> {
+  async getLowestBidForLane(laneId: number, round?: number): Promise<number | undefined> {
     // Get the lowest bid for a lane
     const result = await db.select()
       .from(bids)
-      .where(eq(bids.laneId, laneId))
+      .where(and(eq(bids.laneId, laneId), round !== undefined ? eq(bids.round, round) : undefined))
       .orderBy(asc(bids.amount))
       .limit(1);
     
@@ -226,25 +848,310 @@ export class PgStorage implements IStorage {
     return typeof amount === 'string' ? parseFloat(amount) : amount;
   }
 
-  async getBidCountForLane(laneId: number): Promise<number> {
+  async getBidCountForLane(laneId: number, round?: number): Promise<number> {
     // Count bids for a lane using SQL count
     const result = await db.select({ count: sql<number>`count(*)` })
       .from(bids)
-      .where(eq(bids.laneId, laneId));
+      .where(and(eq(bids.laneId, laneId), round !== undefined ? eq(bids.round, round) : undefined));
     
     return result[0]?.count || 0;
   }
 
+  async getUserBidForLane(laneId: number, userId: number, round?: number): Promise<Bid | undefined> {
+    const result = await db.select()
+      .from(bids)
+      .where(and(
+        eq(bids.laneId, laneId),
+        eq(bids.userId, userId),
+        round !== undefined ? eq(bids.round, round) : undefined
+      ))
+      .orderBy(desc(bids.createdAt))
+      .limit(1);
+    
+    return result[0];
+  }
+
   async createBid(bid: InsertBid): Promise<Bid> {
     // Ensure amount is stored as a string (for PostgreSQL numeric type)
     const insertData = {
       ...bid,
+      companyId: bidCompanyId(bid.userId),
       amount: formatBidAmount(bid.amount)
     };
     
     const result = await db.insert(bids).values(insertData).returning();
     return result[0];
   }
+
+  async updateBid(id: number, bidUpdate: Pick<InsertBid, 'amount' | 'comment'>): Promise<Bid | undefined> {
+    const result = await db.update(bids)
+      .set({
+        amount: formatBidAmount(bidUpdate.amount),
+        comment: bidUpdate.comment ?? null,
+        updatedAt: new Date()
+      })
+      .where(eq(bids.id, id))
+      .returning();
+    
+    return result[0];
+  }
+
+  async placeBids(placements: BidPlacement[]): Promise<Bid[]> {
+    return db.transaction(async (tx) => {
+      const placedBids: Bid[] = [];
+      
+      for (const { bid, reviseBidId, extendTo } of placements) {
+        const result = reviseBidId
+          ? await tx.update(bids)
+            .set({
+              amount: formatBidAmount(bid.amount),
+              comment: bid.comment ?? null,
+              updatedAt: new Date()
+            })
+            .where(eq(bids.id, reviseBidId))
+            .returning()
+          : await tx.insert(bids)
+            .values({ ...bid, companyId: bidCompanyId(bid.userId), amount: formatBidAmount(bid.amount) })
+            .returning();
+        
+        placedBids.push(result[0]);
+        
+        if (extendTo) {
+          await applyLaneExtension(tx, bid.laneId, extendTo);
+        }
+      }
+      
+      return placedBids;
+    });
+  }
+
+  // Proxy bid operations
+  async getProxyBid(laneId: number, userId: number, round: number): Promise<ProxyBid | undefined> {
+    const result = await db.select()
+      .from(proxyBids)
+      .where(and(
+        eq(proxyBids.laneId, laneId),
+        eq(proxyBids.userId, userId),
+        eq(proxyBids.round, round)
+      ))
+      .limit(1);
+    
+    return result[0];
+  }
+
+  async getProxyBidsByLane(laneId: number, round?: number): Promise<ProxyBid[]> {
+    return db.select()
+      .from(proxyBids)
+      .where(and(eq(proxyBids.laneId, laneId), round !== undefined ? eq(proxyBids.round, round) : undefined))
+      .orderBy(asc(proxyBids.floorAmount), asc(proxyBids.createdAt));
+  }
+
+  async setProxyBid(proxyBid: InsertProxyBid): Promise<ProxyBid> {
+    return db.transaction(async (tx) => {
+      const updated = await tx.update(proxyBids)
+        .set({
+          floorAmount: formatBidAmount(proxyBid.floorAmount),
+          updatedAt: new Date()
+        })
+        .where(and(
+          eq(proxyBids.laneId, proxyBid.laneId),
+          eq(proxyBids.userId, proxyBid.userId),
+          eq(proxyBids.round, proxyBid.round)
+        ))
+        .returning();
+      
+      if (updated.length > 0) {
+        return updated[0];
+      }
+      
+      const inserted = await tx.insert(proxyBids)
+        .values({ ...proxyBid, floorAmount: formatBidAmount(proxyBid.floorAmount) })
+        .returning();
+      
+      return inserted[0];
+    });
+  }
+
+  async deleteProxyBid(laneId: number, userId: number, round: number): Promise<boolean> {
+    const result = await db.delete(proxyBids)
+      .where(and(
+        eq(proxyBids.laneId, laneId),
+        eq(proxyBids.userId, userId),
+        eq(proxyBids.round, round)
+      ))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  // Award operations
+  async awardLane(laneId: number, fromStatus: LaneStatus, shares: AwardShare[], reason: string | undefined, awardedBy: number): Promise<Award[] | undefined> {
+    return db.transaction(async (tx) => {
+      const result = await tx.update(lanes)
+        .set({ status: 'awarded' })
+        .where(and(eq(lanes.id, laneId), eq(lanes.status, fromStatus)))
+        .returning();
+      
+      if (result.length === 0) {
+        return undefined;
+      }
+      
+      await tx.insert(laneStatusChanges).values({
+        laneId,
+        fromStatus,
+        toStatus: 'awarded',
+        changedBy: awardedBy
+      });
+      
+      return tx.insert(awards)
+        .values(shares.map(share => ({
+          laneId,
+          bidId: share.bidId,
+          sharePercent: share.sharePercent.toString(),
+          shareLoads: share.shareLoads,
+          reason,
+          awardedBy
+        })))
+        .returning();
+    });
+  }
+
+  async getAwardsByLane(laneId: number): Promise<Award[]> {
+    return db.select().from(awards).where(eq(awards.laneId, laneId));
+  }
+
+  // Audit log operations
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const result = await db.insert(auditLogs).values(entry).returning();
+    return result[0];
+  }
+
+  async getAuditLogs(filters: AuditLogFilters, limit?: number): Promise<AuditLog[]> {
+    const conditions: SQL[] = [];
+    
+    if (filters.actor) {
+      conditions.push(ilike(auditLogs.actorUsername, `%${filters.actor}%`));
+    }
+    
+    if (filters.action) {
+      conditions.push(eq(auditLogs.action, filters.action));
+    }
+    
+    if (filters.entityType) {
+      conditions.push(eq(auditLogs.entityType, filters.entityType));
+    }
+    
+    if (filters.entityId !== undefined) {
+      conditions.push(eq(auditLogs.entityId, filters.entityId));
+    }
+    
+    if (filters.groupId !== undefined) {
+      conditions.push(inArray(auditLogs.actorId, db.select({ userId: carrierGroupMembers.userId })
+        .from(carrierGroupMembers)
+        .where(eq(carrierGroupMembers.groupId, filters.groupId))));
+    }
+    
+    if (filters.from) {
+      conditions.push(gte(auditLogs.createdAt, filters.from));
+    }
+    
+    if (filters.to) {
+      conditions.push(lte(auditLogs.createdAt, filters.to));
+    }
+    
+    const query = db.select().from(auditLogs)
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.id));
+    return limit === undefined ? query : query.limit(limit);
+  }
+
+  // Notification operations
+  async createNotifications(rows: InsertNotification[]): Promise<Notification[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    
+    return db.insert(notifications).values(rows).returning();
+  }
+
+  async getNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result[0].count;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    if (ids && ids.length === 0) {
+      return 0;
+    }
+    
+    const conditions = [eq(notifications.userId, userId), isNull(notifications.readAt)];
+    
+    if (ids) {
+      conditions.push(inArray(notifications.id, ids));
+    }
+    
+    const result = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    const result = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return result[0];
+  }
+
+  async setNotificationPreferences(userId: number, preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const values = { ...preferences, updatedAt: new Date() };
+    const result = await db.insert(notificationPreferences)
+      .values({ ...values, userId })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
+      .returning();
+    return result[0];
+  }
+
+  async getClosingReminders(laneId: number, round: number): Promise<ClosingReminder[]> {
+    return db.select().from(closingReminders)
+      .where(and(eq(closingReminders.laneId, laneId), eq(closingReminders.round, round)));
+  }
+
+  async createClosingReminders(reminders: InsertClosingReminder[]): Promise<ClosingReminder[]> {
+    if (reminders.length === 0) {
+      return [];
+    }
+    
+    return db.insert(closingReminders).values(reminders).returning();
+  }
+
+  // Email outbox operations
+  async createOutboxEmails(emails: InsertOutboxEmail[]): Promise<OutboxEmail[]> {
+    return db.insert(emailOutbox).values(emails).returning();
+  }
+
+  async getDueOutboxEmails(now: Date, limit: number): Promise<OutboxEmail[]> {
+    return db.select().from(emailOutbox)
+      .where(and(eq(emailOutbox.status, 'pending'), lte(emailOutbox.nextAttemptAt, now)))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async updateOutboxEmail(id: number, delivery: OutboxEmailDelivery): Promise<OutboxEmail | undefined> {
+    const result = await db.update(emailOutbox)
+      .set(delivery)
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return result[0];
+  }
 }
 
 export const pgStorage = new PgStorage();
\ No newline at end of file
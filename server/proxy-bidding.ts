@@ -0,0 +1,90 @@
+import { Bid, Lane, ProxyBid } from "@shared/schema";
+import { storage } from "./storage";
+import { getBidRejection, getMaxAllowedBid } from "./bidding";
+import { getAutoExtendedValidUntil } from "./auction";
+import { broadcastLaneEvent } from "./realtime";
+import { alertLaneExtended } from "./alerts";
+
+// Undercut a proxy places on lanes without a minimum decrement, in EUR
+export const PROXY_BID_STEP = 1;
+
+// Next amount a proxy bids to beat `amount`, honouring the lane's decrement
+function getProxyBidAmount(lane: Lane, amount: number): number {
+  return getMaxAllowedBid(lane, amount) ?? Math.round((amount - PROXY_BID_STEP) * 100) / 100;
+}
+
+// Bids on behalf of forwarders whose proxy has been undercut in the lane's
+// current round, until no proxy can beat the lowest bid. Only open auctions
+// have a visible lowest bid to react to. Returns the bids placed.
+export async function runProxyBidding(laneId: number, now: Date = new Date()): Promise<Bid[]> {
+  const placedBids: Bid[] = [];
+
+  // Each pass either leaves the lowest bid unbeatable or bids a proxy down to
+  // its floor, so the loop ends once the proxies have competed it out
+  while (true) {
+    const lane = await storage.getLane(laneId);
+
+    if (!lane || lane.auctionType !== 'open') {
+      return placedBids;
+    }
+
+    const lowestBid = (await storage.getBidsByLane(laneId))
+      .filter(bid => bid.round === lane.currentRound)
+      .sort((a, b) => parseFloat(a.amount) - parseFloat(b.amount) || a.createdAt.getTime() - b.createdAt.getTime())[0];
+
+    if (!lowestBid) {
+      return placedBids;
+    }
+
+    // Forwarders who can no longer bid on the lane do not take part
+    const proxies: ProxyBid[] = [];
+
+    for (const proxy of await storage.getProxyBidsByLane(laneId, lane.currentRound)) {
+      if (!(await getBidRejection(lane, proxy.userId, now))) {
+        proxies.push(proxy);
+      }
+    }
+
+    const lowestAmount = parseFloat(lowestBid.amount);
+    const nextAmount = getProxyBidAmount(lane, lowestAmount);
+    // Proxies are ordered by floor, so the first one that can beat the lowest
+    // bid is also the strongest
+    const challenger = proxies.find(proxy =>
+      proxy.userId !== lowestBid.userId && parseFloat(proxy.floorAmount) <= nextAmount
+    );
+
+    if (!challenger) {
+      return placedBids;
+    }
+
+    // Bid just enough to beat every rival proxy that could still respond, or
+    // down to the floor when a rival can go lower
+    const rivalFloors = proxies
+      .filter(proxy => proxy.userId !== challenger.userId)
+      .map(proxy => parseFloat(proxy.floorAmount))
+      .filter(floor => floor < lowestAmount);
+    const amount = rivalFloors.length > 0
+      ? Math.max(getProxyBidAmount(lane, Math.min(...rivalFloors)), parseFloat(challenger.floorAmount))
+      : nextAmount;
+
+    const extendTo = getAutoExtendedValidUntil(lane, now);
+    const [bid] = await storage.placeBids([{
+      bid: {
+        laneId,
+        userId: challenger.userId,
+        amount: amount.toString(),
+        round: lane.currentRound,
+        isProxy: true
+      },
+      extendTo
+    }]);
+
+    placedBids.push(bid);
+    broadcastLaneEvent('bid_placed', laneId, bid);
+
+    if (extendTo) {
+      broadcastLaneEvent('lane_extended', laneId);
+      alertLaneExtended(laneId);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocket, WebSocketServer } from "ws";
+import { Bid, BidWithUser, LaneWithBids, Notification } from "@shared/schema";
+import { storage } from "./storage";
+import { getVisibleLane } from "./bid-visibility";
+import { canViewLane } from "./lane-access";
+import { hasPermission } from "./permissions";
+
+// Path clients connect to; other upgrades such as Vite's HMR socket are left alone
+export const REALTIME_PATH = '/ws';
+
+export type LaneEventType = 'bid_placed' | 'lane_extended' | 'lane_status_changed' | 'lane_updated';
+
+// Message pushed to clients. `lane` is what the recipient would get from
+// GET /api/lanes/:id; `bid` is only sent to admins once it is visible to them.
+export interface LaneEvent {
+  type: LaneEventType;
+  lane: LaneWithBids;
+  bid?: BidWithUser;
+}
+
+// A new notification for the recipient, shown as a toast and in the
+// notification center
+export interface NotificationEvent {
+  type: 'notification';
+  notification: Notification;
+}
+
+interface RealtimeClient {
+  socket: WebSocket;
+  userId: number;
+  role: string;
+}
+
+const clients = new Set<RealtimeClient>();
+
+// Accepts WebSocket connections from logged-in users on REALTIME_PATH, using
+// the session cookie to know who is listening
+export function setupRealtime(httpServer: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', (req: IncomingMessage, socket, head) => {
+    if (new URL(req.url || '', 'http://localhost').pathname !== REALTIME_PATH) {
+      return;
+    }
+
+    sessionMiddleware(req as Request, {} as Response, () => {
+      const { userId, role, twoFactorEnrollmentRequired } = (req as Request).session;
+
+      if (!userId || !role || twoFactorEnrollmentRequired) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: RealtimeClient = { socket: ws, userId, role };
+        clients.add(client);
+        ws.on('close', () => clients.delete(client));
+      });
+    });
+  });
+}
+
+async function sendLaneEvent(type: LaneEventType, laneId: number, bid?: Bid) {
+  const lane = await storage.getLane(laneId);
+
+  if (!lane) {
+    return;
+  }
+
+  // Same shape as GET /api/lanes/:id, before it is redacted per recipient
+  const laneWithBids: LaneWithBids = {
+    ...lane,
+    minBid: await storage.getLowestBidForLane(laneId, lane.currentRound),
+    bidCount: await storage.getBidCountForLane(laneId, lane.currentRound)
+  };
+
+  // Sealed bids stay out of the admin's bids list until the opening event
+  const adminBid = bid && !(lane.auctionType === 'sealed' && !lane.bidsOpenedAt)
+    ? (await storage.getBidsByLane(laneId)).find(laneBid => laneBid.id === bid.id)
+    : undefined;
+
+  for (const client of Array.from(clients)) {
+    // Forwarders not invited to the lane never learn of it
+    if (client.socket.readyState !== WebSocket.OPEN || !(await canViewLane(lane, client.role, client.userId))) {
+      continue;
+    }
+
+    const event: LaneEvent = {
+      type,
+      lane: await getVisibleLane(laneWithBids, client.role, client.userId),
+      bid: hasPermission(client.role, 'bids:view') ? adminBid : undefined
+    };
+
+    client.socket.send(JSON.stringify(event));
+  }
+}
+
+// Pushes a lane change to every connected user who can see the lane. Runs in
+// the background so a slow or failing broadcast never holds up the request
+// that caused it.
+export function broadcastLaneEvent(type: LaneEventType, laneId: number, bid?: Bid) {
+  if (clients.size === 0) {
+    return;
+  }
+
+  sendLaneEvent(type, laneId, bid).catch(error => {
+    console.error(`Failed to broadcast ${type} for lane ${laneId}:`, error);
+  });
+}
+
+// Pushes a notification to every open connection of its recipient. Users who
+// are not connected see it in the notification center next time.
+export function sendUserNotification(notification: Notification) {
+  const event: NotificationEvent = { type: 'notification', notification };
+
+  for (const client of Array.from(clients)) {
+    if (client.userId === notification.userId && client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(event));
+    }
+  }
+}
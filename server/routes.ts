@@ -3,48 +3,276 @@ import session from "express-session";
 import { createServer, type Server } from "http";
 import { z } from "zod";
 import { storage } from "./storage";
-import { insertUserSchema, insertLaneSchema, insertBidSchema } from "@shared/schema";
+import { roleEnum, insertUserSchema, insertCompanySchema, insertLaneSchema, insertBidSchema, insertTenderSchema, insertCarrierGroupSchema, insertNotificationPreferencesSchema, NOTIFICATION_PREFERENCE_DEFAULTS, Bid, BidOutcome, Lane, LaneInvitees, Tender, User, PublicUser, passwordSchema } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
+import {
+  getAutoExtendedValidUntil,
+  getBestBidPerForwarder,
+  isLaneClosed,
+  requiresAwardReason,
+  allocateAwardShares
+} from "./auction";
+import { validateLaneRows } from "./lane-import";
+import { bidInputSchema, getBidAmountRejection, getBidRejection } from "./bidding";
+import { readSheetRows, writeSheet, SheetFormat, SHEET_UPLOAD_MAX_BYTES } from "./spreadsheet";
+import { BID_SHEET_HEADERS, getBidSheetRows, validateBidSheet } from "./bid-sheet";
+import { runProxyBidding } from "./proxy-bidding";
+import { alertLaneExtended, alertOutbidForwarders, getLaneLeader, getNotificationPreferences } from "./alerts";
+import { notifyUsers, NOTIFICATION_PAGE_SIZE } from "./notifications";
+import { getVisibleLane } from "./bid-visibility";
+import { canViewLane, getLaneForwarders, getViewableLanes, hasInvitees } from "./lane-access";
+import { broadcastLaneEvent, setupRealtime } from "./realtime";
+import { applyTenderSettings, getTenderLaneSettings, scheduleTenderLanes, TenderAction } from "./tenders";
+import { getAuditLogFilters, recordAudit, recordProxyBids, toAuditLogRows, AUDIT_LOG_HEADERS, AUDIT_LOG_PAGE_SIZE } from "./audit";
+import { FORWARDER_ROLES, Permission, getPermissions, hasPermission } from "./permissions";
+import { createTotpEnrollment, generateRecoveryCodes, verifySecondFactor, verifyTotp } from "./two-factor";
+import { queueEmail } from "./email";
+import {
+  generateToken,
+  hashToken,
+  isPasswordHash,
+  verifyPassword,
+  INVITATION_TTL_HOURS,
+  PASSWORD_RESET_TTL_MINUTES
+} from "./passwords";
 
 declare module "express-session" {
   interface SessionData {
     userId: number;
     username: string;
     role: string;
+    // Password checked, waiting for the TOTP or recovery code of this user
+    twoFactorPendingUserId: number;
+    twoFactorAttempts: number;
+    // Signed in, but an admin requires 2FA and it is not set up yet
+    twoFactorEnrollmentRequired: boolean;
   }
 }
 
+// Wrong codes allowed before the user has to enter their password again
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+// Strips credentials before a user leaves the server
+async function toPublicUser(user: User): Promise<PublicUser> {
+  const { password, totpSecret, totpRecoveryCodes, ...publicUser } = user;
+  const company = await storage.getCompany(user.companyId);
+  return { ...publicUser, companyName: company?.name || 'Unknown Company' };
+}
+
+// Whether the signed-in user may manage `user`. Without `users:manage` that is
+// limited to the forwarders of their own company.
+async function canManageUser(req: Request, user: User): Promise<boolean> {
+  if (hasPermission(req.session.role, 'users:manage')) {
+    return true;
+  }
+  
+  const manager = await storage.getUser(req.session.userId!);
+  return !!manager && manager.companyId === user.companyId && FORWARDER_ROLES.includes(user.role);
+}
+
+// Completes sign-in once every required factor has been checked
+function startSession(req: Request, user: User) {
+  delete req.session.twoFactorPendingUserId;
+  delete req.session.twoFactorAttempts;
+  req.session.userId = user.id;
+  req.session.username = user.username;
+  req.session.role = user.role;
+  req.session.twoFactorEnrollmentRequired = user.totpRequired && !user.totpEnabled;
+}
+
+// What the client gets about the signed-in user
+async function toSessionUser(req: Request, user: User) {
+  return {
+    ...(await toPublicUser(user)),
+    permissions: getPermissions(user.role),
+    twoFactorEnrollmentRequired: !!req.session.twoFactorEnrollmentRequired
+  };
+}
+
+// Ids picked in the UI, without duplicates
+const idListSchema = z.array(z.number().int()).default([]).transform(ids => Array.from(new Set(ids)));
+
+// A lane's invitation list as sent by the client; leaving every list empty
+// publishes the lane to every forwarder
+const laneInviteesSchema = z.object({
+  userIds: idListSchema,
+  companyIds: idListSchema,
+  groupIds: idListSchema
+});
+
+// A carrier group with its members; the members replace the current ones
+const carrierGroupSchema = insertCarrierGroupSchema.extend({
+  userIds: idListSchema
+});
+
+// Whether every one of the users bids for a carrier
+async function areForwarders(userIds: number[]): Promise<boolean> {
+  for (const userId of userIds) {
+    const user = await storage.getUser(userId);
+    
+    if (!user || !hasPermission(user.role, 'bids:place')) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+// Why the invitation list cannot be saved, or undefined when it can
+async function getLaneInviteesError(invitees: LaneInvitees): Promise<string | undefined> {
+  if (!(await areForwarders(invitees.userIds))) {
+    return "Only freight forwarders can be invited to a lane";
+  }
+  
+  for (const companyId of invitees.companyIds) {
+    if (!(await storage.getCompany(companyId))) {
+      return "Company not found";
+    }
+  }
+  
+  for (const groupId of invitees.groupIds) {
+    if (!(await storage.getCarrierGroup(groupId))) {
+      return "Carrier group not found";
+    }
+  }
+  
+  return undefined;
+}
+
+// Tells forwarders a lane is open for bidding, with one email each
+async function announceLane(lane: Lane, forwarders: User[]) {
+  await notifyUsers(forwarders.map(user => user.id), {
+    type: 'lane_published',
+    laneId: lane.id,
+    title: 'New lane published',
+    message: `${lane.bidName} (${lane.loadingLocation} to ${lane.unloadingLocation}) is open for bidding.`
+  });
+  await queueEmail(forwarders.map(user => user.email), 'lane_published', { lane });
+}
+
+// Forwarders each lane is published to, by lane id
+async function getForwarderIdsByLane(lanes: Lane[]): Promise<Map<number, number[]>> {
+  const forwarderIds = new Map<number, number[]>();
+  
+  for (const lane of lanes) {
+    forwarderIds.set(lane.id, (await getLaneForwarders(lane)).map(user => user.id));
+  }
+  
+  return forwarderIds;
+}
+
+// Tells forwarders about the open lanes they were not published to before,
+// with a single notification and email each however many lanes they gained
+async function announceNewLanes(lanes: Lane[], previousForwarderIds: Map<number, number[]> = new Map()) {
+  const newLanesByUser = new Map<number, { user: User; lanes: Lane[] }>();
+  
+  for (const lane of lanes) {
+    if (isLaneClosed(lane)) {
+      continue;
+    }
+    
+    for (const user of await getLaneForwarders(lane)) {
+      if (previousForwarderIds.get(lane.id)?.includes(user.id)) {
+        continue;
+      }
+      
+      const entry = newLanesByUser.get(user.id) ?? { user, lanes: [] };
+      entry.lanes.push(lane);
+      newLanesByUser.set(user.id, entry);
+    }
+  }
+  
+  for (const { user, lanes: newLanes } of Array.from(newLanesByUser.values())) {
+    if (newLanes.length === 1) {
+      await announceLane(newLanes[0], [user]);
+      continue;
+    }
+    
+    await notifyUsers([user.id], {
+      type: 'lane_published',
+      laneId: null,
+      title: `${newLanes.length} new lanes published`,
+      message: `${newLanes.map(lane => lane.bidName).join(', ')} are open for bidding.`
+    });
+    await queueEmail(user.email, 'lanes_published', { lanes: newLanes });
+  }
+}
+
+// Base URL for links in emails. Never taken from the request, whose Host
+// header is chosen by the client and would let it redirect token links.
+function getAppUrl(): string {
+  if (!process.env.APP_URL) {
+    throw new Error("APP_URL must be set to the public URL of the app, used for links in emails");
+  }
+  
+  return process.env.APP_URL.replace(/\/+$/, '');
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Setup sessions
-  app.use(
-    session({
-      secret: process.env.SESSION_SECRET || "procurement-secret-key",
-      resave: false,
-      saveUninitialized: false,
-      cookie: {
-        secure: process.env.NODE_ENV === "production",
-        maxAge: 1000 * 60 * 60 * 24, // 1 day
-      },
-    })
-  );
+  // Refuse to start without a base URL for email links
+  const appUrl = getAppUrl();
+  
+  // Setup sessions; the realtime channel authenticates with the same cookie
+  const sessionMiddleware = session({
+    secret: process.env.SESSION_SECRET || "procurement-secret-key",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 1000 * 60 * 60 * 24, // 1 day
+    },
+  });
+  app.use(sessionMiddleware);
 
   // Auth middleware
-  const requireAuth = (req: Request, res: Response, next: Function) => {
+  // Signed in, whether or not required 2FA has been set up; only for the
+  // routes needed to set it up
+  const requireSession = (req: Request, res: Response, next: Function) => {
     if (!req.session.userId) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     next();
   };
 
-  const requireAdmin = (req: Request, res: Response, next: Function) => {
-    if (!req.session.userId || req.session.role !== "admin") {
-      return res.status(403).json({ message: "Forbidden: Admin access required" });
+  const requireAuth = async (req: Request, res: Response, next: Function) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    // Reload the role and the 2FA requirement so changes apply to sessions
+    // already signed in
+    try {
+      const user = await storage.getUser(req.session.userId);
+      
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      req.session.role = user.role;
+      req.session.twoFactorEnrollmentRequired = user.totpRequired && !user.totpEnabled;
+    } catch (error) {
+      console.error(error);
+      return res.status(500).json({ message: "Server error" });
+    }
+    
+    if (req.session.twoFactorEnrollmentRequired) {
+      return res.status(403).json({ message: "Forbidden: Two-factor authentication must be set up first" });
     }
+    
     next();
   };
 
+  const requirePermission = (permission: Permission) =>
+    (req: Request, res: Response, next: Function) =>
+      requireAuth(req, res, () => {
+        if (!hasPermission(req.session.role, permission)) {
+          return res.status(403).json({ message: "Forbidden: You do not have permission to do this" });
+        }
+        next();
+      });
+
   // AUTH ROUTES
-  app.post("/api/register", requireAdmin, async (req, res) => {
+  app.post("/api/register", requirePermission('users:manage'), async (req, res) => {
     try {
       const result = insertUserSchema.safeParse(req.body);
       
@@ -54,7 +282,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const { username, password, companyName, role } = result.data;
+      const { username, password, email, companyId } = result.data;
       
       // Check if username already exists
       const existingUser = await storage.getUserByUsername(username);
@@ -62,25 +290,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Username already exists" });
       }
       
+      if (!(await storage.getCompany(companyId))) {
+        return res.status(400).json({ message: "Company not found" });
+      }
+      
       // Create user (force role to be forwarder when created by admin)
       const user = await storage.createUser({
         username,
-        password, // In a real app, this would be hashed
-        companyName,
+        password,
+        email,
+        companyId,
         role: "forwarder" // Always set to forwarder when created by admin
       });
       
+      await recordAudit(req, { action: 'user.create', entityType: 'user', entityId: user.id, after: user });
+      
       // Set session
-      req.session.userId = user.id;
-      req.session.username = user.username;
-      req.session.role = user.role;
+      startSession(req, user);
       
-      res.status(201).json({
-        id: user.id,
-        username: user.username,
-        companyName: user.companyName,
-        role: user.role
-      });
+      res.status(201).json(await toSessionUser(req, user));
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
@@ -91,27 +319,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { username, password } = req.body;
       
-      if (!username || !password) {
+      if (!username || !password || typeof username !== 'string' || typeof password !== 'string') {
         return res.status(400).json({ message: "Username and password are required" });
       }
       
       const user = await storage.getUserByUsername(username);
       
-      if (!user || user.password !== password) { // In a real app, passwords would be hashed and compared securely
+      if (!user || !(await verifyPassword(password, user.password))) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
+      // Accounts created before hashing still hold their plaintext password
+      if (!isPasswordHash(user.password)) {
+        await storage.updateUserPassword(user.id, password);
+      }
+      
+      // Users with 2FA finish signing in through /api/login/two-factor
+      if (user.totpEnabled) {
+        req.session.regenerate((err) => {
+          if (err) {
+            console.error(err);
+            return res.status(500).json({ message: "Server error" });
+          }
+          req.session.twoFactorPendingUserId = user.id;
+          req.session.twoFactorAttempts = 0;
+          res.json({ twoFactorRequired: true });
+        });
+        return;
+      }
+      
       // Set session
-      req.session.userId = user.id;
-      req.session.username = user.username;
-      req.session.role = user.role;
+      startSession(req, user);
       
-      res.json({
-        id: user.id,
-        username: user.username,
-        companyName: user.companyName,
-        role: user.role
-      });
+      res.json(await toSessionUser(req, user));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Second login step: an authenticator or recovery code for the user whose
+  // password was just checked
+  app.post("/api/login/two-factor", async (req, res) => {
+    try {
+      const { code } = req.body;
+      const userId = req.session.twoFactorPendingUserId;
+      
+      if (!userId) {
+        return res.status(401).json({ message: "Please sign in with your password first" });
+      }
+      
+      if (!code || typeof code !== 'string') {
+        return res.status(400).json({ message: "Code is required" });
+      }
+      
+      const user = await storage.getUser(userId);
+      
+      if (!user || !(await verifySecondFactor(user, code))) {
+        req.session.twoFactorAttempts = (req.session.twoFactorAttempts || 0) + 1;
+        
+        if (req.session.twoFactorAttempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.twoFactorPendingUserId;
+          delete req.session.twoFactorAttempts;
+          return res.status(401).json({ message: "Too many invalid codes. Please sign in again." });
+        }
+        
+        return res.status(401).json({ message: "Invalid code" });
+      }
+      
+      startSession(req, user);
+      
+      res.json(await toSessionUser(req, user));
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
@@ -140,25 +418,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "User not found" });
       }
       
-      res.json({
-        id: user.id,
-        username: user.username,
-        companyName: user.companyName,
-        role: user.role
-      });
+      // Lets the client send users to 2FA setup once an admin requires it
+      req.session.twoFactorEnrollmentRequired = user.totpRequired && !user.totpEnabled;
+      res.json(await toSessionUser(req, user));
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
     }
   });
   
-  // Get all users (admin only)
-  app.get("/api/users", requireAdmin, async (req, res) => {
+  // Get the users the signed-in user may manage
+  app.get("/api/users", requirePermission('company_users:manage'), async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
+      const users = [];
+      
+      for (const user of await storage.getAllUsers()) {
+        if (await canManageUser(req, user)) {
+          users.push(await toPublicUser(user));
+        }
+      }
       
-      // Include passwords since we need to display them in the admin view
-      // In a real production app, we would never expose passwords like this
       res.json(users);
     } catch (error) {
       console.error(error);
@@ -166,205 +445,1651 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // LANE ROUTES
-  app.get("/api/lanes", requireAuth, async (req, res) => {
+  // Forwarders that can be invited to lanes and tenders or added to carrier groups
+  app.get("/api/forwarders", requirePermission('lanes:manage'), async (req, res) => {
     try {
-      const filters = {
-        status: req.query.status as string | undefined,
-        vehicleType: req.query.vehicleType as string | undefined,
-        loadingLocation: req.query.loadingLocation as string | undefined,
-        unloadingLocation: req.query.unloadingLocation as string | undefined
-      };
-      
-      const lanes = await storage.getLanes(filters);
-      res.json(lanes);
+      const forwarders = (await storage.getAllUsers())
+        .filter(user => hasPermission(user.role, 'bids:place'));
+      res.json(await Promise.all(forwarders.map(toPublicUser)));
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  app.get("/api/lanes/:id", requireAuth, async (req, res) => {
+  // Makes a user set up 2FA the next time they sign in, or lifts that requirement
+  app.put("/api/users/:id/two-factor", requirePermission('company_users:manage'), async (req, res) => {
     try {
-      const laneId = parseInt(req.params.id);
+      const userId = parseInt(req.params.id);
       
-      if (isNaN(laneId)) {
-        return res.status(400).json({ message: "Invalid lane ID" });
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
       }
       
-      const lane = await storage.getLane(laneId);
+      const schema = z.object({
+        required: z.boolean()
+      });
       
-      if (!lane) {
-        return res.status(404).json({ message: "Lane not found" });
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
       }
       
-      const minBid = await storage.getLowestBidForLane(laneId);
-      const bidCount = await storage.getBidCountForLane(laneId);
+      const existingUser = await storage.getUser(userId);
       
-      res.json({
-        ...lane,
-        minBid,
-        bidCount
+      if (!existingUser || !(await canManageUser(req, existingUser))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const user = await storage.updateUserTwoFactor(userId, { totpRequired: result.data.required });
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await recordAudit(req, {
+        action: 'user.two_factor_requirement',
+        entityType: 'user',
+        entityId: user.id,
+        before: { totpRequired: existingUser.totpRequired },
+        after: { totpRequired: user.totpRequired }
       });
+      
+      if (user.totpRequired !== existingUser.totpRequired) {
+        await notifyUsers([user.id], {
+          type: 'account',
+          title: 'Two-factor authentication',
+          message: user.totpRequired
+            ? 'Your administrator now requires two-factor authentication for your account.'
+            : 'Your administrator no longer requires two-factor authentication for your account.'
+        });
+      }
+      
+      res.json(await toPublicUser(user));
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  app.post("/api/lanes", requireAdmin, async (req, res) => {
+  // Changes a user's role. Company user managers can only move their
+  // colleagues between the forwarder roles.
+  app.put("/api/users/:id/role", requirePermission('company_users:manage'), async (req, res) => {
     try {
-      // Debug what's being sent
-      console.log("Lane creation request body:", JSON.stringify(req.body));
+      const userId = parseInt(req.params.id);
       
-      // Add the createdBy field before validation
-      const dataWithCreatedBy = {
-        ...req.body,
-        createdBy: req.session.userId!
-      };
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
       
-      console.log("Lane creation data with createdBy:", JSON.stringify(dataWithCreatedBy));
+      const schema = z.object({
+        role: z.enum(roleEnum.enumValues)
+      });
       
-      const result = insertLaneSchema.safeParse(dataWithCreatedBy);
+      const result = schema.safeParse(req.body);
       
       if (!result.success) {
-        console.log("Lane validation error:", fromZodError(result.error).message);
         return res.status(400).json({ 
           message: fromZodError(result.error).message 
         });
       }
       
-      const lane = await storage.createLane(result.data);
-      console.log("Lane created:", JSON.stringify(lane));
+      const { role } = result.data;
       
-      // Send email notifications
-      try {
-        const users = await storage.getAllUsers();
-        const forwarderEmails = users
-          .filter(user => user.role === 'forwarder')
-          .map(user => user.email);
-        
-        if (forwarderEmails.length > 0) {
-          await sendLaneNotification(forwarderEmails, lane);
-        }
-      } catch (error) {
-        console.error('Failed to send email notifications:', error);
+      // Keeps managers from locking themselves out
+      if (userId === req.session.userId) {
+        return res.status(400).json({ message: "You cannot change your own role" });
       }
       
-      res.status(201).json(lane);
-    } catch (error) {
-      console.error(error);
-      res.status(500).json({ message: "Server error" });
-    }
-  });
-
-  app.put("/api/lanes/:id", requireAdmin, async (req, res) => {
-    try {
-      const laneId = parseInt(req.params.id);
+      const existingUser = await storage.getUser(userId);
       
-      if (isNaN(laneId)) {
-        return res.status(400).json({ message: "Invalid lane ID" });
+      if (!existingUser || !(await canManageUser(req, existingUser))) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      // Get existing lane
-      const existingLane = await storage.getLane(laneId);
-      
-      if (!existingLane) {
-        return res.status(404).json({ message: "Lane not found" });
+      if (!hasPermission(req.session.role, 'users:manage') && !FORWARDER_ROLES.includes(role)) {
+        return res.status(403).json({ message: "Forbidden: You can only assign forwarder roles" });
       }
       
-      // Validate update
-      const partialSchema = insertLaneSchema.partial();
-      const result = partialSchema.safeParse(req.body);
+      const user = await storage.updateUserRole(userId, role);
       
-      if (!result.success) {
-        return res.status(400).json({ 
-          message: fromZodError(result.error).message 
-        });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      // Update lane
-      const updatedLane = await storage.updateLane(laneId, result.data);
+      await recordAudit(req, {
+        action: 'user.role_change',
+        entityType: 'user',
+        entityId: user.id,
+        before: { role: existingUser.role },
+        after: { role: user.role }
+      });
       
-      if (!updatedLane) {
-        return res.status(404).json({ message: "Lane not found" });
+      if (user.role !== existingUser.role) {
+        await notifyUsers([user.id], {
+          type: 'account',
+          title: 'Role changed',
+          message: `Your role is now ${user.role.replace('_', ' ')}.`
+        });
       }
       
-      res.json(updatedLane);
+      res.json(await toPublicUser(user));
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  app.delete("/api/lanes/:id", requireAdmin, async (req, res) => {
+  // AUDIT LOG ROUTES
+  // Newest first; accepts actor, action, entityType, entityId, groupId, from
+  // and to filters
+  app.get("/api/audit-logs", requirePermission('audit:view'), async (req, res) => {
     try {
-      const laneId = parseInt(req.params.id);
+      res.json(await storage.getAuditLogs(getAuditLogFilters(req.query), AUDIT_LOG_PAGE_SIZE));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Every entry matching the filters, for compliance reviews
+  app.get("/api/audit-logs/export", requirePermission('audit:view'), async (req, res) => {
+    try {
+      const format: SheetFormat = req.query.format === 'csv' ? 'csv' : 'xlsx';
+      const entries = await storage.getAuditLogs(getAuditLogFilters(req.query));
+      const file = writeSheet(toAuditLogRows(entries), AUDIT_LOG_HEADERS, format, "Audit Log");
       
-      if (isNaN(laneId)) {
-        return res.status(400).json({ message: "Invalid lane ID" });
-      }
+      res.setHeader(
+        "Content-Type",
+        format === 'csv'
+          ? "text/csv"
+          : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log.${format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // TWO-FACTOR ROUTES
+  // Starts enrollment with a new secret; it only takes effect once confirmed
+  app.post("/api/two-factor/setup", requireSession, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
       
-      const deleted = await storage.deleteLane(laneId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
       
-      if (!deleted) {
-        return res.status(404).json({ message: "Lane not found" });
+      if (user.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
       }
       
-      res.json({ message: "Lane deleted successfully" });
+      const enrollment = await createTotpEnrollment(user.username);
+      await storage.updateUserTwoFactor(user.id, { totpSecret: enrollment.secret });
+      
+      res.json(enrollment);
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  // BID ROUTES
-  app.get("/api/lanes/:id/bids", requireAuth, async (req, res) => {
+  // Confirms enrollment with a code from the app and hands out recovery codes
+  app.post("/api/two-factor/enable", requireSession, async (req, res) => {
     try {
-      const laneId = parseInt(req.params.id);
+      const { code } = req.body;
       
-      if (isNaN(laneId)) {
-        return res.status(400).json({ message: "Invalid lane ID" });
+      if (!code || typeof code !== 'string') {
+        return res.status(400).json({ message: "Code is required" });
       }
       
-      const lane = await storage.getLane(laneId);
+      const user = await storage.getUser(req.session.userId!);
       
-      if (!lane) {
-        return res.status(404).json({ message: "Lane not found" });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (user.totpEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Two-factor setup has not been started" });
       }
       
-      // Only admins can see all bids
-      if (req.session.role !== 'admin') {
-        return res.status(403).json({ message: "Forbidden: Admin access required" });
+      if (!verifyTotp(user.totpSecret, code)) {
+        return res.status(400).json({ message: "Invalid code" });
       }
       
-      const bids = await storage.getBidsByLane(laneId);
-      res.json(bids);
+      const { codes, codeHashes } = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, { totpEnabled: true, totpRecoveryCodes: codeHashes });
+      req.session.twoFactorEnrollmentRequired = false;
+      
+      await recordAudit(req, {
+        action: 'user.two_factor_enable',
+        entityType: 'user',
+        entityId: user.id,
+        before: { totpEnabled: false },
+        after: { totpEnabled: true }
+      });
+      
+      await notifyUsers([user.id], {
+        type: 'account',
+        title: 'Two-factor authentication enabled',
+        message: 'You will be asked for a code each time you sign in.'
+      });
+      
+      res.json({ recoveryCodes: codes });
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
     }
   });
-  
-  // Get user's bids (for bid history)
-  app.get("/api/user/bids", requireAuth, async (req, res) => {
+
+  app.post("/api/two-factor/disable", requireAuth, async (req, res) => {
     try {
-      // Get all lanes first
-      const lanes = await storage.getLanes();
+      const { code } = req.body;
       
-      // Get all bids for each lane
-      const allBids: any[] = [];
+      if (!code || typeof code !== 'string') {
+        return res.status(400).json({ message: "Code is required" });
+      }
       
-      for (const lane of lanes) {
+      const user = await storage.getUser(req.session.userId!);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (user.totpRequired) {
+        return res.status(400).json({ message: "Your administrator requires two-factor authentication" });
+      }
+      
+      if (!(await verifySecondFactor(user, code))) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+      
+      await storage.updateUserTwoFactor(user.id, { totpSecret: null, totpEnabled: false, totpRecoveryCodes: [] });
+      
+      await recordAudit(req, {
+        action: 'user.two_factor_disable',
+        entityType: 'user',
+        entityId: user.id,
+        before: { totpEnabled: true },
+        after: { totpEnabled: false }
+      });
+      
+      await notifyUsers([user.id], {
+        type: 'account',
+        title: 'Two-factor authentication disabled',
+        message: 'If you did not do this, reset your password and contact your administrator.'
+      });
+      
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // COMPANY ROUTES
+  app.get("/api/companies", requirePermission('users:manage'), async (req, res) => {
+    try {
+      res.json(await storage.getCompanies());
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/companies", requirePermission('users:manage'), async (req, res) => {
+    try {
+      const result = insertCompanySchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      // Catches near-duplicates such as "Freight Co." and "Freight Co"
+      const existingCompany = await storage.getCompanyByName(result.data.name);
+      
+      if (existingCompany) {
+        return res.status(400).json({ message: `Company "${existingCompany.name}" already exists` });
+      }
+      
+      const company = await storage.createCompany(result.data);
+      await recordAudit(req, { action: 'company.create', entityType: 'company', entityId: company.id, after: company });
+      res.status(201).json(company);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // INVITATION ROUTES
+  app.post("/api/invitations", requirePermission('company_users:manage'), async (req, res) => {
+    try {
+      const schema = z.object({
+        email: z.string().email(),
+        companyId: z.number().int()
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const { email, companyId } = result.data;
+      
+      if (await storage.getUserByEmail(email)) {
+        return res.status(400).json({ message: "A user with this email already exists" });
+      }
+      
+      const company = await storage.getCompany(companyId);
+      
+      if (!company) {
+        return res.status(400).json({ message: "Company not found" });
+      }
+      
+      // Company user managers can only invite colleagues
+      if (!hasPermission(req.session.role, 'users:manage')) {
+        const manager = await storage.getUser(req.session.userId!);
+        
+        if (!manager || manager.companyId !== companyId) {
+          return res.status(403).json({ message: "Forbidden: You can only invite users to your own company" });
+        }
+      }
+      
+      const { token, tokenHash } = generateToken();
+      const expiresAt = new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000);
+      const invitation = await storage.createUserInvitation({
+        email,
+        companyId,
+        tokenHash,
+        expiresAt,
+        invitedBy: req.session.userId!
+      });
+      
+      await recordAudit(req, { action: 'invitation.create', entityType: 'invitation', entityId: invitation.id, after: invitation });
+      
+      try {
+        await queueEmail(email, 'invitation', {
+          companyName: company.name,
+          link: `${appUrl}/accept-invitation?token=${token}`,
+          expiresAt
+        });
+      } catch (error) {
+        console.error('Failed to queue invitation email:', error);
+        return res.status(500).json({ message: "The invitation email could not be sent" });
+      }
+      
+      res.status(201).json({
+        id: invitation.id,
+        email: invitation.email,
+        companyId: invitation.companyId,
+        expiresAt: invitation.expiresAt
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Creates the invited forwarder's account with the credentials they chose
+  app.post("/api/invitations/accept", async (req, res) => {
+    try {
+      const schema = z.object({
+        token: z.string().min(1),
+        username: z.string().min(3),
+        password: passwordSchema
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const { token, username, password } = result.data;
+      const invitation = await storage.getUserInvitationByTokenHash(hashToken(token));
+      
+      if (!invitation || invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+        return res.status(400).json({ message: "This invitation link is invalid or has expired" });
+      }
+      
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      
+      if (await storage.getUserByEmail(invitation.email)) {
+        return res.status(400).json({ message: "A user with this email already exists" });
+      }
+      
+      const user = await storage.acceptUserInvitation(invitation.id, {
+        username,
+        password,
+        email: invitation.email,
+        companyId: invitation.companyId,
+        role: "forwarder"
+      });
+      
+      if (!user) {
+        return res.status(400).json({ message: "This invitation link is invalid or has expired" });
+      }
+      
+      await recordAudit(req, {
+        action: 'user.create',
+        entityType: 'user',
+        entityId: user.id,
+        after: user,
+        actor: { id: user.id, username: user.username }
+      });
+      
+      startSession(req, user);
+      
+      res.status(201).json(await toSessionUser(req, user));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // PASSWORD RESET ROUTES
+  // Always answers the same way so the form cannot be used to discover accounts
+  app.post("/api/password-reset/request", async (req, res) => {
+    try {
+      const schema = z.object({
+        email: z.string().email()
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const user = await storage.getUserByEmail(result.data.email);
+      
+      if (user) {
+        const { token, tokenHash } = generateToken();
+        const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+        await storage.createPasswordResetToken({ userId: user.id, tokenHash, expiresAt });
+        await recordAudit(req, {
+          action: 'user.password_reset_request',
+          entityType: 'user',
+          entityId: user.id,
+          actor: { id: user.id, username: user.username }
+        });
+        
+        try {
+          await queueEmail(user.email, 'password_reset', {
+            link: `${appUrl}/reset-password?token=${token}`,
+            expiresAt
+          });
+        } catch (error) {
+          console.error('Failed to queue password reset email:', error);
+        }
+      }
+      
+      res.json({ message: "If an account exists for this email, a reset link has been sent" });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/password-reset", async (req, res) => {
+    try {
+      const schema = z.object({
+        token: z.string().min(1),
+        password: passwordSchema
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const { token, password } = result.data;
+      const resetToken = await storage.getPasswordResetTokenByHash(hashToken(token));
+      
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+      
+      const user = await storage.resetPassword(resetToken.id, password);
+      
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+      
+      await recordAudit(req, {
+        action: 'user.password_reset',
+        entityType: 'user',
+        entityId: user.id,
+        actor: { id: user.id, username: user.username }
+      });
+      
+      await notifyUsers([user.id], {
+        type: 'account',
+        title: 'Password changed',
+        message: 'Your password was reset. If you did not do this, contact your administrator.'
+      });
+      
+      res.json({ message: "Your password has been reset" });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // CARRIER GROUP ROUTES
+  // Saved panels of forwarders, picked as a whole when inviting forwarders.
+  // Everyone who reviews bids can list them to filter reports by group.
+  app.get("/api/carrier-groups", requirePermission('bids:view'), async (req, res) => {
+    try {
+      res.json(await storage.getCarrierGroups());
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/carrier-groups", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const result = carrierGroupSchema.safeParse({
+        ...req.body,
+        createdBy: req.session.userId!
+      });
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const { userIds, ...groupData } = result.data;
+      
+      if ((await storage.getCarrierGroups()).some(group => group.name.toLowerCase() === groupData.name.toLowerCase())) {
+        return res.status(400).json({ message: "A carrier group with this name already exists" });
+      }
+      
+      if (!(await areForwarders(userIds))) {
+        return res.status(400).json({ message: "Only freight forwarders can be added to a carrier group" });
+      }
+      
+      const group = await storage.createCarrierGroup(groupData, userIds);
+      await recordAudit(req, { action: 'carrier_group.create', entityType: 'carrier_group', entityId: group.id, after: group });
+      res.status(201).json(group);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Lanes the group is invited to follow its new members
+  app.put("/api/carrier-groups/:id", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const groupId = parseInt(req.params.id);
+      
+      if (isNaN(groupId)) {
+        return res.status(400).json({ message: "Invalid carrier group ID" });
+      }
+      
+      const existingGroup = await storage.getCarrierGroup(groupId);
+      
+      if (!existingGroup) {
+        return res.status(404).json({ message: "Carrier group not found" });
+      }
+      
+      const result = carrierGroupSchema.omit({ createdBy: true }).partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const { userIds, ...groupData } = result.data;
+      const name = groupData.name?.toLowerCase();
+      
+      if (name && (await storage.getCarrierGroups()).some(group => group.id !== groupId && group.name.toLowerCase() === name)) {
+        return res.status(400).json({ message: "A carrier group with this name already exists" });
+      }
+      
+      if (userIds && !(await areForwarders(userIds))) {
+        return res.status(400).json({ message: "Only freight forwarders can be added to a carrier group" });
+      }
+      
+      const group = await storage.updateCarrierGroup(groupId, groupData, userIds);
+      
+      if (!group) {
+        return res.status(404).json({ message: "Carrier group not found" });
+      }
+      
+      await recordAudit(req, { action: 'carrier_group.update', entityType: 'carrier_group', entityId: groupId, before: existingGroup, after: group });
+      
+      res.json(group);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.delete("/api/carrier-groups/:id", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const groupId = parseInt(req.params.id);
+      
+      if (isNaN(groupId)) {
+        return res.status(400).json({ message: "Invalid carrier group ID" });
+      }
+      
+      const existingGroup = await storage.getCarrierGroup(groupId);
+      
+      if (!existingGroup) {
+        return res.status(404).json({ message: "Carrier group not found" });
+      }
+      
+      // Dropping the group from a lane's invitations could leave the list
+      // empty, which would open the lane to every forwarder
+      const laneIds = await storage.getCarrierGroupLaneIds(groupId);
+      
+      if (laneIds.length > 0) {
+        return res.status(400).json({
+          message: `The group is invited to lanes ${laneIds.map(laneId => `#${laneId}`).join(', ')}; remove it from their invitations first`
+        });
+      }
+      
+      const tenderIds = await storage.getCarrierGroupTenderIds(groupId);
+      
+      if (tenderIds.length > 0) {
+        return res.status(400).json({
+          message: `The group is invited to tenders ${tenderIds.map(tenderId => `#${tenderId}`).join(', ')}; remove it from their invitations first`
+        });
+      }
+      
+      if (!(await storage.deleteCarrierGroup(groupId))) {
+        return res.status(404).json({ message: "Carrier group not found" });
+      }
+      
+      await recordAudit(req, { action: 'carrier_group.delete', entityType: 'carrier_group', entityId: groupId, before: existingGroup });
+      
+      res.json({ message: "Carrier group deleted successfully" });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // LANE ROUTES
+  app.get("/api/lanes", requireAuth, async (req, res) => {
+    try {
+      const filters = {
+        status: req.query.status as string | undefined,
+        vehicleType: req.query.vehicleType as string | undefined,
+        loadingLocation: req.query.loadingLocation as string | undefined,
+        unloadingLocation: req.query.unloadingLocation as string | undefined
+      };
+      
+      const lanes = await getViewableLanes(await storage.getLanes(filters), req.session.role, req.session.userId);
+      res.json(await Promise.all(lanes.map(lane => getVisibleLane(lane, req.session.role, req.session.userId))));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.get("/api/lanes/:id", requireAuth, async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      // Lanes a forwarder is not invited to do not exist for them
+      if (!lane || !(await canViewLane(lane, req.session.role, req.session.userId))) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      // Only the current round competes, earlier rounds are history
+      const minBid = await storage.getLowestBidForLane(laneId, lane.currentRound);
+      const bidCount = await storage.getBidCountForLane(laneId, lane.currentRound);
+      
+      res.json(await getVisibleLane({
+        ...lane,
+        minBid,
+        bidCount
+      }, req.session.role, req.session.userId));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/lanes", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      // Debug what's being sent
+      console.log("Lane creation request body:", JSON.stringify(req.body));
+      
+      // Add the createdBy field before validation
+      const dataWithCreatedBy = {
+        ...req.body,
+        createdBy: req.session.userId!
+      };
+      
+      console.log("Lane creation data with createdBy:", JSON.stringify(dataWithCreatedBy));
+      
+      const result = insertLaneSchema.safeParse(dataWithCreatedBy);
+      
+      if (!result.success) {
+        console.log("Lane validation error:", fromZodError(result.error).message);
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const inviteesResult = laneInviteesSchema.default({}).safeParse(req.body.invitees);
+      
+      if (!inviteesResult.success) {
+        return res.status(400).json({ 
+          message: fromZodError(inviteesResult.error).message 
+        });
+      }
+      
+      const invitees: LaneInvitees = inviteesResult.data;
+      
+      let laneData = result.data;
+      
+      // Lanes created inside a tender take over its timing, rules and forwarders
+      if (laneData.tenderId) {
+        const tender = await storage.getTender(laneData.tenderId);
+        
+        if (!tender) {
+          return res.status(400).json({ message: "Tender not found" });
+        }
+        
+        if (hasInvitees(invitees)) {
+          return res.status(400).json({ message: "Tender lanes are published to the forwarders invited to the tender" });
+        }
+        
+        laneData = { ...laneData, ...getTenderLaneSettings(tender) };
+      }
+      
+      const inviteesError = await getLaneInviteesError(invitees);
+      
+      if (inviteesError) {
+        return res.status(400).json({ message: inviteesError });
+      }
+      
+      const lane = await storage.createLane(laneData, invitees);
+      console.log("Lane created:", JSON.stringify(lane));
+      await recordAudit(req, { action: 'lane.create', entityType: 'lane', entityId: lane.id, after: { ...lane, invitees } });
+      
+      // Tell the invited forwarders, or every forwarder when nobody is invited
+      try {
+        await announceLane(lane, await getLaneForwarders(lane));
+      } catch (error) {
+        console.error('Failed to queue email notifications:', error);
+      }
+      
+      res.status(201).json(lane);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Bulk lane import from a CSV or XLSX upload sent as the raw request body.
+  // With ?dryRun=true only the row-by-row validation report is returned,
+  // otherwise every valid row is created in a single transaction. The
+  // invitation list for every imported lane is sent as JSON in ?invitees=.
+  app.post(
+    "/api/lanes/import",
+    requirePermission('lanes:manage'),
+    express.raw({ type: () => true, limit: SHEET_UPLOAD_MAX_BYTES }),
+    async (req, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload a CSV or XLSX file" });
+        }
+        
+        let sheetRows: Record<string, unknown>[];
+        
+        try {
+          sheetRows = readSheetRows(req.body);
+        } catch (error) {
+          return res.status(400).json({ message: "Could not read the uploaded file as CSV or XLSX" });
+        }
+        
+        if (sheetRows.length === 0) {
+          return res.status(400).json({ message: "The uploaded file contains no lanes" });
+        }
+        
+        let inviteesInput: unknown;
+        
+        try {
+          inviteesInput = typeof req.query.invitees === 'string' ? JSON.parse(req.query.invitees) : undefined;
+        } catch (error) {
+          return res.status(400).json({ message: "Invalid invitees" });
+        }
+        
+        const inviteesResult = laneInviteesSchema.default({}).safeParse(inviteesInput);
+        
+        if (!inviteesResult.success) {
+          return res.status(400).json({ 
+            message: fromZodError(inviteesResult.error).message 
+          });
+        }
+        
+        const invitees: LaneInvitees = inviteesResult.data;
+        const inviteesError = await getLaneInviteesError(invitees);
+        
+        if (inviteesError) {
+          return res.status(400).json({ message: inviteesError });
+        }
+        
+        const report = validateLaneRows(sheetRows, req.session.userId!);
+        const validLanes = report.flatMap(row => row.lane ? [row.lane] : []);
+        const summary = {
+          rows: report.map(({ row, errors }) => ({ row, errors })),
+          validCount: validLanes.length,
+          errorCount: report.length - validLanes.length
+        };
+        
+        if (req.query.dryRun === 'true') {
+          return res.json(summary);
+        }
+        
+        if (validLanes.length === 0) {
+          return res.status(400).json({ message: "No valid lanes to import", ...summary });
+        }
+        
+        const created = await storage.createLanes(validLanes, invitees);
+        
+        for (const lane of created) {
+          await recordAudit(req, { action: 'lane.import', entityType: 'lane', entityId: lane.id, after: { ...lane, invitees } });
+        }
+        
+        // One email per forwarder for the whole import rather than one per lane
+        try {
+          await announceNewLanes(created);
+        } catch (error) {
+          console.error('Failed to queue email notifications:', error);
+        }
+        
+        res.status(201).json({ ...summary, created });
+      } catch (error) {
+        console.error(error);
+        res.status(500).json({ message: "Server error" });
+      }
+    }
+  );
+
+  app.put("/api/lanes/:id", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      // Get existing lane
+      const existingLane = await storage.getLane(laneId);
+      
+      if (!existingLane) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      // Validate update
+      const partialSchema = insertLaneSchema.partial();
+      const result = partialSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      // Switching between open and sealed mid-auction would leak or hide bids
+      if (
+        result.data.auctionType &&
+        result.data.auctionType !== existingLane.auctionType &&
+        await storage.getBidCountForLane(laneId) > 0
+      ) {
+        return res.status(400).json({ message: "Cannot change the auction type of a lane that already has bids" });
+      }
+      
+      // Awarding records the winning bids, so it has its own route
+      if (result.data.status === 'awarded' && existingLane.status !== 'awarded') {
+        return res.status(400).json({ message: "Use the award workflow to award a lane" });
+      }
+      
+      if (result.data.tenderId && !(await storage.getTender(result.data.tenderId))) {
+        return res.status(400).json({ message: "Tender not found" });
+      }
+      
+      // Status changes go through updateLaneStatus so they are recorded
+      const { status, ...laneData } = result.data;
+      
+      // Update lane
+      let updatedLane = await storage.updateLane(laneId, laneData);
+      
+      if (!updatedLane) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      if (status && status !== existingLane.status) {
+        updatedLane = await storage.updateLaneStatus(laneId, existingLane.status, status, req.session.userId);
+        
+        if (!updatedLane) {
+          return res.status(409).json({ message: "Lane status changed concurrently, please retry" });
+        }
+      }
+      
+      await recordAudit(req, { action: 'lane.update', entityType: 'lane', entityId: laneId, before: existingLane, after: updatedLane });
+      
+      broadcastLaneEvent(status && status !== existingLane.status ? 'lane_status_changed' : 'lane_updated', laneId);
+      res.json(updatedLane);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.get("/api/lanes/:id/invitees", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      if (!(await storage.getLane(laneId))) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      res.json(await storage.getLaneInvitees(laneId));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Replaces a standalone lane's invitation list. Forwarders who can see the
+  // lane for the first time are told about it while it is still open.
+  app.put("/api/lanes/:id/invitees", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      if (lane.tenderId) {
+        return res.status(400).json({ message: "Tender lanes are published to the forwarders invited to the tender" });
+      }
+      
+      const result = laneInviteesSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const invitees: LaneInvitees = result.data;
+      
+      const inviteesError = await getLaneInviteesError(invitees);
+      
+      if (inviteesError) {
+        return res.status(400).json({ message: inviteesError });
+      }
+      
+      const previousInvitees = await storage.getLaneInvitees(laneId);
+      const previousForwarderIds = (await getLaneForwarders(lane)).map(user => user.id);
+      await storage.setLaneInvitees(laneId, invitees);
+      
+      await recordAudit(req, {
+        action: 'lane.invitees_update',
+        entityType: 'lane',
+        entityId: laneId,
+        before: previousInvitees,
+        after: invitees
+      });
+      
+      if (!isLaneClosed(lane)) {
+        try {
+          const newForwarders = (await getLaneForwarders(lane))
+            .filter(user => !previousForwarderIds.includes(user.id));
+          
+          await announceLane(lane, newForwarders);
+        } catch (error) {
+          console.error('Failed to queue email notifications:', error);
+        }
+      }
+      
+      broadcastLaneEvent('lane_updated', laneId);
+      res.json(invitees);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.delete("/api/lanes/:id", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const existingLane = await storage.getLane(laneId);
+      const deleted = existingLane && await storage.deleteLane(laneId);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      await recordAudit(req, { action: 'lane.delete', entityType: 'lane', entityId: laneId, before: existingLane });
+      
+      res.json({ message: "Lane deleted successfully" });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // TENDER ROUTES
+  // Staff see every tender, forwarders only the tenders they are invited to
+  app.get("/api/tenders", requireAuth, async (req, res) => {
+    try {
+      const isStaff = hasPermission(req.session.role, 'bids:view');
+      const allLanes = await Promise.all(
+        (await storage.getLanes()).map(lane => getVisibleLane(lane, req.session.role, req.session.userId))
+      );
+      const tenderList = [];
+      
+      for (const tender of await storage.getTenders()) {
+        if (!isStaff && !(await storage.isTenderForwarder(tender.id, req.session.userId!))) {
+          continue;
+        }
+        
+        tenderList.push({
+          ...tender,
+          lanes: allLanes.filter(lane => lane.tenderId === tender.id),
+          forwarderIds: isStaff ? await storage.getTenderForwarderIds(tender.id) : [],
+          groupIds: isStaff ? await storage.getTenderGroupIds(tender.id) : []
+        });
+      }
+      
+      res.json(tenderList);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.get("/api/tenders/:id", requireAuth, async (req, res) => {
+    try {
+      const tenderId = parseInt(req.params.id);
+      
+      if (isNaN(tenderId)) {
+        return res.status(400).json({ message: "Invalid tender ID" });
+      }
+      
+      const tender = await storage.getTender(tenderId);
+      
+      if (!tender) {
+        return res.status(404).json({ message: "Tender not found" });
+      }
+      
+      const isStaff = hasPermission(req.session.role, 'bids:view');
+      
+      if (!isStaff && !(await storage.isTenderForwarder(tenderId, req.session.userId!))) {
+        return res.status(404).json({ message: "Tender not found" });
+      }
+      
+      const tenderLanes = await Promise.all(
+        (await storage.getLanes())
+          .filter(lane => lane.tenderId === tenderId)
+          .map(lane => getVisibleLane(lane, req.session.role, req.session.userId))
+      );
+      
+      res.json({
+        ...tender,
+        lanes: tenderLanes,
+        forwarderIds: isStaff ? await storage.getTenderForwarderIds(tenderId) : [],
+        groupIds: isStaff ? await storage.getTenderGroupIds(tenderId) : []
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.post("/api/tenders", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const result = insertTenderSchema.safeParse({
+        ...req.body,
+        createdBy: req.session.userId!
+      });
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      if (new Date(result.data.validUntil) <= new Date(result.data.validFrom)) {
+        return res.status(400).json({ message: "Valid until date must be after valid from date" });
+      }
+      
+      const tender = await storage.createTender(result.data);
+      await recordAudit(req, { action: 'tender.create', entityType: 'tender', entityId: tender.id, after: tender });
+      res.status(201).json(tender);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.put("/api/tenders/:id", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const tenderId = parseInt(req.params.id);
+      
+      if (isNaN(tenderId)) {
+        return res.status(400).json({ message: "Invalid tender ID" });
+      }
+      
+      const existingTender = await storage.getTender(tenderId);
+      
+      if (!existingTender) {
+        return res.status(404).json({ message: "Tender not found" });
+      }
+      
+      const result = insertTenderSchema.partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const validFrom = new Date(result.data.validFrom ?? existingTender.validFrom);
+      const validUntil = new Date(result.data.validUntil ?? existingTender.validUntil);
+      
+      if (validUntil <= validFrom) {
+        return res.status(400).json({ message: "Valid until date must be after valid from date" });
+      }
+      
+      const tender = await storage.updateTender(tenderId, result.data);
+      
+      if (!tender) {
+        return res.status(404).json({ message: "Tender not found" });
+      }
+      
+      // Keep the tender's lanes in line with its shared timing and rules
+      await applyTenderSettings(tender, await storage.getLanesByTender(tenderId));
+      
+      await recordAudit(req, { action: 'tender.update', entityType: 'tender', entityId: tenderId, before: existingTender, after: tender });
+      
+      res.json(tender);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.delete("/api/tenders/:id", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const tenderId = parseInt(req.params.id);
+      
+      if (isNaN(tenderId)) {
+        return res.status(400).json({ message: "Invalid tender ID" });
+      }
+      
+      const existingTender = await storage.getTender(tenderId);
+      const deleted = existingTender && await storage.deleteTender(tenderId);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Tender not found" });
+      }
+      
+      await recordAudit(req, { action: 'tender.delete', entityType: 'tender', entityId: tenderId, before: existingTender });
+      
+      res.json({ message: "Tender deleted successfully" });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Replaces the set of lanes owned by the tender
+  app.put("/api/tenders/:id/lanes", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const tenderId = parseInt(req.params.id);
+      
+      if (isNaN(tenderId)) {
+        return res.status(400).json({ message: "Invalid tender ID" });
+      }
+      
+      const tender = await storage.getTender(tenderId);
+      
+      if (!tender) {
+        return res.status(404).json({ message: "Tender not found" });
+      }
+      
+      const schema = z.object({
+        laneIds: z.array(z.number().int())
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const { laneIds } = result.data;
+      const assignedLanes = [];
+      
+      for (const laneId of laneIds) {
+        const lane = await storage.getLane(laneId);
+        
+        if (!lane) {
+          return res.status(400).json({ message: `Lane ${laneId} not found` });
+        }
+        
+        if (lane.tenderId && lane.tenderId !== tenderId) {
+          return res.status(400).json({ message: `Lane ${laneId} already belongs to another tender` });
+        }
+        
+        assignedLanes.push(lane);
+      }
+      
+      const previousLanes = await storage.getLanesByTender(tenderId);
+      const previousForwarderIds = await getForwarderIdsByLane(assignedLanes);
+      
+      for (const lane of previousLanes) {
+        if (!laneIds.includes(lane.id)) {
+          await storage.updateLane(lane.id, { tenderId: null });
+          broadcastLaneEvent('lane_updated', lane.id);
+        }
+      }
+      
+      for (const lane of assignedLanes) {
+        await storage.updateLane(lane.id, { tenderId });
+      }
+      
+      await applyTenderSettings(tender, assignedLanes);
+      
+      await recordAudit(req, {
+        action: 'tender.lanes_update',
+        entityType: 'tender',
+        entityId: tenderId,
+        before: { laneIds: previousLanes.map(lane => lane.id) },
+        after: { laneIds }
+      });
+      
+      const tenderLanes = await storage.getLanesByTender(tenderId);
+      
+      // Lanes moved in are now published to the tender's forwarders
+      try {
+        await announceNewLanes(tenderLanes, previousForwarderIds);
+      } catch (error) {
+        console.error('Failed to queue email notifications:', error);
+      }
+      
+      res.json(tenderLanes);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Replaces the forwarders and carrier groups invited to the tender
+  app.put("/api/tenders/:id/forwarders", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const tenderId = parseInt(req.params.id);
+      
+      if (isNaN(tenderId)) {
+        return res.status(400).json({ message: "Invalid tender ID" });
+      }
+      
+      const tender = await storage.getTender(tenderId);
+      
+      if (!tender) {
+        return res.status(404).json({ message: "Tender not found" });
+      }
+      
+      const schema = z.object({
+        userIds: idListSchema,
+        groupIds: idListSchema
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const { userIds, groupIds } = result.data;
+      
+      if (!(await areForwarders(userIds))) {
+        return res.status(400).json({ message: "Only freight forwarders can be invited to a tender" });
+      }
+      
+      for (const groupId of groupIds) {
+        if (!(await storage.getCarrierGroup(groupId))) {
+          return res.status(400).json({ message: "Carrier group not found" });
+        }
+      }
+      
+      const previousUserIds = await storage.getTenderForwarderIds(tenderId);
+      const previousGroupIds = await storage.getTenderGroupIds(tenderId);
+      const tenderLanes = await storage.getLanesByTender(tenderId);
+      const previousForwarderIds = await getForwarderIdsByLane(tenderLanes);
+      await storage.setTenderForwarders(tenderId, userIds, groupIds);
+      
+      await recordAudit(req, {
+        action: 'tender.forwarders_update',
+        entityType: 'tender',
+        entityId: tenderId,
+        before: { forwarderIds: previousUserIds, groupIds: previousGroupIds },
+        after: { forwarderIds: userIds, groupIds }
+      });
+      
+      try {
+        await announceNewLanes(tenderLanes, previousForwarderIds);
+      } catch (error) {
+        console.error('Failed to queue email notifications:', error);
+      }
+      
+      res.json({ forwarderIds: userIds, groupIds });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Bulk actions: open, extend or close every lane of the tender at once
+  app.post("/api/tenders/:id/:action(open|extend|close)", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const tenderId = parseInt(req.params.id);
+      
+      if (isNaN(tenderId)) {
+        return res.status(400).json({ message: "Invalid tender ID" });
+      }
+      
+      const tender = await storage.getTender(tenderId);
+      
+      if (!tender) {
+        return res.status(404).json({ message: "Tender not found" });
+      }
+      
+      const schema = z.object({
+        validUntil: z.string().or(z.date()).transform(val => new Date(val)).optional()
+      });
+      
+      const result = schema.safeParse(req.body ?? {});
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const action = req.params.action as TenderAction;
+      const now = new Date();
+      let timing: Pick<Tender, 'validUntil'> & Partial<Pick<Tender, 'validFrom'>>;
+      
+      if (action === 'close') {
+        timing = { validUntil: now };
+      } else {
+        const validUntil = result.data.validUntil ?? (action === 'open' ? tender.validUntil : undefined);
+        
+        if (!validUntil || isNaN(validUntil.getTime())) {
+          return res.status(400).json({ message: "A new valid until date is required" });
+        }
+        
+        if (validUntil <= now) {
+          return res.status(400).json({ message: "Valid until date must be in the future" });
+        }
+        
+        timing = action === 'open' ? { validFrom: now, validUntil } : { validUntil };
+      }
+      
+      const updatedTender = await storage.updateTender(tenderId, timing);
+      const changedLanes = await scheduleTenderLanes(tenderId, action, timing, req.session.userId!, now);
+      
+      await recordAudit(req, {
+        action: `tender.${action}`,
+        entityType: 'tender',
+        entityId: tenderId,
+        before: { validFrom: tender.validFrom, validUntil: tender.validUntil },
+        after: { ...timing, laneIds: changedLanes.map(lane => lane.id) }
+      });
+      
+      res.json({ tender: updatedTender, lanes: changedLanes });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // BID ROUTES
+  app.get("/api/lanes/:id/bids", requireAuth, async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      // Only staff can see all bids
+      if (!hasPermission(req.session.role, 'bids:view')) {
+        return res.status(403).json({ message: "Forbidden: You do not have permission to do this" });
+      }
+      
+      // Sealed bids are revealed all at once by the opening event
+      if (lane.auctionType === 'sealed' && !lane.bidsOpenedAt) {
+        return res.status(403).json({ message: "Sealed bids are hidden until they are opened" });
+      }
+      
+      let bids = await storage.getBidsByLane(laneId);
+      
+      // `?groupId=` narrows the bids to the members of one carrier group
+      if (typeof req.query.groupId === 'string' && req.query.groupId) {
+        const group = await storage.getCarrierGroup(parseInt(req.query.groupId));
+        
+        if (!group) {
+          return res.status(400).json({ message: "Carrier group not found" });
+        }
+        
+        bids = bids.filter(bid => group.userIds.includes(bid.userId));
+      }
+      
+      // Proxy floors stay hidden until the lane closes
+      if (!isLaneClosed(lane)) {
+        return res.json(bids);
+      }
+      
+      const proxyBids = await storage.getProxyBidsByLane(laneId);
+      
+      res.json(bids.map(bid => {
+        const proxyBid = bid.isProxy
+          ? proxyBids.find(proxy => proxy.userId === bid.userId && proxy.round === bid.round)
+          : undefined;
+        
+        return proxyBid ? { ...bid, proxyFloor: parseFloat(proxyBid.floorAmount) } : bid;
+      }));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+  
+  // NOTIFICATION ROUTES
+  // The user's latest notifications with the number still unread
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      
+      res.json({
+        notifications: await storage.getNotifications(userId, NOTIFICATION_PAGE_SIZE),
+        unreadCount: await storage.getUnreadNotificationCount(userId)
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+  
+  // Marks the given notifications as read, or all of them without `ids`
+  app.patch("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const schema = z.object({
+        ids: z.array(z.number().int()).optional()
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const userId = req.session.userId!;
+      await storage.markNotificationsRead(userId, result.data.ids);
+      
+      res.json({ unreadCount: await storage.getUnreadNotificationCount(userId) });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+  
+  // NOTIFICATION PREFERENCE ROUTES
+  // Outbid alerts and closing reminders; the defaults until the user saves their own
+  app.get("/api/user/notification-preferences", requireAuth, async (req, res) => {
+    try {
+      res.json(await getNotificationPreferences(req.session.userId!));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+  
+  app.put("/api/user/notification-preferences", requireAuth, async (req, res) => {
+    try {
+      const result = insertNotificationPreferencesSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const closingReminderMinutes = Array.from(new Set(result.data.closingReminderMinutes)).sort((a, b) => b - a);
+      const preferences = await storage.setNotificationPreferences(req.session.userId!, {
+        ...NOTIFICATION_PREFERENCE_DEFAULTS,
+        ...result.data,
+        closingReminderMinutes
+      });
+      
+      res.json(preferences);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+  
+  // Get user's bids (for bid history)
+  // `?scope=company` lists the bids of everyone in the user's company
+  app.get("/api/user/bids", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+      
+      const isOwnBid = req.query.scope === 'company'
+        ? (bid: Bid) => bid.companyId === user.companyId
+        : (bid: Bid) => bid.userId === user.id;
+      
+      // Get all lanes first
+      const lanes = await storage.getLanes();
+      
+      // Get all bids for each lane
+      const allBids: any[] = [];
+      
+      for (const lane of lanes) {
         try {
           const laneBids = await storage.getBidsByLane(lane.id);
-          // Filter to just the user's bids
-          const userBids = laneBids.filter(bid => bid.userId === req.session.userId);
+          // Filter to just the user's (or their company's) bids
+          const userBids = laneBids.filter(isOwnBid);
+          
+          if (userBids.length === 0) {
+            continue;
+          }
+          
+          const visibleLane = await getVisibleLane(lane, req.session.role, req.session.userId);
+          
+          // Once a lane is awarded, each bid either won a share or lost
+          const laneAwards = lane.status === 'awarded'
+            ? await storage.getAwardsByLane(lane.id)
+            : undefined;
           
           // Add lane info to each bid
           userBids.forEach(bid => {
+            const award = laneAwards?.find(award => award.bidId === bid.id);
+            const outcome: BidOutcome | undefined = laneAwards
+              ? (award ? 'won' : 'lost')
+              : undefined;
+            
             allBids.push({
               ...bid,
+              outcome,
+              sharePercent: award ? parseFloat(award.sharePercent) : undefined,
+              shareLoads: award?.shareLoads ?? undefined,
               lane: {
                 id: lane.id,
                 bidName: lane.bidName,
@@ -372,9 +2097,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 vehicleType: lane.vehicleType,
                 loadingLocation: lane.loadingLocation,
                 unloadingLocation: lane.unloadingLocation,
+                expectedVolume: lane.expectedVolume,
+                volumePeriod: lane.volumePeriod,
                 validFrom: lane.validFrom,
                 validUntil: lane.validUntil,
-                minBid: lane.minBid
+                minBid: visibleLane.minBid,
+                bidVisibility: lane.bidVisibility,
+                trafficLightPercent: lane.trafficLightPercent,
+                feedback: visibleLane.feedback
               }
             });
           });
@@ -384,21 +2114,366 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Sort by most recent first
-      allBids.sort((a, b) => {
-        const dateA = new Date(a.createdAt);
-        const dateB = new Date(b.createdAt);
-        return dateB.getTime() - dateA.getTime();
+      // Sort by most recent first
+      allBids.sort((a, b) => {
+        const dateA = new Date(a.createdAt);
+        const dateB = new Date(b.createdAt);
+        return dateB.getTime() - dateA.getTime();
+      });
+      
+      res.json(allBids);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Pre-filled bid sheet of every lane the forwarder can currently bid on
+  app.get("/api/user/bid-sheet", requireAuth, async (req, res) => {
+    try {
+      if (!hasPermission(req.session.role, 'bids:place')) {
+        return res.status(403).json({ message: "Forbidden: Only freight forwarders can submit bids" });
+      }
+      
+      const format: SheetFormat = req.query.format === 'csv' ? 'csv' : 'xlsx';
+      const rows = await getBidSheetRows(req.session.userId!, req.session.role);
+      const file = writeSheet(rows, BID_SHEET_HEADERS, format, "Bids");
+      
+      res.setHeader(
+        "Content-Type",
+        format === 'csv'
+          ? "text/csv"
+          : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      res.setHeader("Content-Disposition", `attachment; filename="bid-sheet.${format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+  
+  // Filled-in bid sheet upload. With ?dryRun=true only the row-by-row report
+  // is returned, otherwise all accepted bids are placed in a single transaction.
+  app.post(
+    "/api/user/bid-sheet",
+    requireAuth,
+    express.raw({ type: () => true, limit: SHEET_UPLOAD_MAX_BYTES }),
+    async (req, res) => {
+      try {
+        if (!hasPermission(req.session.role, 'bids:place')) {
+          return res.status(403).json({ message: "Forbidden: Only freight forwarders can submit bids" });
+        }
+        
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload a CSV or XLSX file" });
+        }
+        
+        let sheetRows: Record<string, unknown>[];
+        
+        try {
+          sheetRows = readSheetRows(req.body);
+        } catch (error) {
+          return res.status(400).json({ message: "Could not read the uploaded file as CSV or XLSX" });
+        }
+        
+        const { report, placements, skippedCount } = await validateBidSheet(sheetRows, req.session.userId!, req.session.role);
+        const summary = {
+          rows: report,
+          acceptedCount: placements.length,
+          rejectedCount: report.length - placements.length,
+          skippedCount
+        };
+        
+        if (req.query.dryRun === 'true') {
+          return res.json(summary);
+        }
+        
+        if (placements.length === 0) {
+          return res.status(400).json({ message: "No valid bids in the uploaded sheet", ...summary });
+        }
+        
+        const laneIds = Array.from(new Set(placements.map(placement => placement.bid.laneId)));
+        const previousLeaders = new Map<number, Bid | undefined>();
+        
+        for (const laneId of laneIds) {
+          previousLeaders.set(laneId, await getLaneLeader(laneId));
+        }
+        
+        const bids = await storage.placeBids(placements);
+        
+        for (let index = 0; index < bids.length; index++) {
+          await recordAudit(req, {
+            action: placements[index].reviseBidId ? 'bid.update' : 'bid.create',
+            entityType: 'bid',
+            entityId: bids[index].id,
+            after: { ...bids[index], source: 'bid_sheet' }
+          });
+        }
+        
+        bids.forEach((bid, index) => {
+          broadcastLaneEvent('bid_placed', bid.laneId, bid);
+          
+          if (placements[index].extendTo) {
+            broadcastLaneEvent('lane_extended', bid.laneId);
+            alertLaneExtended(bid.laneId);
+          }
+        });
+        
+        // Let proxies respond to the uploaded bids
+        for (const laneId of laneIds) {
+          const proxyBids = await runProxyBidding(laneId);
+          await recordProxyBids(req, proxyBids);
+          alertOutbidForwarders(laneId, previousLeaders.get(laneId), [...bids, ...proxyBids]);
+        }
+        
+        res.status(201).json({ ...summary, bids });
+      } catch (error) {
+        console.error(error);
+        res.status(500).json({ message: "Server error" });
+      }
+    }
+  );
+  
+  app.post("/api/lanes/:id/bids", requireAuth, async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane || !(await canViewLane(lane, req.session.role, req.session.userId))) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      // Only forwarders can place bids
+      if (!hasPermission(req.session.role, 'bids:place')) {
+        return res.status(403).json({ message: "Forbidden: Only freight forwarders can submit bids" });
+      }
+      
+      // Validate input
+      const result = bidInputSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const rejection = await getBidRejection(lane, req.session.userId!)
+        ?? await getBidAmountRejection(lane, req.session.userId!, result.data.amount);
+      
+      if (rejection) {
+        return res.status(rejection.status).json({ message: rejection.message });
+      }
+      
+      // On sealed lanes a forwarder holds a single bid per round which they may revise until close
+      const existingBid = lane.auctionType === 'sealed'
+        ? await storage.getUserBidForLane(laneId, req.session.userId!, lane.currentRound)
+        : undefined;
+      
+      if (existingBid) {
+        const revisedBid = await storage.updateBid(existingBid.id, {
+          amount: result.data.amount.toString(),
+          comment: result.data.comment
+        });
+        
+        if (revisedBid) {
+          await recordAudit(req, { action: 'bid.update', entityType: 'bid', entityId: revisedBid.id, before: existingBid, after: revisedBid });
+          broadcastLaneEvent('bid_placed', laneId, revisedBid);
+        }
+        
+        return res.json(revisedBid);
+      }
+      
+      const previousLeader = await getLaneLeader(laneId);
+      
+      // Create bid
+      const bid = await storage.createBid({
+        laneId,
+        userId: req.session.userId!,
+        amount: result.data.amount.toString(),
+        comment: result.data.comment,
+        round: lane.currentRound
+      });
+      
+      await recordAudit(req, { action: 'bid.create', entityType: 'bid', entityId: bid.id, after: bid });
+      
+      // Anti-sniping: push the deadline out when the bid lands in the final window
+      const extendedValidUntil = getAutoExtendedValidUntil(lane, bid.createdAt);
+      const extendedLane = extendedValidUntil && await storage.extendLane(laneId, extendedValidUntil);
+      
+      if (extendedLane) {
+        await recordAudit(req, {
+          action: 'lane.auto_extend',
+          entityType: 'lane',
+          entityId: laneId,
+          before: { validUntil: lane.validUntil },
+          after: { validUntil: extendedLane.validUntil }
+        });
+      }
+      
+      broadcastLaneEvent('bid_placed', laneId, bid);
+      
+      if (extendedLane) {
+        broadcastLaneEvent('lane_extended', laneId);
+        alertLaneExtended(laneId);
+      }
+      
+      // Let other forwarders' proxies respond to the new lowest bid
+      const proxyBids = await runProxyBidding(laneId);
+      await recordProxyBids(req, proxyBids);
+      alertOutbidForwarders(laneId, previousLeader, [bid, ...proxyBids]);
+      
+      res.status(201).json(bid);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+  
+  // PROXY BID ROUTES
+  // A forwarder's own proxy for the lane's current round, or null
+  app.get("/api/lanes/:id/proxy-bid", requireAuth, async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane || !(await canViewLane(lane, req.session.role, req.session.userId))) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      const proxyBid = await storage.getProxyBid(laneId, req.session.userId!, lane.currentRound);
+      res.json(proxyBid ?? null);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+  
+  app.put("/api/lanes/:id/proxy-bid", requireAuth, async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane || !(await canViewLane(lane, req.session.role, req.session.userId))) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      // Only forwarders can bid, automatically or not
+      if (!hasPermission(req.session.role, 'bids:place')) {
+        return res.status(403).json({ message: "Forbidden: Only freight forwarders can submit bids" });
+      }
+      
+      if (lane.auctionType !== 'open') {
+        return res.status(400).json({ message: "Automatic bidding is only available on open auctions" });
+      }
+      
+      const schema = z.object({
+        floorAmount: z.number().positive()
       });
       
-      res.json(allBids);
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const rejection = await getBidRejection(lane, req.session.userId!);
+      
+      if (rejection) {
+        return res.status(rejection.status).json({ message: rejection.message });
+      }
+      
+      const existingProxyBid = await storage.getProxyBid(laneId, req.session.userId!, lane.currentRound);
+      const proxyBid = await storage.setProxyBid({
+        laneId,
+        userId: req.session.userId!,
+        round: lane.currentRound,
+        floorAmount: result.data.floorAmount.toString()
+      });
+      
+      await recordAudit(req, {
+        action: existingProxyBid ? 'proxy_bid.update' : 'proxy_bid.create',
+        entityType: 'proxy_bid',
+        entityId: proxyBid.id,
+        before: existingProxyBid,
+        after: proxyBid
+      });
+      
+      // Undercut the current lowest bid right away if it belongs to someone else
+      const previousLeader = await getLaneLeader(laneId);
+      const bids = await runProxyBidding(laneId);
+      await recordProxyBids(req, bids);
+      alertOutbidForwarders(laneId, previousLeader, bids);
+      
+      // The bids may include rivals' proxies; the caller only learns whether
+      // one was placed for them and sees the lane as they always do
+      const updatedLane = (await storage.getLane(laneId)) ?? lane;
+      const visibleLane = await getVisibleLane({
+        ...updatedLane,
+        minBid: await storage.getLowestBidForLane(laneId, updatedLane.currentRound),
+        bidCount: await storage.getBidCountForLane(laneId, updatedLane.currentRound)
+      }, req.session.role, req.session.userId);
+      
+      res.json({
+        proxyBid,
+        bidPlaced: bids.some(bid => bid.userId === req.session.userId),
+        lane: visibleLane
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+  
+  app.delete("/api/lanes/:id/proxy-bid", requireAuth, async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane || !(await canViewLane(lane, req.session.role, req.session.userId))) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      const existingProxyBid = await storage.getProxyBid(laneId, req.session.userId!, lane.currentRound);
+      const deleted = existingProxyBid && await storage.deleteProxyBid(laneId, req.session.userId!, lane.currentRound);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "No automatic bidding is set up for this lane" });
+      }
+      
+      await recordAudit(req, { action: 'proxy_bid.delete', entityType: 'proxy_bid', entityId: existingProxyBid.id, before: existingProxyBid });
+      
+      res.json({ message: "Automatic bidding removed" });
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  app.post("/api/lanes/:id/bids", requireAuth, async (req, res) => {
+  // Opening event for sealed lanes: reveals all bids to admins at once
+  app.post("/api/lanes/:id/open-bids", requirePermission('lanes:manage'), async (req, res) => {
     try {
       const laneId = parseInt(req.params.id);
       
@@ -412,15 +2487,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Lane not found" });
       }
       
-      // Only forwarders can place bids
-      if (req.session.role !== 'forwarder') {
-        return res.status(403).json({ message: "Forbidden: Only freight forwarders can submit bids" });
+      if (lane.auctionType !== 'sealed') {
+        return res.status(400).json({ message: "Only sealed lanes have an opening event" });
+      }
+      
+      if (!isLaneClosed(lane)) {
+        return res.status(400).json({ message: "Sealed bids can only be opened after the lane closes" });
+      }
+      
+      const openedLane = await storage.markLaneBidsOpened(laneId);
+      
+      if (!openedLane) {
+        return res.status(409).json({ message: "Bids for this lane have already been opened" });
+      }
+      
+      await recordAudit(req, {
+        action: 'lane.open_bids',
+        entityType: 'lane',
+        entityId: laneId,
+        before: { bidsOpenedAt: lane.bidsOpenedAt },
+        after: { bidsOpenedAt: openedLane.bidsOpenedAt }
+      });
+      
+      broadcastLaneEvent('lane_updated', laneId);
+      res.json(openedLane);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // AWARD ROUTES
+  app.post("/api/lanes/:id/award", requirePermission('lanes:award'), async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane) {
+        return res.status(404).json({ message: "Lane not found" });
       }
       
       // Validate input
       const schema = z.object({
-        amount: z.number().positive(),
-        comment: z.string().optional()
+        allocations: z.array(z.object({
+          bidId: z.number().int(),
+          sharePercent: z.number().positive().max(100).optional(),
+          shareLoads: z.number().int().positive().optional()
+        })).min(1),
+        reason: z.string().trim().optional()
       });
       
       const result = schema.safeParse(req.body);
@@ -431,27 +2550,215 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Check if lane is active
-      if (lane.status !== 'active' && lane.status !== 'ending_soon') {
-        return res.status(400).json({ message: "Cannot bid on inactive lanes" });
+      if (lane.status === 'awarded') {
+        return res.status(400).json({ message: "Lane has already been awarded" });
       }
       
-      // Create bid
-      const bid = await storage.createBid({
+      if (lane.status === 'archived') {
+        return res.status(400).json({ message: "Cannot award archived lanes" });
+      }
+      
+      if (!isLaneClosed(lane)) {
+        return res.status(400).json({ message: "Lanes can only be awarded after they close" });
+      }
+      
+      if (lane.auctionType === 'sealed' && !lane.bidsOpenedAt) {
+        return res.status(400).json({ message: "Open the sealed bids before awarding the lane" });
+      }
+      
+      const { allocations } = result.data;
+      const bidIds = allocations.map(allocation => allocation.bidId);
+      
+      if (new Set(bidIds).size !== bidIds.length) {
+        return res.status(400).json({ message: "Each winning bid can only be allocated once" });
+      }
+      
+      // Only bids from the final round are eligible to win
+      const laneBids = (await storage.getBidsByLane(laneId))
+        .filter(bid => bid.round === lane.currentRound);
+      const winningBids = laneBids.filter(bid => bidIds.includes(bid.id));
+      
+      if (winningBids.length !== bidIds.length) {
+        return res.status(400).json({ message: "All winning bids must belong to the current round of this lane" });
+      }
+      
+      if (new Set(winningBids.map(bid => bid.userId)).size !== winningBids.length) {
+        return res.status(400).json({ message: "A forwarder can only win a lane once" });
+      }
+      
+      const reason = result.data.reason || undefined;
+      
+      if (!reason && requiresAwardReason(laneBids, winningBids)) {
+        return res.status(400).json({ message: "A reason is required when not awarding the lowest bids" });
+      }
+      
+      const allocation = allocateAwardShares(allocations, lane.expectedVolume);
+      
+      if ('error' in allocation) {
+        return res.status(400).json({ message: allocation.error });
+      }
+      
+      const awards = await storage.awardLane(laneId, lane.status, allocation.shares, reason, req.session.userId!);
+      
+      if (!awards) {
+        return res.status(409).json({ message: "Lane status changed concurrently, please retry" });
+      }
+      
+      await recordAudit(req, {
+        action: 'lane.award',
+        entityType: 'lane',
+        entityId: laneId,
+        before: { status: lane.status },
+        after: { status: 'awarded', reason, awards }
+      });
+      
+      broadcastLaneEvent('lane_status_changed', laneId);
+      
+      // Notify winners and every other forwarder who bid on the lane
+      try {
+        const winnerIds = new Set(winningBids.map(bid => bid.userId));
+        const losingBids = getBestBidPerForwarder(laneBids)
+          .filter(bid => !winnerIds.has(bid.userId));
+        
+        for (const bid of [...winningBids, ...losingBids]) {
+          const user = await storage.getUser(bid.userId);
+          if (user) {
+            const award = awards.find(award => award.bidId === bid.id);
+            await notifyUsers([user.id], {
+              type: 'lane_awarded',
+              laneId,
+              title: award ? 'Lane awarded to you' : 'Lane result',
+              message: award
+                ? `Your bid on ${lane.bidName} has been awarded a ${parseFloat(award.sharePercent)}% share.`
+                : `${lane.bidName} has been awarded to another forwarder.`
+            });
+            await queueEmail(user.email, 'lane_awarded', { lane, bid, award });
+          }
+        }
+      } catch (error) {
+        console.error('Failed to queue award notifications:', error);
+      }
+      
+      res.json(awards);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // ROUND ROUTES
+  // Closes out the current round by inviting the best N forwarders into the
+  // next one, each starting from their best price so far
+  app.post("/api/lanes/:id/rounds", requirePermission('lanes:manage'), async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      // Validate input
+      const schema = z.object({
+        topN: z.number().int().positive(),
+        validFrom: z.string().or(z.date()).transform(val => new Date(val)),
+        validUntil: z.string().or(z.date()).transform(val => new Date(val))
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: fromZodError(result.error).message 
+        });
+      }
+      
+      const { topN, validFrom, validUntil } = result.data;
+      
+      if (isNaN(validFrom.getTime()) || isNaN(validUntil.getTime())) {
+        return res.status(400).json({ message: "Invalid round dates" });
+      }
+      
+      if (validUntil <= validFrom || validUntil <= new Date()) {
+        return res.status(400).json({ message: "The round must end in the future and after it starts" });
+      }
+      
+      if (lane.status === 'awarded' || lane.status === 'archived') {
+        return res.status(400).json({ message: "Cannot start a new round on awarded or archived lanes" });
+      }
+      
+      if (!isLaneClosed(lane)) {
+        return res.status(400).json({ message: "The current round must close before the next one starts" });
+      }
+      
+      if (lane.auctionType === 'sealed' && !lane.bidsOpenedAt) {
+        return res.status(400).json({ message: "Open the sealed bids before starting the next round" });
+      }
+      
+      const roundBids = (await storage.getBidsByLane(laneId))
+        .filter(bid => bid.round === lane.currentRound);
+      const carriedBids = getBestBidPerForwarder(roundBids).slice(0, topN);
+      
+      if (carriedBids.length === 0) {
+        return res.status(400).json({ message: "No bids in the current round to carry over" });
+      }
+      
+      const nextRoundLane = await storage.startNextRound(
         laneId,
-        userId: req.session.userId!,
-        amount: result.data.amount.toString(),
-        comment: result.data.comment
+        lane.status,
+        { validFrom, validUntil },
+        carriedBids,
+        req.session.userId!
+      );
+      
+      if (!nextRoundLane) {
+        return res.status(409).json({ message: "Lane status changed concurrently, please retry" });
+      }
+      
+      await recordAudit(req, {
+        action: 'lane.next_round',
+        entityType: 'lane',
+        entityId: laneId,
+        before: lane,
+        after: { ...nextRoundLane, carriedBidIds: carriedBids.map(bid => bid.id) }
       });
       
-      res.status(201).json(bid);
+      broadcastLaneEvent('lane_status_changed', laneId);
+      res.json(nextRoundLane);
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
     }
   });
 
-  app.get("/api/lanes/:id/min-bid", requireAuth, async (req, res) => {
+  app.get("/api/lanes/:id/awards", requirePermission('bids:view'), async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      const awards = await storage.getAwardsByLane(laneId);
+      res.json(awards);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.get("/api/lanes/:id/status-history", requirePermission('bids:view'), async (req, res) => {
     try {
       const laneId = parseInt(req.params.id);
       
@@ -465,8 +2772,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Lane not found" });
       }
       
-      const minBid = await storage.getLowestBidForLane(laneId);
-      res.json({ minBid });
+      const changes = await storage.getLaneStatusChanges(laneId);
+      res.json(changes);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  app.get("/api/lanes/:id/min-bid", requireAuth, async (req, res) => {
+    try {
+      const laneId = parseInt(req.params.id);
+      
+      if (isNaN(laneId)) {
+        return res.status(400).json({ message: "Invalid lane ID" });
+      }
+      
+      const lane = await storage.getLane(laneId);
+      
+      if (!lane || !(await canViewLane(lane, req.session.role, req.session.userId))) {
+        return res.status(404).json({ message: "Lane not found" });
+      }
+      
+      const minBid = await storage.getLowestBidForLane(laneId, lane.currentRound);
+      const visibleLane = await getVisibleLane({ ...lane, minBid }, req.session.role, req.session.userId);
+      res.json({ minBid: visibleLane.minBid });
     } catch (error) {
       console.error(error);
       res.status(500).json({ message: "Server error" });
@@ -474,5 +2804,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import { getScheduledLaneStatus, OPEN_LANE_STATUSES } from "./auction";
+import { broadcastLaneEvent } from "./realtime";
+import { runClosingReminders } from "./alerts";
+import { log } from "./vite";
+
+// How often lane timing is checked
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.LANE_SCHEDULER_INTERVAL_MS || '30000');
+
+// Moves every open lane to the status its validUntil calls for
+export async function runLaneLifecycle(now: Date = new Date()) {
+  const openLanes = await storage.getLanesByStatus(OPEN_LANE_STATUSES);
+
+  for (const lane of openLanes) {
+    const nextStatus = getScheduledLaneStatus(lane, now);
+
+    if (nextStatus === lane.status) {
+      continue;
+    }
+
+    const updatedLane = await storage.updateLaneStatus(lane.id, lane.status, nextStatus);
+
+    if (updatedLane) {
+      log(`Lane ${lane.id} moved from ${lane.status} to ${nextStatus}`, "scheduler");
+      broadcastLaneEvent('lane_status_changed', lane.id);
+    }
+  }
+}
+
+export function startLaneScheduler(): NodeJS.Timeout {
+  let isRunning = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap when the previous run is slow
+    if (isRunning) {
+      return;
+    }
+
+    isRunning = true;
+    try {
+      await runLaneLifecycle();
+      await runClosingReminders();
+    } catch (error) {
+      console.error('Lane scheduler failed:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,34 @@
+import * as XLSX from "xlsx";
+
+export type SheetFormat = 'csv' | 'xlsx';
+
+// Largest spreadsheet the upload endpoints accept
+export const SHEET_UPLOAD_MAX_BYTES = 5 * 1024 * 1024;
+
+// Reads the first sheet of a CSV or XLSX file into one object per data row,
+// keyed by the header row. Empty cells come back as ''.
+export function readSheetRows(file: Buffer): Record<string, unknown>[] {
+  const workbook = XLSX.read(file, { type: 'buffer', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+
+  if (!sheet) {
+    return [];
+  }
+
+  return XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
+}
+
+// Writes rows to a single-sheet CSV or XLSX file, using `headers` as the columns
+export function writeSheet(rows: Record<string, unknown>[], headers: string[], format: SheetFormat, sheetName: string): Buffer {
+  const sheet = XLSX.utils.json_to_sheet(rows, { header: headers });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: format });
+}
+
+// Header matching that ignores case, spaces, underscores and dashes, so
+// "Bid Name", "bid_name" and "bidName" all match the same column
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]/g, '');
+}
@@ -1,17 +1,58 @@
 import { z } from "zod";
 import { 
-  users, User, InsertUser, 
-  lanes, Lane, InsertLane, 
-  bids, Bid, InsertBid,
+  users, User, InsertUser, Role, UserTwoFactorSettings,
+  Company, InsertCompany, normalizeCompanyName,
+  UserInvitation, InsertUserInvitation, PasswordResetToken, InsertPasswordResetToken,
+  lanes, Lane, InsertLane, LaneStatus, LaneStatusChange,
+  tenders, Tender, InsertTender, TenderForwarder, TenderCarrierGroup,
+  CarrierGroup, CarrierGroupMember, InsertCarrierGroup, CarrierGroupWithMembers,
+  bids, Bid, InsertBid, BidPlacement,
+  laneRoundParticipants, LaneRoundParticipant, LaneInvitation, LaneInvitees,
+  proxyBids, ProxyBid, InsertProxyBid,
+  awards, Award, AwardShare,
+  AuditLog, InsertAuditLog, AuditLogFilters,
+  OutboxEmail, InsertOutboxEmail, OutboxEmailDelivery,
+  Notification, InsertNotification,
+  NotificationPreferences, InsertNotificationPreferences, ClosingReminder, InsertClosingReminder,
   BidWithUser, LaneWithBids
 } from "@shared/schema";
+import { hashPassword } from "./passwords";
 
 export interface IStorage {
+  // Company operations
+  getCompany(id: number): Promise<Company | undefined>;
+  getCompanies(): Promise<Company[]>;
+  // Matches names regardless of case, punctuation and spacing
+  getCompanyByName(name: string): Promise<Company | undefined>;
+  createCompany(company: InsertCompany): Promise<Company>;
+
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
+  // Both store a salted hash of `password`, never the password itself
   createUser(user: InsertUser): Promise<User>;
+  updateUserPassword(id: number, password: string): Promise<User | undefined>;
+  updateUserRole(id: number, role: Role): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  updateUserTwoFactor(id: number, settings: Partial<UserTwoFactorSettings>): Promise<User | undefined>;
+  // Removes a recovery code so it works only once. Returns false when the user
+  // has no such code.
+  consumeRecoveryCode(id: number, codeHash: string): Promise<boolean>;
+
+  // Invitation operations
+  createUserInvitation(invitation: InsertUserInvitation): Promise<UserInvitation>;
+  getUserInvitationByTokenHash(tokenHash: string): Promise<UserInvitation | undefined>;
+  // Marks the invitation accepted and creates its user, or does neither.
+  // Returns undefined when the invitation has already been used.
+  acceptUserInvitation(id: number, user: InsertUser): Promise<User | undefined>;
+
+  // Password reset operations
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Sets the user's new password and invalidates all of their outstanding
+  // reset tokens. Returns undefined when the token has already been used.
+  resetPassword(tokenId: number, password: string): Promise<User | undefined>;
 
   // Lane operations
   getLane(id: number): Promise<Lane | undefined>;
@@ -21,41 +62,211 @@ export interface IStorage {
     loadingLocation?: string;
     unloadingLocation?: string;
   }): Promise<LaneWithBids[]>;
-  createLane(lane: InsertLane): Promise<Lane>;
+  // Creates the lane together with its invitation list, so it is never
+  // visible to forwarders it was not published to
+  createLane(lane: InsertLane, invitees?: LaneInvitees): Promise<Lane>;
+  // Creates all lanes or none of them, each with the same invitation list
+  createLanes(lanes: InsertLane[], invitees?: LaneInvitees): Promise<Lane[]>;
   updateLane(id: number, lane: Partial<InsertLane>): Promise<Lane | undefined>;
+  // Moves the deadline to `validUntil` and counts the extension. Returns
+  // undefined, leaving the lane as is, when the deadline is already there or
+  // the lane has used up its extensions.
+  extendLane(id: number, validUntil: Date): Promise<Lane | undefined>;
+  markLaneBidsOpened(id: number): Promise<Lane | undefined>;
   deleteLane(id: number): Promise<boolean>;
+  getLanesByStatus(statuses: LaneStatus[]): Promise<Lane[]>;
+  // Moves a lane from `fromStatus` to `toStatus` and records the transition.
+  // Returns undefined when the lane is no longer in `fromStatus`.
+  updateLaneStatus(id: number, fromStatus: LaneStatus, toStatus: LaneStatus, changedBy?: number): Promise<Lane | undefined>;
+  getLaneStatusChanges(laneId: number): Promise<LaneStatusChange[]>;
+  // Opens the lane's next round for the given forwarders, carrying their bids
+  // forward. Returns undefined when the lane is no longer in `fromStatus`.
+  startNextRound(laneId: number, fromStatus: LaneStatus, timing: { validFrom: Date; validUntil: Date }, carriedBids: Bid[], changedBy: number): Promise<Lane | undefined>;
+  isRoundParticipant(laneId: number, round: number, userId: number): Promise<boolean>;
+  getLanesByTender(tenderId: number): Promise<Lane[]>;
+  getLaneInvitees(laneId: number): Promise<LaneInvitees>;
+  // Replaces the lane's invited forwarders and companies
+  setLaneInvitees(laneId: number, invitees: LaneInvitees): Promise<void>;
+
+  // Tender operations
+  getTender(id: number): Promise<Tender | undefined>;
+  getTenders(): Promise<Tender[]>;
+  createTender(tender: InsertTender): Promise<Tender>;
+  updateTender(id: number, tender: Partial<InsertTender>): Promise<Tender | undefined>;
+  // Deletes the tender and its invitations; its lanes become standalone lanes
+  deleteTender(id: number): Promise<boolean>;
+  getTenderForwarderIds(tenderId: number): Promise<number[]>;
+  getTenderGroupIds(tenderId: number): Promise<number[]>;
+  // Replaces the tender's invited forwarders and carrier groups
+  setTenderForwarders(tenderId: number, userIds: number[], groupIds: number[]): Promise<void>;
+  // Whether the forwarder is invited by name or through a carrier group
+  isTenderForwarder(tenderId: number, userId: number): Promise<boolean>;
+
+  // Carrier group operations
+  getCarrierGroups(): Promise<CarrierGroupWithMembers[]>;
+  getCarrierGroup(id: number): Promise<CarrierGroupWithMembers | undefined>;
+  createCarrierGroup(group: InsertCarrierGroup, userIds: number[]): Promise<CarrierGroupWithMembers>;
+  // Replaces the members when `userIds` is given
+  updateCarrierGroup(id: number, group: Partial<InsertCarrierGroup>, userIds?: number[]): Promise<CarrierGroupWithMembers | undefined>;
+  // Deletes the group and its members; refused by the routes while lanes
+  // or tenders still invite the group
+  deleteCarrierGroup(id: number): Promise<boolean>;
+  // Lanes whose invitation list includes the group
+  getCarrierGroupLaneIds(groupId: number): Promise<number[]>;
+  getCarrierGroupTenderIds(groupId: number): Promise<number[]>;
+  isCarrierGroupMember(groupId: number, userId: number): Promise<boolean>;
 
   // Bid operations
   getBid(id: number): Promise<Bid | undefined>;
   getBidsByLane(laneId: number): Promise<BidWithUser[]>;
-  getLowestBidForLane(laneId: number): Promise<number | undefined>;
-  getBidCountForLane(laneId: number): Promise<number>;
+  // `round` restricts the lookup to one tender round, otherwise all rounds count
+  getLowestBidForLane(laneId: number, round?: number): Promise<number | undefined>;
+  getBidCountForLane(laneId: number, round?: number): Promise<number>;
+  getUserBidForLane(laneId: number, userId: number, round?: number): Promise<Bid | undefined>;
   createBid(bid: InsertBid): Promise<Bid>;
+  updateBid(id: number, bid: Pick<InsertBid, 'amount' | 'comment'>): Promise<Bid | undefined>;
+  // Records all placements or none of them
+  placeBids(placements: BidPlacement[]): Promise<Bid[]>;
+
+  // Proxy bid operations
+  getProxyBid(laneId: number, userId: number, round: number): Promise<ProxyBid | undefined>;
+  // Ordered by floor, lowest first; earlier proxies win ties
+  getProxyBidsByLane(laneId: number, round?: number): Promise<ProxyBid[]>;
+  // Creates the forwarder's proxy for the round or replaces its floor
+  setProxyBid(proxyBid: InsertProxyBid): Promise<ProxyBid>;
+  deleteProxyBid(laneId: number, userId: number, round: number): Promise<boolean>;
+
+  // Award operations
+  // Moves the lane from `fromStatus` to awarded and records the winning shares.
+  // Returns undefined when the lane is no longer in `fromStatus`.
+  awardLane(laneId: number, fromStatus: LaneStatus, shares: AwardShare[], reason: string | undefined, awardedBy: number): Promise<Award[] | undefined>;
+  getAwardsByLane(laneId: number): Promise<Award[]>;
+
+  // Audit log operations. Entries are never updated or deleted.
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  // Newest first
+  getAuditLogs(filters: AuditLogFilters, limit?: number): Promise<AuditLog[]>;
+
+  // Notification operations
+  createNotifications(notifications: InsertNotification[]): Promise<Notification[]>;
+  // Newest first
+  getNotifications(userId: number, limit: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  // Marks the user's notifications in `ids` as read, or all of them when
+  // omitted. Returns the number newly marked.
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
+  // Undefined when the user has not changed the defaults
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined>;
+  setNotificationPreferences(userId: number, preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+  // Reminders already sent in one round of the lane
+  getClosingReminders(laneId: number, round: number): Promise<ClosingReminder[]>;
+  createClosingReminders(reminders: InsertClosingReminder[]): Promise<ClosingReminder[]>;
+
+  // Email outbox operations
+  createOutboxEmails(emails: InsertOutboxEmail[]): Promise<OutboxEmail[]>;
+  // Pending emails whose next attempt is due, oldest first
+  getDueOutboxEmails(now: Date, limit: number): Promise<OutboxEmail[]>;
+  updateOutboxEmail(id: number, delivery: OutboxEmailDelivery): Promise<OutboxEmail | undefined>;
 }
 
 export class MemStorage implements IStorage {
+  private companies: Map<number, Company>;
   private users: Map<number, User>;
   private lanes: Map<number, Lane>;
   private bids: Map<number, Bid>;
+  private laneStatusChanges: Map<number, LaneStatusChange>;
+  private awards: Map<number, Award>;
+  private roundParticipants: Map<number, LaneRoundParticipant>;
+  private laneInvitations: Map<number, LaneInvitation>;
+  private tenders: Map<number, Tender>;
+  private tenderForwarders: Map<number, TenderForwarder>;
+  private tenderCarrierGroups: Map<number, TenderCarrierGroup>;
+  private carrierGroups: Map<number, CarrierGroup>;
+  private carrierGroupMembers: Map<number, CarrierGroupMember>;
+  private proxyBids: Map<number, ProxyBid>;
+  private userInvitations: Map<number, UserInvitation>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private auditLogs: Map<number, AuditLog>;
+  private outboxEmails: Map<number, OutboxEmail>;
+  private notifications: Map<number, Notification>;
+  private notificationPreferences: Map<number, NotificationPreferences>;
+  private closingReminders: Map<number, ClosingReminder>;
   
+  private companyId: number;
   private userId: number;
   private laneId: number;
   private bidId: number;
+  private laneStatusChangeId: number;
+  private awardId: number;
+  private roundParticipantId: number;
+  private laneInvitationId: number;
+  private tenderId: number;
+  private tenderForwarderId: number;
+  private tenderCarrierGroupId: number;
+  private carrierGroupId: number;
+  private carrierGroupMemberId: number;
+  private proxyBidId: number;
+  private userInvitationId: number;
+  private passwordResetTokenId: number;
+  private auditLogId: number;
+  private outboxEmailId: number;
+  private notificationId: number;
+  private closingReminderId: number;
 
   constructor() {
+    this.companies = new Map();
     this.users = new Map();
     this.lanes = new Map();
     this.bids = new Map();
+    this.laneStatusChanges = new Map();
+    this.awards = new Map();
+    this.roundParticipants = new Map();
+    this.laneInvitations = new Map();
+    this.tenders = new Map();
+    this.tenderForwarders = new Map();
+    this.tenderCarrierGroups = new Map();
+    this.carrierGroups = new Map();
+    this.carrierGroupMembers = new Map();
+    this.proxyBids = new Map();
+    this.userInvitations = new Map();
+    this.passwordResetTokens = new Map();
+    this.auditLogs = new Map();
+    this.outboxEmails = new Map();
+    this.notifications = new Map();
+    this.notificationPreferences = new Map();
+    this.closingReminders = new Map();
     
+    this.companyId = 1;
     this.userId = 1;
     this.laneId = 1;
     this.bidId = 1;
+    this.laneStatusChangeId = 1;
+    this.awardId = 1;
+    this.roundParticipantId = 1;
+    this.laneInvitationId = 1;
+    this.tenderId = 1;
+    this.tenderForwarderId = 1;
+    this.tenderCarrierGroupId = 1;
+    this.carrierGroupId = 1;
+    this.carrierGroupMemberId = 1;
+    this.proxyBidId = 1;
+    this.userInvitationId = 1;
+    this.passwordResetTokenId = 1;
+    this.auditLogId = 1;
+    this.outboxEmailId = 1;
+    this.notificationId = 1;
+    this.closingReminderId = 1;
+    
+    // Create default companies (ids 1 and 2)
+    this.createCompany({ name: "Admin Company" });
+    this.createCompany({ name: "Freight Co." });
     
     // Create default admin user
     this.createUser({
       username: "admin",
       password: "admin123",
-      companyName: "Admin Company",
+      email: "admin@example.com",
+      companyId: 1,
       role: "admin"
     });
     
@@ -63,11 +274,41 @@ export class MemStorage implements IStorage {
     this.createUser({
       username: "user",
       password: "user123",
-      companyName: "Freight Co.",
+      email: "user@example.com",
+      companyId: 2,
       role: "forwarder"
     });
   }
 
+  // Company operations
+  async getCompany(id: number): Promise<Company | undefined> {
+    return this.companies.get(id);
+  }
+
+  async getCompanies(): Promise<Company[]> {
+    return Array.from(this.companies.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCompanyByName(name: string): Promise<Company | undefined> {
+    const normalizedName = normalizeCompanyName(name);
+    return Array.from(this.companies.values()).find(
+      (company) => company.normalizedName === normalizedName,
+    );
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    const id = this.companyId++;
+    const company: Company = {
+      ...insertCompany,
+      id,
+      normalizedName: normalizeCompanyName(insertCompany.name),
+      createdAt: new Date()
+    };
+    this.companies.set(id, company);
+    return company;
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -90,12 +331,121 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...insertUser, 
       id,
-      role // Explicitly set the role to ensure it's not undefined
+      password: await hashPassword(insertUser.password),
+      role, // Explicitly set the role to ensure it's not undefined
+      totpSecret: null,
+      totpEnabled: false,
+      totpRecoveryCodes: [],
+      totpRequired: false
     };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, password: await hashPassword(password) };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserRole(id: number, role: Role): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, role };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email === email,
+    );
+  }
+
+  async updateUserTwoFactor(id: number, settings: Partial<UserTwoFactorSettings>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, ...settings };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async consumeRecoveryCode(id: number, codeHash: string): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user || !user.totpRecoveryCodes.includes(codeHash)) return false;
+    
+    this.users.set(id, {
+      ...user,
+      totpRecoveryCodes: user.totpRecoveryCodes.filter(code => code !== codeHash)
+    });
+    return true;
+  }
+
+  // Invitation operations
+  async createUserInvitation(invitation: InsertUserInvitation): Promise<UserInvitation> {
+    const id = this.userInvitationId++;
+    const userInvitation: UserInvitation = {
+      ...invitation,
+      id,
+      acceptedAt: null,
+      createdAt: new Date()
+    };
+    this.userInvitations.set(id, userInvitation);
+    return userInvitation;
+  }
+
+  async getUserInvitationByTokenHash(tokenHash: string): Promise<UserInvitation | undefined> {
+    return Array.from(this.userInvitations.values()).find(
+      (invitation) => invitation.tokenHash === tokenHash,
+    );
+  }
+
+  async acceptUserInvitation(id: number, user: InsertUser): Promise<User | undefined> {
+    const invitation = this.userInvitations.get(id);
+    if (!invitation || invitation.acceptedAt) return undefined;
+    
+    this.userInvitations.set(id, { ...invitation, acceptedAt: new Date() });
+    return this.createUser(user);
+  }
+
+  // Password reset operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenId++;
+    const passwordResetToken: PasswordResetToken = {
+      ...token,
+      id,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.passwordResetTokens.set(id, passwordResetToken);
+    return passwordResetToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(
+      (token) => token.tokenHash === tokenHash,
+    );
+  }
+
+  async resetPassword(tokenId: number, password: string): Promise<User | undefined> {
+    const token = this.passwordResetTokens.get(tokenId);
+    if (!token || token.usedAt) return undefined;
+    
+    const usedAt = new Date();
+    for (const userToken of Array.from(this.passwordResetTokens.values())) {
+      if (userToken.userId === token.userId && !userToken.usedAt) {
+        this.passwordResetTokens.set(userToken.id, { ...userToken, usedAt });
+      }
+    }
+    
+    return this.updateUserPassword(token.userId, password);
+  }
+
   // Lane operations
   async getLane(id: number): Promise<Lane | undefined> {
     return this.lanes.get(id);
@@ -145,7 +495,7 @@ export class MemStorage implements IStorage {
     return lanesWithBids;
   }
 
-  async createLane(insertLane: InsertLane): Promise<Lane> {
+  async createLane(insertLane: InsertLane, invitees?: LaneInvitees): Promise<Lane> {
     const id = this.laneId++;
     const createdAt = new Date();
     
@@ -165,20 +515,51 @@ export class MemStorage implements IStorage {
     const lane: Lane = {
       id,
       bidName: insertLane.bidName,
-      status: status as "active" | "archived" | "ending_soon",
+      status: status as LaneStatus,
+      auctionType: insertLane.auctionType || 'open',
       vehicleType: insertLane.vehicleType,
       loadingLocation: insertLane.loadingLocation,
       unloadingLocation: insertLane.unloadingLocation,
+      expectedVolume: insertLane.expectedVolume ?? null,
+      volumePeriod: insertLane.volumePeriod ?? null,
       validFrom: validFrom as Date,
       validUntil: validUntil as Date,
+      extensionWindowMinutes: insertLane.extensionWindowMinutes ?? null,
+      extensionMinutes: insertLane.extensionMinutes ?? null,
+      maxExtensions: insertLane.maxExtensions ?? null,
+      extensionCount: 0,
+      bidsOpenedAt: null,
+      currentRound: 1,
+      minDecrement: insertLane.minDecrement ?? null,
+      decrementType: insertLane.decrementType || 'absolute',
+      ceilingPrice: insertLane.ceilingPrice ?? null,
+      mustImproveOwnBid: insertLane.mustImproveOwnBid ?? false,
+      oneBidPerCompany: insertLane.oneBidPerCompany ?? false,
+      bidVisibility: insertLane.bidVisibility || 'full_price',
+      trafficLightPercent: insertLane.trafficLightPercent ?? 5,
+      tenderId: insertLane.tenderId ?? null,
       createdAt: createdAt,
       createdBy: insertLane.createdBy
     };
     
+    if (invitees) {
+      await this.setLaneInvitees(id, invitees);
+    }
+    
     this.lanes.set(id, lane);
     return lane;
   }
 
+  async createLanes(insertLanes: InsertLane[], invitees?: LaneInvitees): Promise<Lane[]> {
+    const createdLanes: Lane[] = [];
+    
+    for (const insertLane of insertLanes) {
+      createdLanes.push(await this.createLane(insertLane, invitees));
+    }
+    
+    return createdLanes;
+  }
+
   async updateLane(id: number, laneUpdate: Partial<InsertLane>): Promise<Lane | undefined> {
     const existingLane = this.lanes.get(id);
     
@@ -205,12 +586,52 @@ export class MemStorage implements IStorage {
     const updatedLane: Lane = { 
       ...existingLane,
       bidName: laneUpdate.bidName || existingLane.bidName,
-      status: (laneUpdate.status as "active" | "archived" | "ending_soon") || existingLane.status,
+      status: (laneUpdate.status as LaneStatus) || existingLane.status,
+      auctionType: laneUpdate.auctionType || existingLane.auctionType,
       vehicleType: laneUpdate.vehicleType || existingLane.vehicleType,
       loadingLocation: laneUpdate.loadingLocation || existingLane.loadingLocation,
       unloadingLocation: laneUpdate.unloadingLocation || existingLane.unloadingLocation,
+      expectedVolume: laneUpdate.expectedVolume !== undefined
+        ? laneUpdate.expectedVolume
+        : existingLane.expectedVolume,
+      volumePeriod: laneUpdate.volumePeriod !== undefined
+        ? laneUpdate.volumePeriod
+        : existingLane.volumePeriod,
       validFrom: validFrom as Date,
       validUntil: validUntil as Date,
+      extensionWindowMinutes: laneUpdate.extensionWindowMinutes !== undefined
+        ? laneUpdate.extensionWindowMinutes
+        : existingLane.extensionWindowMinutes,
+      extensionMinutes: laneUpdate.extensionMinutes !== undefined
+        ? laneUpdate.extensionMinutes
+        : existingLane.extensionMinutes,
+      maxExtensions: laneUpdate.maxExtensions !== undefined
+        ? laneUpdate.maxExtensions
+        : existingLane.maxExtensions,
+      minDecrement: laneUpdate.minDecrement !== undefined
+        ? laneUpdate.minDecrement
+        : existingLane.minDecrement,
+      decrementType: laneUpdate.decrementType !== undefined
+        ? laneUpdate.decrementType
+        : existingLane.decrementType,
+      ceilingPrice: laneUpdate.ceilingPrice !== undefined
+        ? laneUpdate.ceilingPrice
+        : existingLane.ceilingPrice,
+      mustImproveOwnBid: laneUpdate.mustImproveOwnBid !== undefined
+        ? laneUpdate.mustImproveOwnBid
+        : existingLane.mustImproveOwnBid,
+      oneBidPerCompany: laneUpdate.oneBidPerCompany !== undefined
+        ? laneUpdate.oneBidPerCompany
+        : existingLane.oneBidPerCompany,
+      bidVisibility: laneUpdate.bidVisibility !== undefined
+        ? laneUpdate.bidVisibility
+        : existingLane.bidVisibility,
+      trafficLightPercent: laneUpdate.trafficLightPercent !== undefined
+        ? laneUpdate.trafficLightPercent
+        : existingLane.trafficLightPercent,
+      tenderId: laneUpdate.tenderId !== undefined
+        ? laneUpdate.tenderId
+        : existingLane.tenderId,
       createdBy: laneUpdate.createdBy || existingLane.createdBy
     };
     
@@ -219,10 +640,385 @@ export class MemStorage implements IStorage {
     return updatedLane;
   }
 
+  async extendLane(id: number, validUntil: Date): Promise<Lane | undefined> {
+    const existingLane = this.lanes.get(id);
+    
+    if (!existingLane || existingLane.validUntil >= validUntil) {
+      return undefined;
+    }
+    
+    // No cap means the lane can be extended indefinitely
+    if (existingLane.maxExtensions && existingLane.extensionCount >= existingLane.maxExtensions) {
+      return undefined;
+    }
+    
+    const extendedLane: Lane = {
+      ...existingLane,
+      validUntil,
+      extensionCount: existingLane.extensionCount + 1
+    };
+    
+    this.lanes.set(id, extendedLane);
+    
+    return extendedLane;
+  }
+
+  async markLaneBidsOpened(id: number): Promise<Lane | undefined> {
+    const existingLane = this.lanes.get(id);
+    
+    if (!existingLane || existingLane.bidsOpenedAt) {
+      return undefined;
+    }
+    
+    const openedLane: Lane = { ...existingLane, bidsOpenedAt: new Date() };
+    this.lanes.set(id, openedLane);
+    
+    return openedLane;
+  }
+
   async deleteLane(id: number): Promise<boolean> {
     return this.lanes.delete(id);
   }
 
+  async getLanesByStatus(statuses: LaneStatus[]): Promise<Lane[]> {
+    return Array.from(this.lanes.values())
+      .filter(lane => statuses.includes(lane.status));
+  }
+
+  async updateLaneStatus(id: number, fromStatus: LaneStatus, toStatus: LaneStatus, changedBy?: number): Promise<Lane | undefined> {
+    const existingLane = this.lanes.get(id);
+    
+    if (!existingLane || existingLane.status !== fromStatus) {
+      return undefined;
+    }
+    
+    const updatedLane: Lane = { ...existingLane, status: toStatus };
+    this.lanes.set(id, updatedLane);
+    
+    const changeId = this.laneStatusChangeId++;
+    this.laneStatusChanges.set(changeId, {
+      id: changeId,
+      laneId: id,
+      fromStatus,
+      toStatus,
+      changedBy: changedBy ?? null,
+      changedAt: new Date()
+    });
+    
+    return updatedLane;
+  }
+
+  async getLaneStatusChanges(laneId: number): Promise<LaneStatusChange[]> {
+    return Array.from(this.laneStatusChanges.values())
+      .filter(change => change.laneId === laneId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  }
+
+  async startNextRound(laneId: number, fromStatus: LaneStatus, timing: { validFrom: Date; validUntil: Date }, carriedBids: Bid[], changedBy: number): Promise<Lane | undefined> {
+    const reopenedLane = await this.updateLaneStatus(laneId, fromStatus, 'active', changedBy);
+    
+    if (!reopenedLane) {
+      return undefined;
+    }
+    
+    const round = reopenedLane.currentRound + 1;
+    const nextRoundLane: Lane = {
+      ...reopenedLane,
+      ...timing,
+      currentRound: round,
+      extensionCount: 0,
+      bidsOpenedAt: null
+    };
+    this.lanes.set(laneId, nextRoundLane);
+    
+    for (const bid of carriedBids) {
+      const participantId = this.roundParticipantId++;
+      this.roundParticipants.set(participantId, {
+        id: participantId,
+        laneId,
+        round,
+        userId: bid.userId,
+        invitedAt: new Date()
+      });
+      
+      await this.createBid({
+        laneId,
+        userId: bid.userId,
+        amount: bid.amount,
+        comment: `Carried over from round ${bid.round}`,
+        round,
+        carriedOver: true
+      });
+    }
+    
+    return nextRoundLane;
+  }
+
+  async isRoundParticipant(laneId: number, round: number, userId: number): Promise<boolean> {
+    return Array.from(this.roundParticipants.values())
+      .some(participant => participant.laneId === laneId && participant.round === round && participant.userId === userId);
+  }
+
+  async getLanesByTender(tenderId: number): Promise<Lane[]> {
+    return Array.from(this.lanes.values())
+      .filter(lane => lane.tenderId === tenderId);
+  }
+
+  async getLaneInvitees(laneId: number): Promise<LaneInvitees> {
+    const invitations = Array.from(this.laneInvitations.values())
+      .filter(invitation => invitation.laneId === laneId);
+    
+    return {
+      userIds: invitations.flatMap(invitation => invitation.userId !== null ? [invitation.userId] : []),
+      companyIds: invitations.flatMap(invitation => invitation.companyId !== null ? [invitation.companyId] : []),
+      groupIds: invitations.flatMap(invitation => invitation.groupId !== null ? [invitation.groupId] : [])
+    };
+  }
+
+  async setLaneInvitees(laneId: number, invitees: LaneInvitees): Promise<void> {
+    for (const [id, invitation] of Array.from(this.laneInvitations.entries())) {
+      if (invitation.laneId === laneId) {
+        this.laneInvitations.delete(id);
+      }
+    }
+    
+    const rows = [
+      ...invitees.userIds.map(userId => ({ userId, companyId: null, groupId: null })),
+      ...invitees.companyIds.map(companyId => ({ userId: null, companyId, groupId: null })),
+      ...invitees.groupIds.map(groupId => ({ userId: null, companyId: null, groupId }))
+    ];
+    
+    for (const row of rows) {
+      const id = this.laneInvitationId++;
+      this.laneInvitations.set(id, { id, laneId, ...row, invitedAt: new Date() });
+    }
+  }
+
+  // Tender operations
+  async getTender(id: number): Promise<Tender | undefined> {
+    return this.tenders.get(id);
+  }
+
+  async getTenders(): Promise<Tender[]> {
+    return Array.from(this.tenders.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createTender(insertTender: InsertTender): Promise<Tender> {
+    const id = this.tenderId++;
+    const tender: Tender = {
+      id,
+      name: insertTender.name,
+      description: insertTender.description ?? null,
+      auctionType: insertTender.auctionType || 'open',
+      validFrom: new Date(insertTender.validFrom),
+      validUntil: new Date(insertTender.validUntil),
+      extensionWindowMinutes: insertTender.extensionWindowMinutes ?? null,
+      extensionMinutes: insertTender.extensionMinutes ?? null,
+      maxExtensions: insertTender.maxExtensions ?? null,
+      createdAt: new Date(),
+      createdBy: insertTender.createdBy
+    };
+    
+    this.tenders.set(id, tender);
+    return tender;
+  }
+
+  async updateTender(id: number, tenderUpdate: Partial<InsertTender>): Promise<Tender | undefined> {
+    const existingTender = this.tenders.get(id);
+    
+    if (!existingTender) {
+      return undefined;
+    }
+    
+    const updatedTender: Tender = {
+      ...existingTender,
+      name: tenderUpdate.name || existingTender.name,
+      description: tenderUpdate.description !== undefined
+        ? tenderUpdate.description
+        : existingTender.description,
+      auctionType: tenderUpdate.auctionType || existingTender.auctionType,
+      validFrom: tenderUpdate.validFrom ? new Date(tenderUpdate.validFrom) : existingTender.validFrom,
+      validUntil: tenderUpdate.validUntil ? new Date(tenderUpdate.validUntil) : existingTender.validUntil,
+      extensionWindowMinutes: tenderUpdate.extensionWindowMinutes !== undefined
+        ? tenderUpdate.extensionWindowMinutes
+        : existingTender.extensionWindowMinutes,
+      extensionMinutes: tenderUpdate.extensionMinutes !== undefined
+        ? tenderUpdate.extensionMinutes
+        : existingTender.extensionMinutes,
+      maxExtensions: tenderUpdate.maxExtensions !== undefined
+        ? tenderUpdate.maxExtensions
+        : existingTender.maxExtensions
+    };
+    
+    this.tenders.set(id, updatedTender);
+    return updatedTender;
+  }
+
+  async deleteTender(id: number): Promise<boolean> {
+    if (!this.tenders.has(id)) {
+      return false;
+    }
+    
+    for (const lane of await this.getLanesByTender(id)) {
+      this.lanes.set(lane.id, { ...lane, tenderId: null });
+    }
+    
+    await this.setTenderForwarders(id, [], []);
+    return this.tenders.delete(id);
+  }
+
+  async getTenderForwarderIds(tenderId: number): Promise<number[]> {
+    return Array.from(this.tenderForwarders.values())
+      .filter(invitation => invitation.tenderId === tenderId)
+      .map(invitation => invitation.userId);
+  }
+
+  async getTenderGroupIds(tenderId: number): Promise<number[]> {
+    return Array.from(this.tenderCarrierGroups.values())
+      .filter(invitation => invitation.tenderId === tenderId)
+      .map(invitation => invitation.groupId);
+  }
+
+  async setTenderForwarders(tenderId: number, userIds: number[], groupIds: number[]): Promise<void> {
+    for (const [id, invitation] of Array.from(this.tenderForwarders.entries())) {
+      if (invitation.tenderId === tenderId) {
+        this.tenderForwarders.delete(id);
+      }
+    }
+    
+    for (const [id, invitation] of Array.from(this.tenderCarrierGroups.entries())) {
+      if (invitation.tenderId === tenderId) {
+        this.tenderCarrierGroups.delete(id);
+      }
+    }
+    
+    for (const userId of userIds) {
+      const id = this.tenderForwarderId++;
+      this.tenderForwarders.set(id, { id, tenderId, userId, invitedAt: new Date() });
+    }
+    
+    for (const groupId of groupIds) {
+      const id = this.tenderCarrierGroupId++;
+      this.tenderCarrierGroups.set(id, { id, tenderId, groupId, invitedAt: new Date() });
+    }
+  }
+
+  async isTenderForwarder(tenderId: number, userId: number): Promise<boolean> {
+    const isInvited = Array.from(this.tenderForwarders.values())
+      .some(invitation => invitation.tenderId === tenderId && invitation.userId === userId);
+    
+    if (isInvited) {
+      return true;
+    }
+    
+    for (const groupId of await this.getTenderGroupIds(tenderId)) {
+      if (await this.isCarrierGroupMember(groupId, userId)) {
+        return true;
+      }
+    }
+    
+    return false;
+  }
+
+  // Carrier group operations
+  private withMembers(group: CarrierGroup): CarrierGroupWithMembers {
+    const userIds = Array.from(this.carrierGroupMembers.values())
+      .filter(member => member.groupId === group.id)
+      .map(member => member.userId);
+    
+    return { ...group, userIds };
+  }
+
+  private setCarrierGroupMembers(groupId: number, userIds: number[]) {
+    for (const [id, member] of Array.from(this.carrierGroupMembers.entries())) {
+      if (member.groupId === groupId) {
+        this.carrierGroupMembers.delete(id);
+      }
+    }
+    
+    for (const userId of userIds) {
+      const id = this.carrierGroupMemberId++;
+      this.carrierGroupMembers.set(id, { id, groupId, userId, addedAt: new Date() });
+    }
+  }
+
+  async getCarrierGroups(): Promise<CarrierGroupWithMembers[]> {
+    return Array.from(this.carrierGroups.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(group => this.withMembers(group));
+  }
+
+  async getCarrierGroup(id: number): Promise<CarrierGroupWithMembers | undefined> {
+    const group = this.carrierGroups.get(id);
+    return group && this.withMembers(group);
+  }
+
+  async createCarrierGroup(insertGroup: InsertCarrierGroup, userIds: number[]): Promise<CarrierGroupWithMembers> {
+    const id = this.carrierGroupId++;
+    const group: CarrierGroup = {
+      id,
+      name: insertGroup.name,
+      description: insertGroup.description ?? null,
+      createdAt: new Date(),
+      createdBy: insertGroup.createdBy
+    };
+    
+    this.carrierGroups.set(id, group);
+    this.setCarrierGroupMembers(id, userIds);
+    return this.withMembers(group);
+  }
+
+  async updateCarrierGroup(id: number, groupUpdate: Partial<InsertCarrierGroup>, userIds?: number[]): Promise<CarrierGroupWithMembers | undefined> {
+    const existingGroup = this.carrierGroups.get(id);
+    
+    if (!existingGroup) {
+      return undefined;
+    }
+    
+    const updatedGroup: CarrierGroup = {
+      ...existingGroup,
+      name: groupUpdate.name || existingGroup.name,
+      description: groupUpdate.description !== undefined
+        ? groupUpdate.description
+        : existingGroup.description
+    };
+    
+    this.carrierGroups.set(id, updatedGroup);
+    
+    if (userIds) {
+      this.setCarrierGroupMembers(id, userIds);
+    }
+    
+    return this.withMembers(updatedGroup);
+  }
+
+  async deleteCarrierGroup(id: number): Promise<boolean> {
+    if (!this.carrierGroups.has(id)) {
+      return false;
+    }
+    
+    this.setCarrierGroupMembers(id, []);
+    return this.carrierGroups.delete(id);
+  }
+
+  async getCarrierGroupLaneIds(groupId: number): Promise<number[]> {
+    return Array.from(this.laneInvitations.values())
+      .filter(invitation => invitation.groupId === groupId)
+      .map(invitation => invitation.laneId);
+  }
+
+  async getCarrierGroupTenderIds(groupId: number): Promise<number[]> {
+    return Array.from(this.tenderCarrierGroups.values())
+      .filter(invitation => invitation.groupId === groupId)
+      .map(invitation => invitation.tenderId);
+  }
+
+  async isCarrierGroupMember(groupId: number, userId: number): Promise<boolean> {
+    return Array.from(this.carrierGroupMembers.values())
+      .some(member => member.groupId === groupId && member.userId === userId);
+  }
+
   // Bid operations
   async getBid(id: number): Promise<Bid | undefined> {
     return this.bids.get(id);
@@ -246,10 +1042,11 @@ export class MemStorage implements IStorage {
     const bidsWithUser: BidWithUser[] = await Promise.all(
       laneBids.map(async bid => {
         const user = await this.getUser(bid.userId);
+        const company = await this.getCompany(bid.companyId);
         return {
           ...bid,
           username: user?.username || 'Unknown',
-          companyName: user?.companyName || 'Unknown Company'
+          companyName: company?.name || 'Unknown Company'
         };
       })
     );
@@ -257,9 +1054,9 @@ export class MemStorage implements IStorage {
     return bidsWithUser;
   }
 
-  async getLowestBidForLane(laneId: number): Promise<number | undefined> {
+  async getLowestBidForLane(laneId: number, round?: number): Promise<number | undefined> {
     const bids = Array.from(this.bids.values())
-      .filter(bid => bid.laneId === laneId);
+      .filter(bid => bid.laneId === laneId && (round === undefined || bid.round === round));
       
     if (bids.length === 0) {
       return undefined;
@@ -274,21 +1071,290 @@ export class MemStorage implements IStorage {
     return minBid === Infinity ? undefined : minBid;
   }
 
-  async getBidCountForLane(laneId: number): Promise<number> {
+  async getBidCountForLane(laneId: number, round?: number): Promise<number> {
     return Array.from(this.bids.values())
-      .filter(bid => bid.laneId === laneId)
+      .filter(bid => bid.laneId === laneId && (round === undefined || bid.round === round))
       .length;
   }
 
+  async getUserBidForLane(laneId: number, userId: number, round?: number): Promise<Bid | undefined> {
+    return Array.from(this.bids.values())
+      .filter(bid => bid.laneId === laneId && bid.userId === userId && (round === undefined || bid.round === round))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
   async createBid(insertBid: InsertBid): Promise<Bid> {
     const id = this.bidId++;
     const createdAt = new Date();
     // Initialize with empty comment if not provided
     const comment = insertBid.comment ?? null;
-    const bid: Bid = { ...insertBid, comment, id, createdAt };
+    const bid: Bid = {
+      ...insertBid,
+      companyId: this.users.get(insertBid.userId)!.companyId,
+      comment,
+      round: insertBid.round ?? 1,
+      carriedOver: insertBid.carriedOver ?? false,
+      isProxy: insertBid.isProxy ?? false,
+      id,
+      createdAt,
+      updatedAt: null
+    };
     this.bids.set(id, bid);
     return bid;
   }
+
+  async updateBid(id: number, bidUpdate: Pick<InsertBid, 'amount' | 'comment'>): Promise<Bid | undefined> {
+    const existingBid = this.bids.get(id);
+    
+    if (!existingBid) {
+      return undefined;
+    }
+    
+    const updatedBid: Bid = {
+      ...existingBid,
+      amount: bidUpdate.amount,
+      comment: bidUpdate.comment ?? null,
+      updatedAt: new Date()
+    };
+    
+    this.bids.set(id, updatedBid);
+    return updatedBid;
+  }
+
+  async placeBids(placements: BidPlacement[]): Promise<Bid[]> {
+    const placedBids: Bid[] = [];
+    
+    for (const { bid, reviseBidId, extendTo } of placements) {
+      const placedBid = reviseBidId
+        ? await this.updateBid(reviseBidId, bid)
+        : await this.createBid(bid);
+      
+      if (placedBid) {
+        placedBids.push(placedBid);
+      }
+      
+      if (extendTo) {
+        await this.extendLane(bid.laneId, extendTo);
+      }
+    }
+    
+    return placedBids;
+  }
+
+  // Proxy bid operations
+  async getProxyBid(laneId: number, userId: number, round: number): Promise<ProxyBid | undefined> {
+    return Array.from(this.proxyBids.values())
+      .find(proxyBid => proxyBid.laneId === laneId && proxyBid.userId === userId && proxyBid.round === round);
+  }
+
+  async getProxyBidsByLane(laneId: number, round?: number): Promise<ProxyBid[]> {
+    return Array.from(this.proxyBids.values())
+      .filter(proxyBid => proxyBid.laneId === laneId && (round === undefined || proxyBid.round === round))
+      .sort((a, b) => parseFloat(a.floorAmount) - parseFloat(b.floorAmount) || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async setProxyBid(insertProxyBid: InsertProxyBid): Promise<ProxyBid> {
+    const existingProxyBid = await this.getProxyBid(insertProxyBid.laneId, insertProxyBid.userId, insertProxyBid.round);
+    
+    if (existingProxyBid) {
+      const updatedProxyBid: ProxyBid = {
+        ...existingProxyBid,
+        floorAmount: insertProxyBid.floorAmount,
+        updatedAt: new Date()
+      };
+      this.proxyBids.set(existingProxyBid.id, updatedProxyBid);
+      return updatedProxyBid;
+    }
+    
+    const id = this.proxyBidId++;
+    const proxyBid: ProxyBid = {
+      ...insertProxyBid,
+      id,
+      createdAt: new Date(),
+      updatedAt: null
+    };
+    this.proxyBids.set(id, proxyBid);
+    return proxyBid;
+  }
+
+  async deleteProxyBid(laneId: number, userId: number, round: number): Promise<boolean> {
+    const proxyBid = await this.getProxyBid(laneId, userId, round);
+    return proxyBid ? this.proxyBids.delete(proxyBid.id) : false;
+  }
+
+  // Award operations
+  async awardLane(laneId: number, fromStatus: LaneStatus, shares: AwardShare[], reason: string | undefined, awardedBy: number): Promise<Award[] | undefined> {
+    const awardedLane = await this.updateLaneStatus(laneId, fromStatus, 'awarded', awardedBy);
+    
+    if (!awardedLane) {
+      return undefined;
+    }
+    
+    return shares.map(share => {
+      const id = this.awardId++;
+      const award: Award = {
+        id,
+        laneId,
+        bidId: share.bidId,
+        sharePercent: share.sharePercent.toString(),
+        shareLoads: share.shareLoads,
+        reason: reason ?? null,
+        awardedBy,
+        awardedAt: new Date()
+      };
+      this.awards.set(id, award);
+      return award;
+    });
+  }
+
+  async getAwardsByLane(laneId: number): Promise<Award[]> {
+    return Array.from(this.awards.values())
+      .filter(award => award.laneId === laneId);
+  }
+
+  // Audit log operations
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const id = this.auditLogId++;
+    const auditLog: AuditLog = {
+      id,
+      actorId: entry.actorId ?? null,
+      actorUsername: entry.actorUsername ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      createdAt: new Date()
+    };
+    this.auditLogs.set(id, auditLog);
+    return auditLog;
+  }
+
+  async getAuditLogs(filters: AuditLogFilters, limit?: number): Promise<AuditLog[]> {
+    const actor = filters.actor?.toLowerCase();
+    const memberIds = filters.groupId !== undefined
+      ? (await this.getCarrierGroup(filters.groupId))?.userIds ?? []
+      : undefined;
+    const auditLogs = Array.from(this.auditLogs.values())
+      .filter(entry =>
+        (!actor || !!entry.actorUsername?.toLowerCase().includes(actor)) &&
+        (!memberIds || (entry.actorId !== null && memberIds.includes(entry.actorId))) &&
+        (!filters.action || entry.action === filters.action) &&
+        (!filters.entityType || entry.entityType === filters.entityType) &&
+        (filters.entityId === undefined || entry.entityId === filters.entityId) &&
+        (!filters.from || entry.createdAt >= filters.from) &&
+        (!filters.to || entry.createdAt <= filters.to)
+      )
+      .sort((a, b) => b.id - a.id);
+    return limit === undefined ? auditLogs : auditLogs.slice(0, limit);
+  }
+
+  // Notification operations
+  async createNotifications(notifications: InsertNotification[]): Promise<Notification[]> {
+    return notifications.map(notification => {
+      const id = this.notificationId++;
+      const created: Notification = {
+        ...notification,
+        id,
+        laneId: notification.laneId ?? null,
+        readAt: null,
+        createdAt: new Date()
+      };
+      this.notifications.set(id, created);
+      return created;
+    });
+  }
+
+  async getNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.readAt)
+      .length;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    const readAt = new Date();
+    const unread = Array.from(this.notifications.values()).filter(notification =>
+      notification.userId === userId && !notification.readAt && (!ids || ids.includes(notification.id))
+    );
+    unread.forEach(notification => this.notifications.set(notification.id, { ...notification, readAt }));
+    return unread.length;
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    return this.notificationPreferences.get(userId);
+  }
+
+  async setNotificationPreferences(userId: number, preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const saved: NotificationPreferences = {
+      outbidInApp: preferences.outbidInApp ?? true,
+      outbidEmail: preferences.outbidEmail ?? false,
+      closingInApp: preferences.closingInApp ?? true,
+      closingEmail: preferences.closingEmail ?? false,
+      closingReminderMinutes: preferences.closingReminderMinutes,
+      userId,
+      updatedAt: new Date()
+    };
+    this.notificationPreferences.set(userId, saved);
+    return saved;
+  }
+
+  async getClosingReminders(laneId: number, round: number): Promise<ClosingReminder[]> {
+    return Array.from(this.closingReminders.values())
+      .filter(reminder => reminder.laneId === laneId && reminder.round === round);
+  }
+
+  async createClosingReminders(reminders: InsertClosingReminder[]): Promise<ClosingReminder[]> {
+    return reminders.map(reminder => {
+      const id = this.closingReminderId++;
+      const closingReminder: ClosingReminder = { ...reminder, id, round: reminder.round ?? 1, sentAt: new Date() };
+      this.closingReminders.set(id, closingReminder);
+      return closingReminder;
+    });
+  }
+
+  // Email outbox operations
+  async createOutboxEmails(emails: InsertOutboxEmail[]): Promise<OutboxEmail[]> {
+    const now = new Date();
+    return emails.map(email => {
+      const id = this.outboxEmailId++;
+      const outboxEmail: OutboxEmail = {
+        ...email,
+        id,
+        status: 'pending',
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: now,
+        sentAt: null,
+        createdAt: now
+      };
+      this.outboxEmails.set(id, outboxEmail);
+      return outboxEmail;
+    });
+  }
+
+  async getDueOutboxEmails(now: Date, limit: number): Promise<OutboxEmail[]> {
+    return Array.from(this.outboxEmails.values())
+      .filter(email => email.status === 'pending' && email.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+  }
+
+  async updateOutboxEmail(id: number, delivery: OutboxEmailDelivery): Promise<OutboxEmail | undefined> {
+    const email = this.outboxEmails.get(id);
+    if (!email) return undefined;
+
+    const updatedEmail = { ...email, ...delivery };
+    this.outboxEmails.set(id, updatedEmail);
+    return updatedEmail;
+  }
 }
 
 // Create the storage instance based on environment
@@ -0,0 +1,84 @@
+import { InsertLane, Lane, LaneStatus, Tender } from "@shared/schema";
+import { storage } from "./storage";
+import { getScheduledLaneStatus, OPEN_LANE_STATUSES } from "./auction";
+import { broadcastLaneEvent } from "./realtime";
+
+export type TenderAction = 'open' | 'extend' | 'close';
+
+// Lane statuses each bulk action applies to; awarded and archived lanes are
+// never touched
+const TENDER_ACTION_STATUSES: Record<TenderAction, LaneStatus[]> = {
+  open: ['active', 'ending_soon', 'closed'],
+  extend: ['active', 'ending_soon', 'closed'],
+  close: ['active', 'ending_soon']
+};
+
+// Lane fields a tender dictates for every lane it owns
+export function getTenderLaneSettings(tender: Tender): Partial<InsertLane> {
+  return {
+    bidName: tender.name,
+    auctionType: tender.auctionType,
+    validFrom: tender.validFrom,
+    validUntil: tender.validUntil,
+    extensionWindowMinutes: tender.extensionWindowMinutes,
+    extensionMinutes: tender.extensionMinutes,
+    maxExtensions: tender.maxExtensions
+  };
+}
+
+// Pushes the tender's timing and rules onto the given open lanes; lanes that
+// already have bids keep their auction type. Closed, awarded and archived
+// lanes keep the timing they ended with, since a new window would not reopen
+// them; the tender's open action does that.
+export async function applyTenderSettings(tender: Tender, tenderLanes: Lane[]): Promise<void> {
+  const settings = getTenderLaneSettings(tender);
+
+  for (const lane of tenderLanes) {
+    if (!OPEN_LANE_STATUSES.includes(lane.status)) {
+      continue;
+    }
+
+    const hasBids = await storage.getBidCountForLane(lane.id) > 0;
+    await storage.updateLane(lane.id, hasBids ? { ...settings, auctionType: lane.auctionType } : settings);
+    broadcastLaneEvent('lane_updated', lane.id);
+  }
+}
+
+// Opens, extends or closes all eligible lanes of a tender with the new timing
+// and moves them to the status it calls for. Returns the lanes that changed.
+export async function scheduleTenderLanes(
+  tenderId: number,
+  action: TenderAction,
+  timing: { validFrom?: Date; validUntil: Date },
+  changedBy: number,
+  now: Date = new Date()
+): Promise<Lane[]> {
+  const changedLanes: Lane[] = [];
+
+  for (const lane of await storage.getLanesByTender(tenderId)) {
+    if (!TENDER_ACTION_STATUSES[action].includes(lane.status)) {
+      continue;
+    }
+
+    let updatedLane = await storage.updateLane(lane.id, timing);
+
+    if (!updatedLane) {
+      continue;
+    }
+
+    const nextStatus: LaneStatus = action === 'close'
+      ? 'closed'
+      : getScheduledLaneStatus({ ...updatedLane, status: 'active' }, now);
+
+    if (nextStatus !== lane.status) {
+      updatedLane = await storage.updateLaneStatus(lane.id, lane.status, nextStatus, changedBy);
+    }
+
+    if (updatedLane) {
+      changedLanes.push(updatedLane);
+      broadcastLaneEvent(nextStatus !== lane.status ? 'lane_status_changed' : 'lane_updated', lane.id);
+    }
+  }
+
+  return changedLanes;
+}
@@ -0,0 +1,51 @@
+import { randomBytes } from "crypto";
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import { User } from "@shared/schema";
+import { storage } from "./storage";
+import { hashToken } from "./passwords";
+
+// Name authenticator apps show next to the account
+const TOTP_ISSUER = 'Procurement 2.0';
+const RECOVERY_CODE_COUNT = 10;
+
+// Accept the previous and next 30-second step to tolerate clock drift
+authenticator.options = { window: 1 };
+
+// A new secret for a user to scan into their authenticator app
+export async function createTotpEnrollment(username: string): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const secret = authenticator.generateSecret();
+  const otpauthUrl = authenticator.keyuri(username, TOTP_ISSUER, secret);
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+export function verifyTotp(secret: string, code: string): boolean {
+  return authenticator.check(code.replace(/\s/g, ''), secret);
+}
+
+// Recovery codes are shown to the user once; only their hashes are stored
+export function generateRecoveryCodes(): { codes: string[]; codeHashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, codeHashes: codes.map(hashRecoveryCode) };
+}
+
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.trim().toLowerCase().replace(/[^0-9a-f]/g, ''));
+}
+
+// Checks a login's second step: an authenticator code, or a recovery code
+// which is used up in the process
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpEnabled || !user.totpSecret) {
+    return false;
+  }
+
+  if (/^\d{6}$/.test(code.replace(/\s/g, ''))) {
+    return verifyTotp(user.totpSecret, code);
+  }
+
+  return storage.consumeRecoveryCode(user.id, hashRecoveryCode(code));
+}
@@ -1,24 +1,136 @@
-import { pgTable, text, serial, integer, boolean, timestamp, numeric, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, numeric, jsonb, pgEnum, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// User roles enum
-export const roleEnum = pgEnum('role', ['admin', 'forwarder']);
+// User roles enum. Admins, tender managers, approvers and analysts work for
+// the shipper; forwarder admins and forwarders bid for a carrier company.
+export const roleEnum = pgEnum('role', ['admin', 'tender_manager', 'approver', 'analyst', 'forwarder_admin', 'forwarder']);
 
 // Status enum
-export const statusEnum = pgEnum('status', ['active', 'archived', 'ending_soon']);
+export const statusEnum = pgEnum('status', ['active', 'archived', 'ending_soon', 'closed', 'awarded']);
+
+// Auction type enum: open reverse auction or sealed-bid RFQ
+export const auctionTypeEnum = pgEnum('auction_type', ['open', 'sealed']);
+
+// Volume period enum for a lane's expected volume
+export const volumePeriodEnum = pgEnum('volume_period', ['week', 'month']);
 
 // Vehicle type enum
 export const vehicleTypeEnum = pgEnum('vehicle_type', ['40t', '12t', 'van']);
 
+// Decrement type enum: whether a lane's minimum decrement is in EUR or percent
+export const decrementTypeEnum = pgEnum('decrement_type', ['absolute', 'percent']);
+
+// Bid visibility enum: what forwarders learn about the competition on a lane
+export const bidVisibilityEnum = pgEnum('bid_visibility', ['full_price', 'rank', 'traffic_light']);
+
+// Email status enum: pending until sent, failed once the outbox gives up
+export const emailStatusEnum = pgEnum('email_status', ['pending', 'sent', 'failed']);
+
+// Company table: the carrier or shipper a user works for. `normalizedName`
+// keeps "Freight Co." and "freight co" from becoming two companies.
+export const companies = pgTable("companies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  normalizedName: text("normalized_name").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Lowercase with punctuation and extra spaces removed
+export function normalizeCompanyName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9\u00c0-\u024f]+/g, ' ').trim();
+}
+
 // User table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email").notNull().unique(),
-  companyName: text("company_name").notNull(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
   role: roleEnum("role").notNull().default('forwarder'),
+  // TOTP second factor. The secret is kept while enrollment is pending and
+  // only counts once `totpEnabled` is set; recovery codes are stored hashed.
+  totpSecret: text("totp_secret"),
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  totpRecoveryCodes: text("totp_recovery_codes").array().notNull().default([]),
+  // Set by an admin to make the user enroll before they can continue
+  totpRequired: boolean("totp_required").notNull().default(false),
+});
+
+// Account invitations sent by an admin; the forwarder's user is only created
+// once they accept and choose their own credentials. Tokens are stored hashed.
+export const userInvitations = pgTable("user_invitations", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"), // Set once the token has been used
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Password reset links requested from the login page. Tokens are stored hashed.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Set once the token has been used
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Tender table: an event grouping lanes under shared timing and rules
+export const tenders = pgTable("tenders", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  auctionType: auctionTypeEnum("auction_type").notNull().default('open'),
+  validFrom: timestamp("valid_from").notNull(),
+  validUntil: timestamp("valid_until").notNull(),
+  // Anti-sniping rules applied to every lane of the tender
+  extensionWindowMinutes: integer("extension_window_minutes"),
+  extensionMinutes: integer("extension_minutes"),
+  maxExtensions: integer("max_extensions"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+});
+
+// Forwarders invited to bid on a tender's lanes
+export const tenderForwarders = pgTable("tender_forwarders", {
+  id: serial("id").primaryKey(),
+  tenderId: integer("tender_id").notNull().references(() => tenders.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  invitedAt: timestamp("invited_at").notNull().defaultNow(),
+});
+
+// Saved panel of forwarders, such as "Nordic reefer panel", picked as a whole
+// when inviting forwarders instead of selecting them one by one
+export const carrierGroups = pgTable("carrier_groups", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+});
+
+export const carrierGroupMembers = pgTable("carrier_group_members", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => carrierGroups.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+}, (table) => [
+  index("carrier_group_members_group_idx").on(table.groupId),
+]);
+
+// Carrier groups invited to bid on a tender's lanes. Like lane invitations,
+// they follow the group's current members.
+export const tenderCarrierGroups = pgTable("tender_carrier_groups", {
+  id: serial("id").primaryKey(),
+  tenderId: integer("tender_id").notNull().references(() => tenders.id),
+  groupId: integer("group_id").notNull().references(() => carrierGroups.id),
+  invitedAt: timestamp("invited_at").notNull().defaultNow(),
 });
 
 // Lane table
@@ -26,11 +138,38 @@ export const lanes = pgTable("lanes", {
   id: serial("id").primaryKey(),
   bidName: text("bid_name").notNull(),
   status: statusEnum("status").notNull().default('active'),
+  auctionType: auctionTypeEnum("auction_type").notNull().default('open'),
   vehicleType: vehicleTypeEnum("vehicle_type").notNull(),
   loadingLocation: text("loading_location").notNull(),
   unloadingLocation: text("unloading_location").notNull(),
+  expectedVolume: integer("expected_volume"), // Loads per volumePeriod
+  volumePeriod: volumePeriodEnum("volume_period"),
   validFrom: timestamp("valid_from").notNull(),
   validUntil: timestamp("valid_until").notNull(),
+  // Anti-sniping: a bid placed within the final `extensionWindowMinutes`
+  // pushes validUntil out by `extensionMinutes`, at most `maxExtensions` times
+  extensionWindowMinutes: integer("extension_window_minutes"),
+  extensionMinutes: integer("extension_minutes"),
+  maxExtensions: integer("max_extensions"),
+  extensionCount: integer("extension_count").notNull().default(0),
+  // Set by the admin's opening event; sealed bids stay hidden until then
+  bidsOpenedAt: timestamp("bids_opened_at"),
+  currentRound: integer("current_round").notNull().default(1),
+  // Bidding rules: new bids must undercut the current lowest bid by at least
+  // `minDecrement`, may not exceed `ceilingPrice`, and when `mustImproveOwnBid`
+  // is set must be below the forwarder's own previous bid
+  minDecrement: numeric("min_decrement", { precision: 10, scale: 2 }),
+  decrementType: decrementTypeEnum("decrement_type").notNull().default('absolute'),
+  ceilingPrice: numeric("ceiling_price", { precision: 10, scale: 2 }),
+  mustImproveOwnBid: boolean("must_improve_own_bid").notNull().default(false),
+  // Only one user per company may bid in a round, so a company holds at most
+  // one active bid on the lane
+  oneBidPerCompany: boolean("one_bid_per_company").notNull().default(false),
+  // Forwarders see the lowest price, only their rank, or a traffic light that
+  // turns amber within `trafficLightPercent` of the lowest bid
+  bidVisibility: bidVisibilityEnum("bid_visibility").notNull().default('full_price'),
+  trafficLightPercent: integer("traffic_light_percent").notNull().default(5),
+  tenderId: integer("tender_id").references(() => tenders.id), // Null for standalone lanes
   createdAt: timestamp("created_at").notNull().defaultNow(),
   createdBy: integer("created_by").notNull().references(() => users.id),
 });
@@ -40,49 +179,441 @@ export const bids = pgTable("bids", {
   id: serial("id").primaryKey(),
   laneId: integer("lane_id").notNull().references(() => lanes.id),
   userId: integer("user_id").notNull().references(() => users.id),
+  companyId: integer("company_id").notNull().references(() => companies.id), // The user's company when the bid was placed
   amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
   comment: text("comment"), // Optional comment field for bids
+  round: integer("round").notNull().default(1),
+  carriedOver: boolean("carried_over").notNull().default(false), // Price carried from the previous round
+  isProxy: boolean("is_proxy").notNull().default(false), // Placed automatically on the forwarder's behalf
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at"), // Set when a sealed bid is revised
+});
+
+// Award table: one row per winning bid of a concluded lane
+export const awards = pgTable("awards", {
+  id: serial("id").primaryKey(),
+  laneId: integer("lane_id").notNull().references(() => lanes.id),
+  bidId: integer("bid_id").notNull().references(() => bids.id),
+  sharePercent: numeric("share_percent", { precision: 5, scale: 2 }).notNull(),
+  shareLoads: integer("share_loads"), // Set when the lane was split by load count
+  reason: text("reason"), // Required when the winners are not the lowest bids
+  awardedBy: integer("awarded_by").notNull().references(() => users.id),
+  awardedAt: timestamp("awarded_at").notNull().defaultNow(),
+});
+
+// Forwarders invited to a lane's later rounds; round 1 is open to all
+export const laneRoundParticipants = pgTable("lane_round_participants", {
+  id: serial("id").primaryKey(),
+  laneId: integer("lane_id").notNull().references(() => lanes.id),
+  round: integer("round").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  invitedAt: timestamp("invited_at").notNull().defaultNow(),
+});
+
+// Who a standalone lane is published to, one forwarder, whole company or
+// carrier group per row. Group invitations follow the group's current
+// members. Lanes without invitations are open to every forwarder; tender
+// lanes go to the tender's forwarders instead.
+export const laneInvitations = pgTable("lane_invitations", {
+  id: serial("id").primaryKey(),
+  laneId: integer("lane_id").notNull().references(() => lanes.id),
+  userId: integer("user_id").references(() => users.id),
+  companyId: integer("company_id").references(() => companies.id),
+  groupId: integer("group_id").references(() => carrierGroups.id),
+  invitedAt: timestamp("invited_at").notNull().defaultNow(),
+}, (table) => [
+  index("lane_invitations_lane_idx").on(table.laneId),
+]);
+
+// Proxy bidding: the lowest price a forwarder lets the server bid for them in
+// one round of a lane. Hidden from everyone but its owner until the lane closes.
+export const proxyBids = pgTable("proxy_bids", {
+  id: serial("id").primaryKey(),
+  laneId: integer("lane_id").notNull().references(() => lanes.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  round: integer("round").notNull(),
+  floorAmount: numeric("floor_amount", { precision: 10, scale: 2 }).notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at"),
 });
 
+// Lane status history, written on every lifecycle transition
+export const laneStatusChanges = pgTable("lane_status_changes", {
+  id: serial("id").primaryKey(),
+  laneId: integer("lane_id").notNull().references(() => lanes.id),
+  fromStatus: statusEnum("from_status").notNull(),
+  toStatus: statusEnum("to_status").notNull(),
+  changedBy: integer("changed_by").references(() => users.id), // Null when changed by the scheduler
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+});
+
+// Append-only trail of every change made through the API. Actors are kept by
+// id and name without a foreign key so entries outlive the users they name.
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // Null for signed-out actions such as a password reset
+  actorUsername: text("actor_username"),
+  action: text("action").notNull(), // e.g. "lane.update"
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id"),
+  before: jsonb("before"), // Null when the entity was created
+  after: jsonb("after"), // Null when the entity was deleted
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_logs_entity_idx").on(table.entityType, table.entityId),
+  index("audit_logs_created_at_idx").on(table.createdAt),
+]);
+
+// What a notification is about
+export const NOTIFICATION_TYPES = ['lane_published', 'outbid', 'lane_extended', 'lane_closing', 'lane_awarded', 'account'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// In-app notifications shown in the notification center. The lane is kept
+// without a foreign key so notifications outlive deleted lanes.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").$type<NotificationType>().notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  laneId: integer("lane_id"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("notifications_user_idx").on(table.userId, table.createdAt),
+]);
+
+// How a user wants to hear about bidding events. Users without a row get
+// NOTIFICATION_PREFERENCE_DEFAULTS.
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  outbidInApp: boolean("outbid_in_app").notNull().default(true),
+  outbidEmail: boolean("outbid_email").notNull().default(false),
+  closingInApp: boolean("closing_in_app").notNull().default(true),
+  closingEmail: boolean("closing_email").notNull().default(false),
+  // Minutes before a lane closes to remind its bidders, from CLOSING_REMINDER_OPTIONS
+  closingReminderMinutes: integer("closing_reminder_minutes").array().notNull().default([60, 15]),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Closing reminders already sent, so each is sent once per lane round and bidder
+export const closingReminders = pgTable("closing_reminders", {
+  id: serial("id").primaryKey(),
+  laneId: integer("lane_id").notNull().references(() => lanes.id),
+  round: integer("round").notNull().default(1),
+  userId: integer("user_id").notNull().references(() => users.id),
+  minutesBefore: integer("minutes_before").notNull(),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+});
+
+// Outbox of every email the platform sends, one row per recipient. Emails are
+// rendered when queued and sent by the outbox worker with retries.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  template: text("template").notNull(), // e.g. "lane_published"
+  templateVersion: integer("template_version").notNull(),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  status: emailStatusEnum("status").notNull().default('pending'),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"), // Set by the most recent failed attempt
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("email_outbox_due_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Password policy, configurable through the environment on the server
+const policyEnv: Record<string, string | undefined> = typeof process === 'undefined' ? {} : process.env;
+export const PASSWORD_MIN_LENGTH = parseInt(policyEnv.PASSWORD_MIN_LENGTH || '8');
+export const PASSWORD_REQUIRE_LETTERS_AND_DIGITS = policyEnv.PASSWORD_REQUIRE_LETTERS_AND_DIGITS !== 'false';
+
+export const passwordSchema = z.string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .refine(
+    password => !PASSWORD_REQUIRE_LETTERS_AND_DIGITS || (/[a-zA-Z]/.test(password) && /[0-9]/.test(password)),
+    "Password must contain both letters and numbers"
+  );
+
 // Create schemas for insert operations
-export const insertUserSchema = createInsertSchema(users).omit({
+export const insertCompanySchema = createInsertSchema(companies)
+  .omit({
+    id: true,
+    normalizedName: true,
+    createdAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1),
+  });
+
+export const insertUserSchema = createInsertSchema(users)
+  .omit({
+    id: true,
+    totpSecret: true,
+    totpEnabled: true,
+    totpRecoveryCodes: true,
+    totpRequired: true,
+  })
+  .extend({
+    password: passwordSchema,
+    email: z.string().email(),
+  });
+
+export const insertUserInvitationSchema = createInsertSchema(userInvitations).omit({
+  id: true,
+  acceptedAt: true,
+  createdAt: true,
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
   id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications)
+  .omit({
+    id: true,
+    readAt: true,
+    createdAt: true,
+  })
+  .extend({
+    type: z.enum(NOTIFICATION_TYPES),
+  });
+
+// Reminder lead times a user can choose from, in minutes
+export const CLOSING_REMINDER_OPTIONS = [1440, 60, 15];
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences)
+  .omit({
+    userId: true,
+    updatedAt: true,
+  })
+  .extend({
+    closingReminderMinutes: z.array(z.number().int().refine(
+      minutes => CLOSING_REMINDER_OPTIONS.includes(minutes),
+      "Unsupported reminder time"
+    )),
+  });
+
+export const insertClosingReminderSchema = createInsertSchema(closingReminders).omit({
+  id: true,
+  sentAt: true,
+});
+
+export const insertOutboxEmailSchema = createInsertSchema(emailOutbox).pick({
+  template: true,
+  templateVersion: true,
+  to: true,
+  subject: true,
+  text: true,
+  html: true,
 });
 
 export const insertLaneSchema = createInsertSchema(lanes)
   .omit({
     id: true,
     createdAt: true,
+    extensionCount: true,
+    bidsOpenedAt: true,
+    currentRound: true,
   })
   .extend({
     // Allow ISO string format for dates
     validFrom: z.string().or(z.date()),
     validUntil: z.string().or(z.date()),
+    // 0 or null disables the corresponding anti-sniping setting
+    extensionWindowMinutes: z.number().int().nonnegative().nullish(),
+    extensionMinutes: z.number().int().nonnegative().nullish(),
+    maxExtensions: z.number().int().nonnegative().nullish(),
+    // 0 or null means the lane has no expected volume
+    expectedVolume: z.number().int().nonnegative().nullish(),
+    // 0 or null disables the corresponding bidding rule
+    minDecrement: z.number().nonnegative().transform(String).nullish(),
+    ceilingPrice: z.number().nonnegative().transform(String).nullish(),
+    trafficLightPercent: z.number().int().positive().optional(),
   });
 
+export const insertTenderSchema = createInsertSchema(tenders)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    // Allow ISO string format for dates
+    validFrom: z.string().or(z.date()),
+    validUntil: z.string().or(z.date()),
+    // 0 or null disables the corresponding anti-sniping setting
+    extensionWindowMinutes: z.number().int().nonnegative().nullish(),
+    extensionMinutes: z.number().int().nonnegative().nullish(),
+    maxExtensions: z.number().int().nonnegative().nullish(),
+  });
+
+export const insertCarrierGroupSchema = createInsertSchema(carrierGroups)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Group name is required"),
+  });
+
+// The company is taken from the bidding user by storage
 export const insertBidSchema = createInsertSchema(bids).omit({
   id: true,
+  companyId: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProxyBidSchema = createInsertSchema(proxyBids).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 // Define TypeScript types from the schemas
+export type InsertCompany = z.infer<typeof insertCompanySchema>;
+export type Company = typeof companies.$inferSelect;
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Role = typeof roleEnum.enumValues[number];
+export type PublicUser = Omit<User, 'password' | 'totpSecret' | 'totpRecoveryCodes'> & {
+  companyName: string;
+};
+export type UserTwoFactorSettings = Pick<User, 'totpSecret' | 'totpEnabled' | 'totpRecoveryCodes' | 'totpRequired'>;
+
+export type InsertUserInvitation = z.infer<typeof insertUserInvitationSchema>;
+export type UserInvitation = typeof userInvitations.$inferSelect;
+
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+
+export const NOTIFICATION_PREFERENCE_DEFAULTS: InsertNotificationPreferences = {
+  outbidInApp: true,
+  outbidEmail: false,
+  closingInApp: true,
+  closingEmail: false,
+  closingReminderMinutes: [60, 15],
+};
+
+export type InsertClosingReminder = z.infer<typeof insertClosingReminderSchema>;
+export type ClosingReminder = typeof closingReminders.$inferSelect;
+
+export type InsertOutboxEmail = z.infer<typeof insertOutboxEmailSchema>;
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type EmailStatus = typeof emailStatusEnum.enumValues[number];
+// The result of a delivery attempt; the body is only replaced to redact it
+export type OutboxEmailDelivery = Partial<Pick<OutboxEmail, 'status' | 'attempts' | 'lastError' | 'nextAttemptAt' | 'sentAt' | 'text' | 'html'>>;
 
 export type InsertLane = z.infer<typeof insertLaneSchema>;
 export type Lane = typeof lanes.$inferSelect;
+export type LaneStatus = typeof statusEnum.enumValues[number];
+
+export type InsertTender = z.infer<typeof insertTenderSchema>;
+export type Tender = typeof tenders.$inferSelect;
+
+export type TenderForwarder = typeof tenderForwarders.$inferSelect;
+export type TenderCarrierGroup = typeof tenderCarrierGroups.$inferSelect;
+
+export type InsertCarrierGroup = z.infer<typeof insertCarrierGroupSchema>;
+export type CarrierGroup = typeof carrierGroups.$inferSelect;
+export type CarrierGroupMember = typeof carrierGroupMembers.$inferSelect;
+
+export type LaneStatusChange = typeof laneStatusChanges.$inferSelect;
+
+export type LaneRoundParticipant = typeof laneRoundParticipants.$inferSelect;
+
+export type LaneInvitation = typeof laneInvitations.$inferSelect;
+
+// A lane's invitation list as set through the API
+export interface LaneInvitees {
+  userIds: number[];
+  companyIds: number[];
+  groupIds: number[];
+}
+
+export type InsertProxyBid = z.infer<typeof insertProxyBidSchema>;
+export type ProxyBid = typeof proxyBids.$inferSelect;
+
+export type Award = typeof awards.$inferSelect;
+
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+
+export interface AuditLogFilters {
+  actor?: string; // Matches part of the actor's username
+  action?: string;
+  entityType?: string;
+  entityId?: number;
+  groupId?: number; // Only actions by members of the carrier group
+  from?: Date;
+  to?: Date;
+}
+
+// A winning bid's portion of a split award
+export interface AwardShare {
+  bidId: number;
+  sharePercent: number;
+  shareLoads: number | null;
+}
 
 export type InsertBid = z.infer<typeof insertBidSchema>;
 export type Bid = typeof bids.$inferSelect;
 
+// One bid of a batch: revises `reviseBidId` when set (sealed lanes hold a
+// single bid per forwarder) and moves the lane's deadline to `extendTo`
+export interface BidPlacement {
+  bid: InsertBid;
+  reviseBidId?: number;
+  extendTo?: Date;
+}
+
 // Types for frontend
+export type TrafficLight = 'leading' | 'close' | 'far';
+
+// How a forwarder's best bid compares to the rest of the current round
+export interface BidFeedback {
+  rank?: number; // 1 for the lowest bid
+  bidderCount?: number;
+  trafficLight?: TrafficLight;
+}
+
 export interface LaneWithBids extends Lane {
   minBid?: number;
   bidCount?: number;
+  feedback?: BidFeedback; // Only set for forwarders who have bid
+}
+
+export interface CarrierGroupWithMembers extends CarrierGroup {
+  userIds: number[];
+}
+
+export interface TenderWithLanes extends Tender {
+  lanes: LaneWithBids[];
+  forwarderIds: number[];
+  groupIds: number[];
 }
 
 export interface BidWithUser extends Bid {
   username: string;
   companyName: string;
 }
+
+export type BidOutcome = 'won' | 'lost';